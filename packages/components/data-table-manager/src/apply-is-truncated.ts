@@ -0,0 +1,16 @@
+// the "wrap text" display setting applies to all the columns, including the columns of the groups
+const applyIsTruncated = <
+  Column extends { isTruncated?: boolean; children?: Column[] }
+>(
+  columns: Column[],
+  isTruncated?: boolean
+): Column[] =>
+  columns.map((column) => ({
+    ...column,
+    isTruncated,
+    ...(column.children && {
+      children: applyIsTruncated(column.children, isTruncated),
+    }),
+  }));
+
+export default applyIsTruncated;
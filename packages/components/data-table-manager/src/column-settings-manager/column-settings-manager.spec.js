@@ -1,6 +1,7 @@
+import { useState } from 'react';
 import PrimaryButton from '@commercetools-uikit/primary-button';
 import SecondaryButton from '@commercetools-uikit/secondary-button';
-import { screen, render } from '../../../../../test/test-utils';
+import { screen, render, fireEvent } from '../../../../../test/test-utils';
 import {
   ColumnSettingsManager,
   handleColumnsUpdate,
@@ -85,6 +86,20 @@ describe('ColumnSettingsManager', () => {
       render(<ColumnSettingsManager {...props} />);
       expect(screen.getByText(secondaryButtonLabel)).toBeInTheDocument();
     });
+
+    it('undo and reset buttons', () => {
+      const props = createTestProps({
+        onUndo: jest.fn(),
+        canUndo: true,
+      });
+      render(<ColumnSettingsManager {...props} />);
+      expect(
+        screen.queryByLabelText('Reset to default')
+      ).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByLabelText('Undo'));
+      expect(props.onUndo).toHaveBeenCalled();
+    });
   });
 
   describe('handleColumnsUpdate', () => {
@@ -230,4 +245,94 @@ describe('ColumnSettingsManager', () => {
       ]);
     });
   });
+
+  describe('when moving the columns with the keyboard', () => {
+    const availableColumns = [
+      { key: 'sku', label: 'SKU' },
+      { key: 'name', label: 'Name' },
+      { key: 'price', label: 'Price' },
+    ];
+    const TestComponent = (props) => {
+      const [selectedColumns, setSelectedColumns] = useState(
+        availableColumns.slice(0, 2)
+      );
+      return (
+        <ColumnSettingsManager
+          {...createTestProps({
+            availableColumns,
+            selectedColumns,
+            onUpdateColumns: (nextColumns) => {
+              setSelectedColumns(nextColumns);
+              props.onUpdateColumns(nextColumns);
+            },
+          })}
+        />
+      );
+    };
+    const getColumn = (key) =>
+      document.querySelector(`[data-rfd-drag-handle-draggable-id="${key}"]`);
+    const getAnnouncement = () =>
+      screen.getByTestId('column-move-announcement');
+
+    it('should reorder the visible columns and announce the moves', () => {
+      const onUpdateColumns = jest.fn();
+      render(<TestComponent onUpdateColumns={onUpdateColumns} />);
+
+      fireEvent.keyDown(getColumn('sku'), { key: ' ' });
+      expect(getAnnouncement()).toHaveTextContent('Column SKU picked up.');
+      expect(getColumn('sku')).toHaveFocus();
+
+      fireEvent.keyDown(getColumn('sku'), { key: 'ArrowDown' });
+      expect(onUpdateColumns).toHaveBeenLastCalledWith([
+        { key: 'name', label: 'Name' },
+        { key: 'sku', label: 'SKU' },
+      ]);
+      expect(getAnnouncement()).toHaveTextContent(
+        'Column SKU moved to position 2 of 2.'
+      );
+
+      fireEvent.keyDown(getColumn('sku'), { key: 'Enter' });
+      expect(getAnnouncement()).toHaveTextContent('Column SKU dropped.');
+
+      // the column is not moved once dropped
+      fireEvent.keyDown(getColumn('sku'), { key: 'ArrowUp' });
+      expect(onUpdateColumns).toHaveBeenCalledTimes(1);
+    });
+
+    it('should move the columns across the panels', () => {
+      const onUpdateColumns = jest.fn();
+      render(<TestComponent onUpdateColumns={onUpdateColumns} />);
+
+      fireEvent.keyDown(getColumn('price'), { key: ' ' });
+      fireEvent.keyDown(getColumn('price'), { key: 'ArrowRight' });
+      expect(onUpdateColumns).toHaveBeenLastCalledWith(availableColumns);
+      expect(getAnnouncement()).toHaveTextContent(
+        'Column Price moved to position 3 of 3.'
+      );
+
+      fireEvent.keyDown(getColumn('price'), { key: 'ArrowLeft' });
+      expect(onUpdateColumns).toHaveBeenLastCalledWith(
+        availableColumns.slice(0, 2)
+      );
+      expect(getAnnouncement()).toHaveTextContent(
+        'Column Price moved to the hidden columns.'
+      );
+    });
+
+    it('should restore the columns when the move is cancelled', () => {
+      const onUpdateColumns = jest.fn();
+      render(<TestComponent onUpdateColumns={onUpdateColumns} />);
+
+      fireEvent.keyDown(getColumn('sku'), { key: 'Enter' });
+      fireEvent.keyDown(getColumn('sku'), { key: 'ArrowLeft' });
+      fireEvent.keyDown(getColumn('sku'), { key: 'Escape' });
+
+      expect(onUpdateColumns).toHaveBeenLastCalledWith(
+        availableColumns.slice(0, 2)
+      );
+      expect(getAnnouncement()).toHaveTextContent(
+        'Moving column SKU cancelled.'
+      );
+    });
+  });
 });
@@ -9,11 +9,18 @@ import {
   type Dispatch,
 } from 'react';
 import { useIntl } from 'react-intl';
-import { DragDropContext, type DropResult } from '@hello-pangea/dnd';
+import {
+  DragDropContext,
+  useMouseSensor,
+  useTouchSensor,
+  type DraggableLocation,
+  type DropResult,
+} from '@hello-pangea/dnd';
 import debounce from 'debounce-promise';
 import differenceWith from 'lodash/differenceWith';
 import styled from '@emotion/styled';
 import { designTokens } from '@commercetools-uikit/design-system';
+import AccessibleHidden from '@commercetools-uikit/accessible-hidden';
 import AsyncSelectInput from '@commercetools-uikit/async-select-input';
 import FieldLabel from '@commercetools-uikit/field-label';
 import Spacings from '@commercetools-uikit/spacings';
@@ -56,6 +63,24 @@ export type TColumnSettingsManagerProps = {
   primaryButton?: ReactElement;
   secondaryButton?: ReactElement;
   managerTheme?: 'light' | 'dark';
+  /**
+   * Renders the "Undo" button, which reverts the last change of the settings.
+   */
+  onUndo?: () => void;
+  /**
+   * Enables the "Undo" button.
+   */
+  canUndo?: boolean;
+  /**
+   * Renders the "Reset to default" button, which restores the default settings.
+   */
+  onResetToDefault?: () => void;
+};
+
+type TPickedUpColumn = {
+  key: string;
+  // the visible columns once the column was picked up, which are restored when cancelling the move
+  initialSelectedColumns: TColumnData[];
 };
 
 type TDroppableContainerProps = {
@@ -116,6 +141,38 @@ export const handleColumnsUpdate = (
   }
 };
 
+// the visible columns are reordered with the up and down arrow keys,
+// while the left and right arrow keys hide and show the column
+export const getKeyboardMoveDestination = (
+  key: string,
+  source: DraggableLocation,
+  selectedColumnsCount: number
+): DraggableLocation | undefined => {
+  if (source.droppableId === HIDDEN_COLUMNS_PANEL) {
+    return key === 'ArrowRight'
+      ? { droppableId: SELECTED_COLUMNS_PANEL, index: selectedColumnsCount }
+      : undefined;
+  }
+  switch (key) {
+    case 'ArrowUp':
+      return source.index > 0
+        ? { droppableId: SELECTED_COLUMNS_PANEL, index: source.index - 1 }
+        : undefined;
+    case 'ArrowDown':
+      return source.index < selectedColumnsCount - 1
+        ? { droppableId: SELECTED_COLUMNS_PANEL, index: source.index + 1 }
+        : undefined;
+    case 'ArrowLeft':
+      return { droppableId: HIDDEN_COLUMNS_PANEL, index: 0 };
+    default:
+      return undefined;
+  }
+};
+
+// the announcements name the columns by their label, or by their key when the label is not plain text
+const getColumnName = (column: TColumnData) =>
+  typeof column.label === 'string' ? column.label : column.key;
+
 const DropdownIndicator = () => (
   <Spacings.Inline alignItems="center">
     <SearchIcon size="medium" color="primary" />
@@ -143,6 +200,8 @@ export const ColumnSettingsManager = ({
 
   const intl = useIntl();
   const [isDragging, setIsDragging] = useState(false);
+  const [pickedUpColumn, setPickedUpColumn] = useState<TPickedUpColumn>();
+  const [announcement, setAnnouncement] = useState('');
   const { searchHiddenColumns } = props;
 
   const handleDragStart = () => {
@@ -171,6 +230,89 @@ export const ColumnSettingsManager = ({
     [props.onUpdateColumns, props.selectedColumns, availableColumns]
   );
 
+  // the columns are picked up, moved and dropped with the keyboard, instead of being dragged
+  const handleColumnKeyDown =
+    (droppableId: string) =>
+    (
+      event: KeyboardEvent<HTMLDivElement>,
+      column: TColumnData,
+      index: number
+    ) => {
+      // the keys pressed on the remove button of the tag are ignored
+      if (event.target !== event.currentTarget) return;
+      const isPickedUp = pickedUpColumn?.key === column.key;
+      const label = getColumnName(column);
+
+      if (event.key === ' ' || event.key === 'Enter') {
+        event.preventDefault();
+        if (isPickedUp) {
+          setPickedUpColumn(undefined);
+          setAnnouncement(
+            intl.formatMessage(messages.columnDropped, { label })
+          );
+        } else {
+          setPickedUpColumn({
+            key: column.key,
+            initialSelectedColumns: props.selectedColumns,
+          });
+          setAnnouncement(
+            intl.formatMessage(messages.columnPickedUp, { label })
+          );
+        }
+        return;
+      }
+      if (!isPickedUp) return;
+
+      if (event.key === 'Escape') {
+        event.preventDefault();
+        setPickedUpColumn(undefined);
+        props.onUpdateColumns(pickedUpColumn.initialSelectedColumns);
+        setAnnouncement(
+          intl.formatMessage(messages.columnMoveCancelled, { label })
+        );
+        return;
+      }
+      if (!event.key.startsWith('Arrow')) return;
+      // prevents the panel from being scrolled
+      event.preventDefault();
+
+      const source = { droppableId, index };
+      const destination = getKeyboardMoveDestination(
+        event.key,
+        source,
+        props.selectedColumns.length
+      );
+      if (!destination) return;
+
+      handleColumnsUpdate(
+        {
+          draggableId: column.key,
+          type: 'DEFAULT',
+          source,
+          destination,
+          reason: 'DROP',
+          mode: 'SNAP',
+          combine: null,
+        },
+        props.onUpdateColumns,
+        props.selectedColumns,
+        availableColumns,
+        setIsDragging
+      );
+      setAnnouncement(
+        destination.droppableId === HIDDEN_COLUMNS_PANEL
+          ? intl.formatMessage(messages.columnHidden, { label })
+          : intl.formatMessage(messages.columnMoved, {
+              label,
+              position: destination.index + 1,
+              count:
+                droppableId === SELECTED_COLUMNS_PANEL
+                  ? props.selectedColumns.length
+                  : props.selectedColumns.length + 1,
+            })
+      );
+    };
+
   const debouncedSearchHiddenColumns = useMemo(
     () => debounce(searchHiddenColumns ?? noSearch, 300),
     [searchHiddenColumns]
@@ -188,9 +330,21 @@ export const ColumnSettingsManager = ({
       onClose={props.onClose}
       primaryButton={props.primaryButton}
       secondaryButton={props.secondaryButton}
+      onUndo={props.onUndo}
+      canUndo={props.canUndo}
+      onResetToDefault={props.onResetToDefault}
       containerTheme={props.managerTheme}
     >
-      <DragDropContext onDragEnd={handleDragEnd} onDragStart={handleDragStart}>
+      <DragDropContext
+        onDragEnd={handleDragEnd}
+        onDragStart={handleDragStart}
+        // the columns are moved with the keyboard by the manager itself, so that the moves are announced
+        enableDefaultSensors={false}
+        sensors={[useMouseSensor, useTouchSensor]}
+        dragHandleUsageInstructions={intl.formatMessage(
+          messages.dragHandleUsageInstructions
+        )}
+      >
         <Spacings.Inline scale="l">
           <DroppableContainer
             isDragging={isDragging}
@@ -225,6 +379,8 @@ export const ColumnSettingsManager = ({
                 )}
                 columns={hiddenColumns}
                 isSearchable={props.areHiddenColumnsSearchable}
+                pickedUpColumnKey={pickedUpColumn?.key}
+                onColumnKeyDown={handleColumnKeyDown(HIDDEN_COLUMNS_PANEL)}
               />
             </Spacings.Stack>
           </DroppableContainer>
@@ -248,11 +404,18 @@ export const ColumnSettingsManager = ({
                 )}
                 columns={props.selectedColumns}
                 onRemove={props.onUpdateColumns}
+                pickedUpColumnKey={pickedUpColumn?.key}
+                onColumnKeyDown={handleColumnKeyDown(SELECTED_COLUMNS_PANEL)}
               />
             </Spacings.Stack>
           </DroppableContainer>
         </Spacings.Inline>
       </DragDropContext>
+      <AccessibleHidden>
+        <div aria-live="polite" data-testid="column-move-announcement">
+          {announcement}
+        </div>
+      </AccessibleHidden>
     </SettingsContainer>
   );
 };
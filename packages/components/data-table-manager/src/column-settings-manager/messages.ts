@@ -31,4 +31,37 @@ export default defineMessages({
     description: 'Label for density manager close button.',
     defaultMessage: 'Close',
   },
+  dragHandleUsageInstructions: {
+    id: 'UIKit.DataTableManager.ColumnManager.dragHandleUsageInstructions',
+    description: 'Instructions for moving the columns with the keyboard.',
+    defaultMessage:
+      'Press space bar to pick up the column. Use the up and down arrow keys to reorder the visible columns, and the left and right arrow keys to hide or show the column. Press space bar again to drop the column, or escape to cancel.',
+  },
+  columnPickedUp: {
+    id: 'UIKit.DataTableManager.ColumnManager.columnPickedUp',
+    description: 'Announcement when a column is picked up with the keyboard.',
+    defaultMessage: 'Column {label} picked up.',
+  },
+  columnMoved: {
+    id: 'UIKit.DataTableManager.ColumnManager.columnMoved',
+    description:
+      'Announcement when a visible column is moved with the keyboard.',
+    defaultMessage: 'Column {label} moved to position {position} of {count}.',
+  },
+  columnHidden: {
+    id: 'UIKit.DataTableManager.ColumnManager.columnHidden',
+    description: 'Announcement when a column is hidden with the keyboard.',
+    defaultMessage: 'Column {label} moved to the hidden columns.',
+  },
+  columnDropped: {
+    id: 'UIKit.DataTableManager.ColumnManager.columnDropped',
+    description: 'Announcement when a column is dropped with the keyboard.',
+    defaultMessage: 'Column {label} dropped.',
+  },
+  columnMoveCancelled: {
+    id: 'UIKit.DataTableManager.ColumnManager.columnMoveCancelled',
+    description:
+      'Announcement when moving a column with the keyboard is cancelled.',
+    defaultMessage: 'Moving column {label} cancelled.',
+  },
 });
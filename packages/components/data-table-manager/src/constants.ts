@@ -4,6 +4,9 @@ export const UPDATE_ACTIONS = {
   CUSTOM_COLUMNS_UPDATE: 'customColumnsUpdate',
   IS_TABLE_CONDENSED_UPDATE: 'isTableCondensedUpdate',
   IS_TABLE_WRAPPING_TEXT_UPDATE: 'isTableWrappingTextUpdate',
+  COLUMN_WIDTHS_UPDATE: 'columnWidthsUpdate',
+  SORTING_UPDATE: 'sortingUpdate',
 };
 export const COLUMN_MANAGER = 'columnManager';
 export const DISPLAY_SETTINGS = 'displaySettings';
+export const VIEWS_MANAGER = 'viewsManager';
@@ -4,9 +4,16 @@ import type {
   TColumnManagerProps,
   TCustomSettingsProps,
   TAdditionalSettings,
+  TViewsManagerProps,
+  TViewsActions,
+  TSettingsStorageProps,
 } from '../types';
 import type { TDataTableManagerColumnProps, TRow } from './types';
 import { TColumnData } from '../column-settings-manager';
+import { UPDATE_ACTIONS } from '../constants';
+import applyIsTruncated from '../apply-is-truncated';
+import getViewsActions from '../views-manager/get-views-actions';
+import useSettingsStorage from '../settings-storage/use-settings-storage';
 
 export type TDataTableManagerContext<Row extends TRow = TRow> =
   TDataTableSettingsProps & {
@@ -14,6 +21,9 @@ export type TDataTableManagerContext<Row extends TRow = TRow> =
     isCondensed?: boolean;
     customSettingsPayload?: Record<string, unknown>;
     customColumns?: TColumnData[];
+    reorderColumns?: (columnKeys: string[]) => void;
+    resizeColumns?: (columnWidths: Record<string, number>) => void;
+    viewsActions?: TViewsActions;
     debug: boolean; // TODO - remove when nested rows are implemented
   };
 
@@ -25,6 +35,29 @@ const DataTableManagerContext = createContext<TDataTableManagerContext>({
   additionalSettings: {},
 });
 
+const getLeafColumnKeys = (columns: TDataTableManagerColumnProps[]): string[] =>
+  columns.flatMap((column) =>
+    column.children ? getLeafColumnKeys(column.children) : [column.key]
+  );
+
+// the resized widths replace the widths of the column definitions, including the columns of the groups
+const applyColumnWidths = (
+  columns: TDataTableManagerColumnProps[],
+  columnWidths: Record<string, number>
+): TDataTableManagerColumnProps[] =>
+  columns.map((column) => {
+    if (column.children) {
+      return {
+        ...column,
+        children: applyColumnWidths(column.children, columnWidths),
+      };
+    }
+    const columnWidth = columnWidths[column.key];
+    return columnWidth === undefined
+      ? column
+      : { ...column, width: `${columnWidth}px` };
+  });
+
 export const useDataTableManagerContext = () => {
   const dataTableManagerContext = useContext(DataTableManagerContext);
 
@@ -48,6 +81,8 @@ export const DataTableManagerProvider = ({
   selectedColumns,
   customColumnManager,
   customColumns,
+  viewsManager,
+  settingsStorage,
   debug, // TODO - remove when nested rows are implemented
 }: {
   children: React.ReactNode;
@@ -64,6 +99,8 @@ export const DataTableManagerProvider = ({
   selectedColumns?: TColumnData[];
   customColumnManager?: TColumnManagerProps;
   customColumns?: TColumnData[];
+  viewsManager?: TViewsManagerProps;
+  settingsStorage?: TSettingsStorageProps;
   debug: boolean;
 }) => {
   const [additionalSettings, setAdditionalSettings] = useState<{
@@ -78,6 +115,13 @@ export const DataTableManagerProvider = ({
     );
   };
 
+  // the reported settings are saved, and the saved settings are restored once rendered
+  const handleSettingsChange = useSettingsStorage({
+    settingsStorage,
+    onSettingsChange,
+    columnManager,
+  });
+
   const decoupledDataTableManagerContext = useMemo(() => {
     const areDisplaySettingsEnabled = Boolean(
       displaySettings && !displaySettings.disableDisplaySettings
@@ -92,16 +136,18 @@ export const DataTableManagerProvider = ({
         customSettingsPayload[key] = settingsPayload;
       });
 
+    const columnWidths = columnManager?.columnWidths ?? {};
+
     return {
-      columns: columns.map((column) => ({
-        ...column,
-        isTruncated: areDisplaySettingsEnabled
-          ? isWrappingText
-          : column.isTruncated,
-      })),
+      columns: areDisplaySettingsEnabled
+        ? applyIsTruncated(
+            applyColumnWidths(columns, columnWidths),
+            isWrappingText
+          )
+        : applyColumnWidths(columns, columnWidths),
       displaySettings,
       topBar,
-      onSettingsChange,
+      onSettingsChange: handleSettingsChange,
       columnManager,
       customSettings,
       customSettingsPayload,
@@ -112,6 +158,38 @@ export const DataTableManagerProvider = ({
       selectedColumns,
       customColumnManager,
       customColumns,
+      // keeps the column manager in sync when the columns are reordered from the table
+      reorderColumns: (columnKeys: string[]) => {
+        const visibleColumnKeys = columnManager?.visibleColumnKeys;
+        handleSettingsChange(
+          UPDATE_ACTIONS.COLUMNS_UPDATE,
+          visibleColumnKeys
+            ? columnKeys.filter((key) => visibleColumnKeys.includes(key))
+            : columnKeys
+        );
+      },
+      // the widths of the columns which are not managed (e.g. the row selection column) are not kept
+      resizeColumns: (resizedColumnWidths: Record<string, number>) => {
+        const managedColumnKeys = getLeafColumnKeys(columns);
+        handleSettingsChange(UPDATE_ACTIONS.COLUMN_WIDTHS_UPDATE, {
+          ...columnWidths,
+          ...Object.fromEntries(
+            Object.entries(resizedColumnWidths).filter(([key]) =>
+              managedColumnKeys.includes(key)
+            )
+          ),
+        });
+      },
+      viewsManager,
+      // allows creating and applying the saved views from outside of the manager
+      viewsActions: viewsManager
+        ? getViewsActions({
+            viewsManager,
+            columnManager,
+            displaySettings,
+            onSettingsChange: handleSettingsChange,
+          })
+        : undefined,
       debug, // TODO - remove when nested rows are implemented
     };
   }, [
@@ -119,12 +197,13 @@ export const DataTableManagerProvider = ({
     customSettings,
     columns,
     topBar,
-    onSettingsChange,
+    handleSettingsChange,
     columnManager,
     additionalSettings,
     selectedColumns,
     customColumnManager,
     customColumns,
+    viewsManager,
     debug,
   ]);
 
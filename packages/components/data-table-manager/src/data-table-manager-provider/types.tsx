@@ -88,4 +88,16 @@ export type TDataTableManagerColumnProps<Row extends TRow = TRow> = {
    * the row also has a defined `onRowClick`.
    */
   shouldIgnoreRowClick?: boolean;
+
+  /**
+   * Pins the column to the `left` or `right` side of the table, so that it stays in place
+   * while the other columns are scrolled horizontally.
+   */
+  pin?: 'left' | 'right';
+
+  /**
+   * The columns grouped under this column, which is then rendered as a header spanning all of them.
+   * Hiding the column from the column manager hides the whole group.
+   */
+  children?: TDataTableManagerColumnProps<Row>[];
 };
@@ -6,6 +6,7 @@ import {
   DataTableManagerProvider,
 } from '@commercetools-uikit/data-table-manager/data-table-manager-provider';
 import { UPDATE_ACTIONS } from './constants';
+import { createMemorySettingsStorage } from './settings-storage';
 
 /* eslint-disable react/prop-types */
 const TestTable = (props) => {
@@ -89,6 +90,22 @@ const DetachedDatatableTestComponent = (props) => {
   );
 };
 
+// renders whether the text of the columns within the groups is truncated
+const GroupedColumnsTable = (props) => {
+  const dataTableManagerContext = useDataTableManagerContext();
+  const columns = props.columns ?? dataTableManagerContext.columns;
+
+  return (
+    <ul>
+      {columns
+        .flatMap((column) => column.children ?? [column])
+        .map((column) => (
+          <li key={column.key}>{`${column.label}: ${column.isTruncated}`}</li>
+        ))}
+    </ul>
+  );
+};
+
 /* eslint-enable react/prop-types */
 const defaultColumns = [
   { key: 'title', label: 'Title' },
@@ -289,3 +306,465 @@ describe('rendering with detached data table', () => {
     ).toBeInTheDocument();
   });
 });
+
+describe('when saving views', () => {
+  const ViewsTestComponent = (props) => {
+    const [views, setViews] = useState(props.views);
+    const [visibleColumnKeys, setVisibleColumnKeys] = useState(['title']);
+    return (
+      <DataTableManager
+        columns={defaultColumns}
+        columnManager={{
+          hideableColumns: defaultColumns,
+          visibleColumnKeys,
+        }}
+        viewsManager={{
+          ...views,
+          onViewsChange: (nextViews) => {
+            props.onViewsChange(nextViews);
+            setViews(nextViews);
+          },
+        }}
+        onSettingsChange={(action, nextValue) => {
+          props.onSettingsChange(action, nextValue);
+          if (action === UPDATE_ACTIONS.COLUMNS_UPDATE) {
+            setVisibleColumnKeys(nextValue);
+          }
+        }}
+      >
+        <TestTable />
+      </DataTableManager>
+    );
+  };
+  const createViewsTestProps = (custom = {}) => ({
+    views: {
+      views: [
+        {
+          id: 'view-1',
+          name: 'Countries',
+          settings: { visibleColumnKeys: ['country', 'title'] },
+        },
+      ],
+    },
+    onViewsChange: jest.fn(),
+    onSettingsChange: jest.fn(),
+    ...custom,
+  });
+
+  it('should list the views in the dropdown and apply the selected view', async () => {
+    const props = createViewsTestProps();
+    render(<ViewsTestComponent {...props} />);
+
+    fireEvent.focus(
+      await screen.findByLabelText('Open table manager dropdown')
+    );
+    fireEvent.click(await screen.findByLabelText('Countries'));
+
+    expect(props.onSettingsChange).toHaveBeenCalledWith(
+      UPDATE_ACTIONS.COLUMNS_UPDATE,
+      ['country', 'title']
+    );
+    expect(props.onViewsChange).toHaveBeenCalledWith(
+      expect.objectContaining({ activeViewId: 'view-1' })
+    );
+
+    fireEvent.focus(screen.getByLabelText('Open table manager dropdown'));
+    expect(
+      await screen.findByLabelText('Countries (applied)')
+    ).toBeInTheDocument();
+  });
+
+  it('should apply the default view once rendered', () => {
+    const props = createViewsTestProps();
+    render(
+      <ViewsTestComponent
+        {...props}
+        views={{ ...props.views, defaultViewId: 'view-1' }}
+      />
+    );
+
+    expect(props.onSettingsChange).toHaveBeenCalledTimes(1);
+    expect(props.onSettingsChange).toHaveBeenCalledWith(
+      UPDATE_ACTIONS.COLUMNS_UPDATE,
+      ['country', 'title']
+    );
+  });
+
+  it('should save the current layout as a new view from the views manager', async () => {
+    const props = createViewsTestProps();
+    render(<ViewsTestComponent {...props} />);
+
+    fireEvent.focus(
+      await screen.findByLabelText('Open table manager dropdown')
+    );
+    fireEvent.click(await screen.findByLabelText('Manage views'));
+
+    await screen.findByText('Saved views');
+    fireEvent.change(screen.getByLabelText('Name of the new view'), {
+      target: { value: 'Titles' },
+    });
+    fireEvent.click(screen.getByLabelText('Save current layout'));
+
+    expect(props.onViewsChange).toHaveBeenCalledWith({
+      views: [
+        ...props.views.views,
+        {
+          id: 'view-2',
+          name: 'Titles',
+          settings: { visibleColumnKeys: ['title'] },
+        },
+      ],
+      activeViewId: 'view-2',
+    });
+    expect(await screen.findByLabelText('Name of the view Titles')).toHaveValue(
+      'Titles'
+    );
+  });
+});
+
+describe('when saving the settings in a storage', () => {
+  const StorageTestComponent = (props) => {
+    const [visibleColumnKeys, setVisibleColumnKeys] = useState(['title']);
+    const [isCondensed, setIsCondensed] = useState(true);
+    const tableSettingsChangeHandler = {
+      [UPDATE_ACTIONS.COLUMNS_UPDATE]: setVisibleColumnKeys,
+      [UPDATE_ACTIONS.IS_TABLE_CONDENSED_UPDATE]: setIsCondensed,
+      [UPDATE_ACTIONS.CUSTOM_SETTINGS_UPDATE]: () => {},
+      [UPDATE_ACTIONS.COLUMN_WIDTHS_UPDATE]: () => {},
+    };
+    return (
+      <DataTableManagerProvider
+        columns={defaultColumns}
+        columnManager={{ hideableColumns: defaultColumns, visibleColumnKeys }}
+        displaySettings={{ isCondensed, isWrappingText: false }}
+        settingsStorage={props.settingsStorage}
+        onSettingsChange={(action, nextValue) => {
+          props.onSettingsChange(action, nextValue);
+          tableSettingsChangeHandler[action](nextValue);
+        }}
+      >
+        <DataTableManager />
+        <p>{`Visible columns: ${visibleColumnKeys.join(', ')}`}</p>
+      </DataTableManagerProvider>
+    );
+  };
+
+  it('should restore the saved settings once rendered', async () => {
+    const storage = createMemorySettingsStorage();
+    storage.setItem(
+      'uikit-data-table-manager/products',
+      JSON.stringify({
+        version: 1,
+        settings: {
+          visibleColumnKeys: ['country', 'removed', 'title'],
+          isCondensed: false,
+          columnWidths: { title: 250 },
+          additionalSettings: { colors: { key: 'colors', textColor: 'red' } },
+        },
+      })
+    );
+    const onSettingsChange = jest.fn();
+    render(
+      <StorageTestComponent
+        settingsStorage={{ tableId: 'products', storage }}
+        onSettingsChange={onSettingsChange}
+      />
+    );
+
+    await screen.findByText('Visible columns: country, title');
+    expect(onSettingsChange).toHaveBeenCalledWith(
+      UPDATE_ACTIONS.IS_TABLE_CONDENSED_UPDATE,
+      false
+    );
+    expect(onSettingsChange).toHaveBeenCalledWith(
+      UPDATE_ACTIONS.COLUMN_WIDTHS_UPDATE,
+      { title: 250 }
+    );
+    expect(onSettingsChange).toHaveBeenCalledWith(
+      UPDATE_ACTIONS.CUSTOM_SETTINGS_UPDATE,
+      { key: 'colors', textColor: 'red' }
+    );
+  });
+
+  it('should not restore the settings saved with another version', async () => {
+    const storage = createMemorySettingsStorage();
+    storage.setItem(
+      'uikit-data-table-manager/products',
+      JSON.stringify({
+        version: 1,
+        settings: { visibleColumnKeys: ['country'] },
+      })
+    );
+    const onSettingsChange = jest.fn();
+    render(
+      <StorageTestComponent
+        settingsStorage={{ tableId: 'products', storage, version: 2 }}
+        onSettingsChange={onSettingsChange}
+      />
+    );
+
+    await screen.findByText('Visible columns: title');
+    expect(onSettingsChange).not.toHaveBeenCalled();
+    expect(storage.getItem('uikit-data-table-manager/products')).toBeNull();
+  });
+
+  it('should save the reported settings', async () => {
+    const storage = createMemorySettingsStorage();
+    render(
+      <StorageTestComponent
+        settingsStorage={{ tableId: 'products', storage }}
+        onSettingsChange={jest.fn()}
+      />
+    );
+
+    fireEvent.focus(
+      await screen.findByLabelText('Open table manager dropdown')
+    );
+    fireEvent.click(await screen.findByLabelText('Layout settings'));
+    fireEvent.click(
+      await screen.findByLabelText('Select radio option: density default')
+    );
+
+    expect(
+      JSON.parse(storage.getItem('uikit-data-table-manager/products'))
+    ).toEqual({ version: 1, settings: { isCondensed: false } });
+  });
+});
+
+describe('when resetting and undoing the settings', () => {
+  const SettingsTestComponent = (props) => {
+    const [visibleColumnKeys, setVisibleColumnKeys] = useState(['title']);
+    const [isCondensed, setIsCondensed] = useState(true);
+    const [isWrappingText, setIsWrappingText] = useState(false);
+    const tableSettingsChangeHandler = {
+      [UPDATE_ACTIONS.COLUMNS_UPDATE]: setVisibleColumnKeys,
+      [UPDATE_ACTIONS.IS_TABLE_CONDENSED_UPDATE]: setIsCondensed,
+      [UPDATE_ACTIONS.IS_TABLE_WRAPPING_TEXT_UPDATE]: setIsWrappingText,
+    };
+    return (
+      <DataTableManager
+        columns={defaultColumns}
+        columnManager={{
+          hideableColumns: defaultColumns,
+          visibleColumnKeys,
+          defaultVisibleColumnKeys: props.defaultVisibleColumnKeys,
+        }}
+        displaySettings={{
+          isCondensed,
+          isWrappingText,
+          defaultIsCondensed: props.defaultIsCondensed,
+        }}
+        viewsManager={
+          props.views && { views: props.views, onViewsChange: () => {} }
+        }
+        onSettingsChange={(action, nextValue) => {
+          props.onSettingsChange(action, nextValue);
+          tableSettingsChangeHandler[action]?.(nextValue);
+        }}
+      >
+        <TestTable />
+      </DataTableManager>
+    );
+  };
+
+  const openPanel = async (optionLabel) => {
+    fireEvent.focus(
+      await screen.findByLabelText('Open table manager dropdown')
+    );
+    fireEvent.click(await screen.findByLabelText(optionLabel));
+  };
+
+  it('should undo the last change of the display settings', async () => {
+    const onSettingsChange = jest.fn();
+    render(<SettingsTestComponent onSettingsChange={onSettingsChange} />);
+    await openPanel('Layout settings');
+
+    const undoButton = await screen.findByLabelText('Undo');
+    expect(undoButton).toBeDisabled();
+
+    fireEvent.click(
+      screen.getByLabelText('Select radio option: display full previews')
+    );
+    fireEvent.click(
+      screen.getByLabelText('Select radio option: density default')
+    );
+    expect(
+      screen.getByLabelText('Select radio option: density default')
+    ).toBeChecked();
+
+    fireEvent.click(undoButton);
+    expect(
+      screen.getByLabelText('Select radio option: density compact')
+    ).toBeChecked();
+    expect(
+      screen.getByLabelText('Select radio option: display full previews')
+    ).toBeChecked();
+    expect(onSettingsChange).toHaveBeenLastCalledWith(
+      UPDATE_ACTIONS.IS_TABLE_WRAPPING_TEXT_UPDATE,
+      true
+    );
+    // only the last change can be undone
+    expect(undoButton).toBeDisabled();
+  });
+
+  it('should reset the display settings to the initial ones', async () => {
+    const onSettingsChange = jest.fn();
+    render(<SettingsTestComponent onSettingsChange={onSettingsChange} />);
+    await openPanel('Layout settings');
+
+    fireEvent.click(
+      await screen.findByLabelText('Select radio option: display full previews')
+    );
+    fireEvent.click(
+      screen.getByLabelText('Select radio option: density default')
+    );
+    fireEvent.click(screen.getByLabelText('Reset to default'));
+
+    expect(
+      screen.getByLabelText('Select radio option: density compact')
+    ).toBeChecked();
+    expect(
+      screen.getByLabelText('Select radio option: display full text')
+    ).toBeChecked();
+  });
+
+  it('should reset the visible columns to the initial ones, and undo the reset', async () => {
+    const onSettingsChange = jest.fn();
+    render(<SettingsTestComponent onSettingsChange={onSettingsChange} />);
+    await openPanel('Column manager');
+
+    const visibleColumnsContainer = await screen.findByLabelText(
+      'Visible columns'
+    );
+    fireEvent.click(within(visibleColumnsContainer).getByLabelText('Remove'));
+    expect(onSettingsChange).toHaveBeenLastCalledWith(
+      UPDATE_ACTIONS.COLUMNS_UPDATE,
+      []
+    );
+
+    fireEvent.click(screen.getByLabelText('Reset to default'));
+    expect(onSettingsChange).toHaveBeenLastCalledWith(
+      UPDATE_ACTIONS.COLUMNS_UPDATE,
+      ['title']
+    );
+
+    fireEvent.click(screen.getByLabelText('Undo'));
+    expect(onSettingsChange).toHaveBeenLastCalledWith(
+      UPDATE_ACTIONS.COLUMNS_UPDATE,
+      []
+    );
+  });
+
+  it('should not undo a change once the settings have been changed by applying a view', async () => {
+    const onSettingsChange = jest.fn();
+    render(
+      <SettingsTestComponent
+        onSettingsChange={onSettingsChange}
+        views={[
+          {
+            id: 'view-1',
+            name: 'Countries',
+            settings: { visibleColumnKeys: ['country', 'title'] },
+          },
+        ]}
+      />
+    );
+    await openPanel('Column manager');
+
+    const visibleColumnsContainer = await screen.findByLabelText(
+      'Visible columns'
+    );
+    fireEvent.click(within(visibleColumnsContainer).getByLabelText('Remove'));
+    expect(screen.getByLabelText('Undo')).toBeEnabled();
+
+    fireEvent.focus(screen.getByLabelText('Open table manager dropdown'));
+    fireEvent.click(await screen.findByLabelText('Countries'));
+    expect(onSettingsChange).toHaveBeenLastCalledWith(
+      UPDATE_ACTIONS.COLUMNS_UPDATE,
+      ['country', 'title']
+    );
+    expect(screen.getByLabelText('Undo')).toBeDisabled();
+  });
+
+  it('should reset the settings to the current default ones', async () => {
+    const DefaultSettingsTestComponent = (props) => {
+      const [defaultVisibleColumnKeys, setDefaultVisibleColumnKeys] = useState([
+        'title',
+      ]);
+      const [defaultIsCondensed, setDefaultIsCondensed] = useState(true);
+      return (
+        <>
+          <button
+            onClick={() => {
+              setDefaultVisibleColumnKeys(['title', 'country']);
+              setDefaultIsCondensed(false);
+            }}
+          >
+            Change defaults
+          </button>
+          <SettingsTestComponent
+            {...props}
+            defaultVisibleColumnKeys={defaultVisibleColumnKeys}
+            defaultIsCondensed={defaultIsCondensed}
+          />
+        </>
+      );
+    };
+    const onSettingsChange = jest.fn();
+    render(
+      <DefaultSettingsTestComponent onSettingsChange={onSettingsChange} />
+    );
+    fireEvent.click(screen.getByText('Change defaults'));
+
+    await openPanel('Column manager');
+    fireEvent.click(await screen.findByLabelText('Reset to default'));
+    expect(onSettingsChange).toHaveBeenLastCalledWith(
+      UPDATE_ACTIONS.COLUMNS_UPDATE,
+      ['title', 'country']
+    );
+
+    await openPanel('Layout settings');
+    fireEvent.click(await screen.findByLabelText('Reset to default'));
+    expect(
+      screen.getByLabelText('Select radio option: density default')
+    ).toBeChecked();
+  });
+});
+
+describe('when wrapping the text of grouped columns', () => {
+  const groupedColumns = [
+    {
+      key: 'product',
+      label: 'Product',
+      children: [{ key: 'title', label: 'Title', isTruncated: false }],
+    },
+  ];
+
+  it('should apply the setting to the columns of the groups', () => {
+    render(
+      <DataTableManager
+        columns={groupedColumns}
+        displaySettings={{ isWrappingText: true }}
+        onSettingsChange={jest.fn()}
+      >
+        <GroupedColumnsTable />
+      </DataTableManager>
+    );
+
+    expect(screen.getByText('Title: true')).toBeInTheDocument();
+  });
+
+  it('should apply the setting to the columns of the groups within the provider', () => {
+    render(
+      <DataTableManagerProvider
+        columns={groupedColumns}
+        displaySettings={{ isWrappingText: true }}
+        onSettingsChange={jest.fn()}
+      >
+        <GroupedColumnsTable />
+      </DataTableManagerProvider>
+    );
+
+    expect(screen.getByText('Title: true')).toBeInTheDocument();
+  });
+});
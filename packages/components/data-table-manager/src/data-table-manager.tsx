@@ -1,6 +1,8 @@
 import { useMemo, cloneElement, useState } from 'react';
 import Spacings from '@commercetools-uikit/spacings';
 import DataTableSettings from './data-table-settings';
+import { useSettingsStorage } from './settings-storage';
+import applyIsTruncated from './apply-is-truncated';
 import type {
   TRow,
   TColumnProps,
@@ -19,10 +21,15 @@ const DataTableManager = <Row extends TRow = TRow>(
   const displaySettings =
     props.displaySettings || dataTableManagerContext.displaySettings;
   const topBar = props.topBar || dataTableManagerContext.topBar;
-  const onSettingsChange =
-    props.onSettingsChange || dataTableManagerContext.onSettingsChange;
   const columnManager =
     props.columnManager || dataTableManagerContext.columnManager;
+  // within the DataTableManagerProvider, the settings are saved by the provider
+  const onSettingsChange = useSettingsStorage({
+    settingsStorage: props.settingsStorage,
+    onSettingsChange:
+      props.onSettingsChange || dataTableManagerContext.onSettingsChange,
+    columnManager,
+  });
   const customSettings =
     props.customSettings || dataTableManagerContext.customSettings;
   const selectedColumns =
@@ -31,6 +38,8 @@ const DataTableManager = <Row extends TRow = TRow>(
     props.customColumnManager || dataTableManagerContext.customColumnManager;
   const customColumns =
     props.customColumns || dataTableManagerContext.customColumns;
+  const viewsManager =
+    props.viewsManager || dataTableManagerContext.viewsManager;
   const areDisplaySettingsEnabled = Boolean(
     displaySettings && !displaySettings.disableDisplaySettings
   );
@@ -45,12 +54,9 @@ const DataTableManager = <Row extends TRow = TRow>(
 
   const columns = useMemo(
     () =>
-      dataTableColumns.map((column) => ({
-        ...column,
-        isTruncated: areDisplaySettingsEnabled
-          ? isWrappingText
-          : column.isTruncated,
-      })),
+      areDisplaySettingsEnabled
+        ? applyIsTruncated(dataTableColumns, isWrappingText)
+        : dataTableColumns,
     [dataTableColumns, areDisplaySettingsEnabled, isWrappingText]
   );
 
@@ -83,6 +89,7 @@ const DataTableManager = <Row extends TRow = TRow>(
         updateCustomSettings={(settings) => updateCustomSettings(settings)}
         selectedColumns={selectedColumns ?? []}
         customColumnManager={customColumnManager ?? undefined}
+        viewsManager={viewsManager}
       />
       {props.children
         ? cloneElement(props.children, {
@@ -1,16 +1,23 @@
-import { useState, type ReactNode } from 'react';
+import { useState, useEffect, useRef, type ReactNode } from 'react';
+import isEqual from 'lodash/isEqual';
 import { warning } from '@commercetools-uikit/utils';
 import { useIntl, type IntlFormatters } from 'react-intl';
 import styled from '@emotion/styled';
 import { ColumnsIcon } from '@commercetools-uikit/icons';
 import Spacings from '@commercetools-uikit/spacings';
-import { UPDATE_ACTIONS, COLUMN_MANAGER, DISPLAY_SETTINGS } from '../constants';
+import {
+  UPDATE_ACTIONS,
+  COLUMN_MANAGER,
+  DISPLAY_SETTINGS,
+  VIEWS_MANAGER,
+} from '../constants';
 import DisplaySettingsManager, {
   DENSITY_COMPACT,
   SHOW_HIDE_ON_DEMAND,
 } from '../display-settings-manager';
 import { ColumnSettingsManager } from '../column-settings-manager';
 import CustomSettingsManager from '../custom-settings-manager';
+import ViewsManager, { getViewsActions } from '../views-manager';
 import messages from './messages';
 import DropdownMenu from '@commercetools-uikit/dropdown-menu';
 import IconButton from '@commercetools-uikit/icon-button';
@@ -31,6 +38,11 @@ export type TSelectChangeEvent = {
 
 type MappedColumns = Record<string, TColumnData>;
 
+type TDisplaySettings = {
+  isCondensed: boolean;
+  isWrappingText: boolean;
+};
+
 export type TDropdownOption = {
   value: string;
   label: string;
@@ -45,17 +57,21 @@ export const getDropdownOptions = ({
   areCustomColumnSettingsEnabled,
   areColumnSettingsEnabled,
   areDisplaySettingsEnabled,
+  areViewsEnabled,
   customSettings,
   columnManagerLabel,
   displaySettingsLabel,
+  viewsManagerLabel,
   formatMessage,
 }: {
   areCustomColumnSettingsEnabled?: boolean;
   areColumnSettingsEnabled?: boolean;
   areDisplaySettingsEnabled?: boolean;
+  areViewsEnabled?: boolean;
   customSettings?: TCustomSettingsProps[];
   columnManagerLabel?: string;
   displaySettingsLabel?: string;
+  viewsManagerLabel?: string;
   formatMessage: IntlFormatters<ReactNode>['formatMessage'];
 }) => {
   return [
@@ -97,6 +113,16 @@ export const getDropdownOptions = ({
           },
         ]
       : []),
+    ...(areViewsEnabled
+      ? [
+          {
+            value: VIEWS_MANAGER,
+            label: viewsManagerLabel
+              ? viewsManagerLabel
+              : formatMessage(messages.viewsManagerOption),
+          },
+        ]
+      : []),
   ].filter((option) => option !== undefined);
 };
 
@@ -138,6 +164,17 @@ const DataTableSettings = (props: TDataTableSettingsProps) => {
     props.customColumnManager &&
       !props.customColumnManager?.disableCustomColumnManager
   );
+  const viewsManager = props.viewsManager?.disableViewsManager
+    ? undefined
+    : props.viewsManager;
+  const viewsActions =
+    viewsManager &&
+    getViewsActions({
+      viewsManager,
+      columnManager: props.columnManager,
+      displaySettings: props.displaySettings,
+      onSettingsChange: props.onSettingsChange,
+    });
 
   warning(
     areDisplaySettingsEnabled || areColumnSettingsEnabled
@@ -155,12 +192,27 @@ const DataTableSettings = (props: TDataTableSettingsProps) => {
     areCustomColumnSettingsEnabled,
     areDisplaySettingsEnabled,
     areColumnSettingsEnabled,
+    areViewsEnabled: Boolean(viewsManager),
     customSettings: props.customSettings,
     columnManagerLabel: props.columnManager?.columnManagerLabel,
     displaySettingsLabel: props.displaySettings?.displaySettingsLabel,
+    viewsManagerLabel: viewsManager?.viewsManagerLabel,
     formatMessage: intl.formatMessage,
   });
 
+  // the default view is applied once it's provided, unless another view has already been applied
+  const defaultViewIdToApply = viewsManager?.activeViewId
+    ? undefined
+    : viewsManager?.defaultViewId;
+  const hasAppliedDefaultView = useRef(false);
+  const viewsActionsRef = useRef(viewsActions);
+  viewsActionsRef.current = viewsActions;
+  useEffect(() => {
+    if (!defaultViewIdToApply || hasAppliedDefaultView.current) return;
+    hasAppliedDefaultView.current = true;
+    viewsActionsRef.current?.applyView(defaultViewIdToApply);
+  }, [defaultViewIdToApply]);
+
   const mappedColumns = getMappedColumns(
     areColumnSettingsEnabled ? props.columnManager!.hideableColumns : undefined
   );
@@ -174,6 +226,101 @@ const DataTableSettings = (props: TDataTableSettingsProps) => {
 
   const handleSettingsPanelChange = () => setOpenedPanelId(null);
 
+  // unless the default settings are provided, they are the settings the table is first rendered with
+  const [initialSettings] = useState(() => ({
+    visibleColumnKeys: props.columnManager?.visibleColumnKeys,
+    isCondensed: props.displaySettings?.isCondensed ?? true,
+    isWrappingText: props.displaySettings?.isWrappingText ?? false,
+  }));
+  const defaultColumnKeys =
+    props.columnManager?.defaultVisibleColumnKeys ??
+    initialSettings.visibleColumnKeys;
+  const defaultDisplaySettings: TDisplaySettings = {
+    isCondensed:
+      props.displaySettings?.defaultIsCondensed ?? initialSettings.isCondensed,
+    isWrappingText:
+      props.displaySettings?.defaultIsWrappingText ??
+      initialSettings.isWrappingText,
+  };
+  // the settings before and after the last change made from the panels. Undoing the change restores
+  // the settings before it, as long as the settings have not been changed since then by other means
+  // (e.g. by applying a view, or from the table)
+  const [columnsUndo, setColumnsUndo] = useState<{
+    previousColumnKeys?: string[];
+    nextColumnKeys: string[];
+  }>();
+  const [displaySettingsUndo, setDisplaySettingsUndo] = useState<{
+    previousDisplaySettings: TDisplaySettings;
+    nextDisplaySettings: TDisplaySettings;
+  }>();
+  const currentColumnKeys = props.columnManager?.visibleColumnKeys;
+  const currentDisplaySettings: TDisplaySettings = {
+    isCondensed: props.displaySettings?.isCondensed ?? true,
+    isWrappingText: props.displaySettings?.isWrappingText ?? false,
+  };
+  const isColumnsUndoOutdated =
+    columnsUndo !== undefined &&
+    !isEqual(columnsUndo.nextColumnKeys, currentColumnKeys);
+  const isDisplaySettingsUndoOutdated =
+    displaySettingsUndo !== undefined &&
+    !isEqual(displaySettingsUndo.nextDisplaySettings, currentDisplaySettings);
+  useEffect(() => {
+    if (isColumnsUndoOutdated) setColumnsUndo(undefined);
+  }, [isColumnsUndoOutdated]);
+  useEffect(() => {
+    if (isDisplaySettingsUndoOutdated) setDisplaySettingsUndo(undefined);
+  }, [isDisplaySettingsUndoOutdated]);
+  const previousColumnKeys = isColumnsUndoOutdated
+    ? undefined
+    : columnsUndo?.previousColumnKeys;
+  const previousDisplaySettings = isDisplaySettingsUndoOutdated
+    ? undefined
+    : displaySettingsUndo?.previousDisplaySettings;
+
+  const updateColumns = (visibleColumnKeys: string[]) => {
+    setColumnsUndo({
+      previousColumnKeys: currentColumnKeys,
+      nextColumnKeys: visibleColumnKeys,
+    });
+    props.onSettingsChange?.(UPDATE_ACTIONS.COLUMNS_UPDATE, visibleColumnKeys);
+  };
+  const undoColumnsUpdate = () => {
+    if (!previousColumnKeys) return;
+    setColumnsUndo(undefined);
+    props.onSettingsChange?.(UPDATE_ACTIONS.COLUMNS_UPDATE, previousColumnKeys);
+  };
+
+  const reportDisplaySettings = (
+    displaySettings: Partial<TDisplaySettings>
+  ) => {
+    if (displaySettings.isCondensed !== undefined) {
+      props.onSettingsChange?.(
+        UPDATE_ACTIONS.IS_TABLE_CONDENSED_UPDATE,
+        displaySettings.isCondensed
+      );
+    }
+    if (displaySettings.isWrappingText !== undefined) {
+      props.onSettingsChange?.(
+        UPDATE_ACTIONS.IS_TABLE_WRAPPING_TEXT_UPDATE,
+        displaySettings.isWrappingText
+      );
+    }
+  };
+  const updateDisplaySettings = (
+    displaySettings: Partial<TDisplaySettings>
+  ) => {
+    setDisplaySettingsUndo({
+      previousDisplaySettings: currentDisplaySettings,
+      nextDisplaySettings: { ...currentDisplaySettings, ...displaySettings },
+    });
+    reportDisplaySettings(displaySettings);
+  };
+  const undoDisplaySettingsUpdate = () => {
+    if (!previousDisplaySettings) return;
+    setDisplaySettingsUndo(undefined);
+    reportDisplaySettings(previousDisplaySettings);
+  };
+
   return (
     <Spacings.Stack scale="xs">
       <Spacings.Inline justifyContent="space-between" alignItems="center">
@@ -205,6 +352,18 @@ const DataTableSettings = (props: TDataTableSettingsProps) => {
                   {option?.label}
                 </DropdownMenu.ListMenuItem>
               ))}
+              {viewsManager?.views.map((view) => (
+                <DropdownMenu.ListMenuItem
+                  key={view.id}
+                  onClick={() => viewsActions?.applyView(view.id)}
+                >
+                  {view.id === viewsManager.activeViewId
+                    ? intl.formatMessage(messages.activeViewOption, {
+                        name: view.name,
+                      })
+                    : view.name}
+                </DropdownMenu.ListMenuItem>
+              ))}
             </DropdownMenu>
           </Tooltip>
         )}
@@ -215,17 +374,18 @@ const DataTableSettings = (props: TDataTableSettingsProps) => {
           title={props.displaySettings?.displaySettingsLabel}
           onClose={handleSettingsPanelChange}
           onDensityDisplayChange={(event) => {
-            props.onSettingsChange?.(
-              UPDATE_ACTIONS.IS_TABLE_CONDENSED_UPDATE,
-              event.target.value === DENSITY_COMPACT
-            );
+            updateDisplaySettings({
+              isCondensed: event.target.value === DENSITY_COMPACT,
+            });
           }}
           onTextWrappingChange={(event) => {
-            props.onSettingsChange?.(
-              UPDATE_ACTIONS.IS_TABLE_WRAPPING_TEXT_UPDATE,
-              event.target.value === SHOW_HIDE_ON_DEMAND
-            );
+            updateDisplaySettings({
+              isWrappingText: event.target.value === SHOW_HIDE_ON_DEMAND,
+            });
           }}
+          onUndo={undoDisplaySettingsUpdate}
+          canUndo={Boolean(previousDisplaySettings)}
+          onResetToDefault={() => updateDisplaySettings(defaultDisplaySettings)}
           managerTheme={props.managerTheme}
         />
       )}
@@ -240,11 +400,25 @@ const DataTableSettings = (props: TDataTableSettingsProps) => {
             const keysOfVisibleColumns = nextVisibleColumns.map(
               (visibleColumn) => visibleColumn.key
             );
-            props.onSettingsChange?.(
-              UPDATE_ACTIONS.COLUMNS_UPDATE,
-              keysOfVisibleColumns
-            );
+            updateColumns(keysOfVisibleColumns);
           }}
+          onUndo={undoColumnsUpdate}
+          canUndo={Boolean(previousColumnKeys)}
+          onResetToDefault={
+            defaultColumnKeys
+              ? () => updateColumns(defaultColumnKeys)
+              : undefined
+          }
+          managerTheme={props.managerTheme}
+        />
+      )}
+      {openedPanelId === VIEWS_MANAGER && viewsManager && viewsActions && (
+        <ViewsManager
+          title={viewsManager.viewsManagerLabel}
+          views={viewsManager.views}
+          defaultViewId={viewsManager.defaultViewId}
+          viewsActions={viewsActions}
+          onClose={handleSettingsPanelChange}
           managerTheme={props.managerTheme}
         />
       )}
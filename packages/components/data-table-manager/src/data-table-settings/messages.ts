@@ -16,4 +16,14 @@ export default defineMessages({
     description: 'Column manager dropdown option label.',
     defaultMessage: 'Column manager',
   },
+  viewsManagerOption: {
+    id: 'UIKit.DataTableManager.TableSettings.viewsManagerOption',
+    description: 'Views manager dropdown option label.',
+    defaultMessage: 'Manage views',
+  },
+  activeViewOption: {
+    id: 'UIKit.DataTableManager.TableSettings.activeViewOption',
+    description: 'Dropdown option label of the applied saved view.',
+    defaultMessage: '{name} (applied)',
+  },
 });
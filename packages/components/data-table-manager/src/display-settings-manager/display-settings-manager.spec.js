@@ -1,6 +1,6 @@
 import PrimaryButton from '@commercetools-uikit/primary-button';
 import SecondaryButton from '@commercetools-uikit/secondary-button';
-import { screen, render } from '../../../../../test/test-utils';
+import { screen, render, fireEvent } from '../../../../../test/test-utils';
 import {
   WRAPPED_TEXT_VISIBLE,
   SHOW_HIDE_ON_DEMAND,
@@ -73,5 +73,17 @@ describe('DisplaySettingsManager', () => {
       render(<DisplaySettingsManager {...props} />);
       expect(screen.getByText(secondaryButtonLabel)).toBeInTheDocument();
     });
+
+    it('undo and reset buttons', () => {
+      const props = createTestProps({
+        onUndo: jest.fn(),
+        onResetToDefault: jest.fn(),
+      });
+      render(<DisplaySettingsManager {...props} />);
+      expect(screen.getByLabelText('Undo')).toBeDisabled();
+
+      fireEvent.click(screen.getByLabelText('Reset to default'));
+      expect(props.onResetToDefault).toHaveBeenCalled();
+    });
   });
 });
@@ -32,6 +32,18 @@ export type TDensityManagerProps = {
     event: MouseEvent<HTMLButtonElement> | KeyboardEvent<HTMLButtonElement>
   ) => void;
   managerTheme?: 'light' | 'dark';
+  /**
+   * Renders the "Undo" button, which reverts the last change of the settings.
+   */
+  onUndo?: () => void;
+  /**
+   * Enables the "Undo" button.
+   */
+  canUndo?: boolean;
+  /**
+   * Renders the "Reset to default" button, which restores the default settings.
+   */
+  onResetToDefault?: () => void;
 };
 
 const DensityManager = ({
@@ -55,6 +67,9 @@ const DensityManager = ({
       onClose={props.onClose}
       primaryButton={props.primaryButton}
       secondaryButton={props.secondaryButton}
+      onUndo={props.onUndo}
+      canUndo={props.canUndo}
+      onResetToDefault={props.onResetToDefault}
       containerTheme={props.managerTheme}
     >
       <Grid
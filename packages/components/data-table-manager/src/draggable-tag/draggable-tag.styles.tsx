@@ -1,4 +1,6 @@
+import { css } from '@emotion/react';
 import styled from '@emotion/styled';
+import { designTokens } from '@commercetools-uikit/design-system';
 
 const DraggingSmall = styled.small`
   &:hover {
@@ -6,8 +8,13 @@ const DraggingSmall = styled.small`
   }
 `;
 
-const DraggingContainer = styled.div`
+const DraggingContainer = styled.div<{ isPickedUp?: boolean }>`
   ${DraggingSmall};
+  ${(props) =>
+    props.isPickedUp &&
+    css`
+      outline: 2px solid ${designTokens.colorPrimary};
+    `}
 `;
 
 export default DraggingContainer;
@@ -1,4 +1,9 @@
-import type { ReactNode } from 'react';
+import {
+  useRef,
+  useLayoutEffect,
+  type KeyboardEvent,
+  type ReactNode,
+} from 'react';
 import styled from '@emotion/styled';
 import { Draggable } from '@hello-pangea/dnd';
 import { designTokens } from '@commercetools-uikit/design-system';
@@ -15,6 +20,9 @@ export type TDraggableTagProps = {
   index: number;
   isDisabled?: boolean;
   onRemove?: (index: number) => void;
+  // the column picked up with the keyboard keeps the focus while it's moved
+  isPickedUp?: boolean;
+  onKeyDown?: (event: KeyboardEvent<HTMLDivElement>) => void;
 };
 
 const DraggableTagWrapper = styled.div`
@@ -23,6 +31,12 @@ const DraggableTagWrapper = styled.div`
 
 const DraggableTag = (props: TDraggableTagProps) => {
   const handleRemoveColumn = () => props.onRemove?.(props.index);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  // the tag is rendered again once moved, so it's focused again
+  useLayoutEffect(() => {
+    if (props.isPickedUp) containerRef.current?.focus();
+  }, [props.isPickedUp]);
 
   return (
     <Draggable
@@ -34,9 +48,14 @@ const DraggableTag = (props: TDraggableTagProps) => {
         return (
           <DraggableTagWrapper>
             <DraggingContainer
-              ref={provided.innerRef}
+              ref={(element: HTMLDivElement | null) => {
+                containerRef.current = element;
+                provided.innerRef(element);
+              }}
               {...provided.draggableProps}
               {...provided.dragHandleProps}
+              isPickedUp={props.isPickedUp}
+              onKeyDown={props.onKeyDown}
             >
               <Tag
                 onRemove={props.onRemove ? handleRemoveColumn : undefined}
@@ -1,4 +1,4 @@
-import { type ReactNode } from 'react';
+import { type KeyboardEvent, type ReactNode } from 'react';
 import { Droppable } from '@hello-pangea/dnd';
 import Spacings from '@commercetools-uikit/spacings';
 import Text from '@commercetools-uikit/text';
@@ -18,6 +18,13 @@ export type TDroppablePanelProps = {
   isSearchable?: boolean;
   isDisabled?: boolean;
   onRemove?: (columns: TColumnData[]) => void;
+  // the key of the column picked up with the keyboard
+  pickedUpColumnKey?: string;
+  onColumnKeyDown?: (
+    event: KeyboardEvent<HTMLDivElement>,
+    column: TColumnData,
+    index: number
+  ) => void;
 };
 
 const DroppablePanel = (props: TDroppablePanelProps) => {
@@ -49,6 +56,10 @@ const DroppablePanel = (props: TDroppablePanelProps) => {
                       : undefined
                   }
                   isDisabled={props.isDisabled}
+                  isPickedUp={column.key === props.pickedUpColumnKey}
+                  onKeyDown={(event) =>
+                    props.onColumnKeyDown?.(event, column, index)
+                  }
                 />
               ))}
               {props.isSearchable && (
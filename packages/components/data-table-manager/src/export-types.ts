@@ -4,6 +4,15 @@ export type {
   TDataTableManagerProps,
   TColumnData,
   TDataTableSettingsProps,
+  TDataTableView,
+  TDataTableViews,
+  TDataTableViewSettings,
+  TSortDescriptor,
+  TViewsManagerProps,
+  TViewsActions,
+  TSettingsStorage,
+  TSettingsStorageProps,
+  TStoredSettings,
 } from './types';
 export type { TColumnSettingsManagerProps } from './column-settings-manager';
 export type { TDataTableManagerContext } from './data-table-manager-provider';
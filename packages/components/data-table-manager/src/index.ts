@@ -6,6 +6,11 @@ export {
 export { UPDATE_ACTIONS } from './constants';
 export { default as version } from './version';
 export { ColumnSettingsManager } from './column-settings-manager';
+export {
+  localSettingsStorage,
+  sessionSettingsStorage,
+  createMemorySettingsStorage,
+} from './settings-storage';
 export * from './export-types';
 
 // Re-exports for convenience
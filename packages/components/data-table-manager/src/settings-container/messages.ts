@@ -0,0 +1,16 @@
+import { defineMessages } from 'react-intl';
+
+export default defineMessages({
+  undo: {
+    id: 'UIKit.DataTableManager.SettingsContainer.undo',
+    description:
+      'Label for the button undoing the last change of the settings.',
+    defaultMessage: 'Undo',
+  },
+  resetToDefault: {
+    id: 'UIKit.DataTableManager.SettingsContainer.resetToDefault',
+    description:
+      'Label for the button resetting the settings to their default.',
+    defaultMessage: 'Reset to default',
+  },
+});
@@ -5,10 +5,12 @@ import styled from '@emotion/styled';
 import AccessibleButton from '@commercetools-uikit/accessible-button';
 import CollapsibleMotion from '@commercetools-uikit/collapsible-motion';
 import Card from '@commercetools-uikit/card';
+import FlatButton from '@commercetools-uikit/flat-button';
 import Spacings from '@commercetools-uikit/spacings';
 import Text from '@commercetools-uikit/text';
-import { CloseIcon } from '@commercetools-uikit/icons';
+import { CloseIcon, RefreshIcon, RevertIcon } from '@commercetools-uikit/icons';
 import { designTokens } from '@commercetools-uikit/design-system';
+import messages from './messages';
 
 export type TIntlMessage = IntlMessage;
 
@@ -20,6 +22,10 @@ type TSettingsContainerProps = {
   ) => void;
   primaryButton?: ReactElement;
   secondaryButton?: ReactElement;
+  // the undo and reset buttons are only rendered when their callbacks are provided
+  onUndo?: () => void;
+  canUndo?: boolean;
+  onResetToDefault?: () => void;
   children: ReactNode;
   containerTheme?: 'light' | 'dark';
   customSettingsTitle?: string | TIntlMessage;
@@ -68,8 +74,26 @@ const SettingsContainer = ({
                     <div ref={registerContentNode}>{props.children}</div>
                   </div>
                 </Spacings.Inset>
-                {(props.secondaryButton || props.primaryButton) && (
+                {(props.secondaryButton ||
+                  props.primaryButton ||
+                  props.onUndo ||
+                  props.onResetToDefault) && (
                   <Spacings.Inline justifyContent="flex-end">
+                    {props.onUndo && (
+                      <FlatButton
+                        label={intl.formatMessage(messages.undo)}
+                        icon={<RevertIcon />}
+                        isDisabled={!props.canUndo}
+                        onClick={props.onUndo}
+                      />
+                    )}
+                    {props.onResetToDefault && (
+                      <FlatButton
+                        label={intl.formatMessage(messages.resetToDefault)}
+                        icon={<RefreshIcon />}
+                        onClick={props.onResetToDefault}
+                      />
+                    )}
                     {props.secondaryButton}
                     {props.primaryButton}
                   </Spacings.Inline>
@@ -0,0 +1,6 @@
+export { default as useSettingsStorage } from './use-settings-storage';
+export {
+  localSettingsStorage,
+  sessionSettingsStorage,
+  createMemorySettingsStorage,
+} from './settings-storages';
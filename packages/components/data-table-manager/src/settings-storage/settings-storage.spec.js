@@ -0,0 +1,126 @@
+import { UPDATE_ACTIONS } from '../constants';
+import {
+  localSettingsStorage,
+  sessionSettingsStorage,
+  createMemorySettingsStorage,
+} from './settings-storages';
+import {
+  readStoredSettings,
+  writeStoredSettings,
+  getNextStoredSettings,
+} from './use-settings-storage';
+
+describe('settings storages', () => {
+  afterEach(() => {
+    window.localStorage.clear();
+    window.sessionStorage.clear();
+  });
+
+  it('should save the settings in the web storages', () => {
+    localSettingsStorage.setItem('table', 'local');
+    sessionSettingsStorage.setItem('table', 'session');
+
+    expect(window.localStorage.getItem('table')).toBe('local');
+    expect(window.sessionStorage.getItem('table')).toBe('session');
+
+    localSettingsStorage.removeItem('table');
+    expect(localSettingsStorage.getItem('table')).toBeNull();
+  });
+
+  it('should not throw when the web storage is not available', () => {
+    jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new Error('QuotaExceededError');
+    });
+
+    expect(() => localSettingsStorage.setItem('table', 'local')).not.toThrow();
+
+    Storage.prototype.setItem.mockRestore();
+  });
+
+  it('should keep the settings in memory', () => {
+    const storage = createMemorySettingsStorage();
+    storage.setItem('table', 'memory');
+
+    expect(storage.getItem('table')).toBe('memory');
+    expect(createMemorySettingsStorage().getItem('table')).toBeNull();
+
+    storage.removeItem('table');
+    expect(storage.getItem('table')).toBeNull();
+  });
+});
+
+describe('stored settings', () => {
+  it('should read the settings saved with the same version', () => {
+    const storage = createMemorySettingsStorage();
+    writeStoredSettings(
+      { tableId: 'products', storage, version: 2 },
+      { isCondensed: false }
+    );
+
+    expect(
+      readStoredSettings({ tableId: 'products', storage, version: 2 })
+    ).toEqual({ isCondensed: false });
+    expect(readStoredSettings({ tableId: 'orders', storage })).toBeUndefined();
+  });
+
+  it('should drop the settings saved with another version', () => {
+    const storage = createMemorySettingsStorage();
+    writeStoredSettings(
+      { tableId: 'products', storage },
+      { isCondensed: true }
+    );
+
+    expect(
+      readStoredSettings({ tableId: 'products', storage, version: 2 })
+    ).toBeUndefined();
+    expect(
+      readStoredSettings({ tableId: 'products', storage })
+    ).toBeUndefined();
+  });
+
+  it('should drop the settings which cannot be read', () => {
+    const storage = createMemorySettingsStorage();
+    storage.setItem('uikit-data-table-manager/products', '{');
+
+    expect(
+      readStoredSettings({ tableId: 'products', storage })
+    ).toBeUndefined();
+    expect(storage.getItem('uikit-data-table-manager/products')).toBeNull();
+  });
+
+  it('should merge the reported custom settings by key', () => {
+    const storedSettings = getNextStoredSettings(
+      {
+        visibleColumnKeys: ['title'],
+        additionalSettings: { colors: { key: 'colors', textColor: 'red' } },
+      },
+      UPDATE_ACTIONS.CUSTOM_SETTINGS_UPDATE,
+      { key: 'colors', backgroundColor: 'white' }
+    );
+
+    expect(storedSettings).toEqual({
+      visibleColumnKeys: ['title'],
+      additionalSettings: {
+        colors: { key: 'colors', textColor: 'red', backgroundColor: 'white' },
+      },
+    });
+  });
+
+  it('should save the widths of the resized columns', () => {
+    expect(
+      getNextStoredSettings(
+        { isCondensed: true },
+        UPDATE_ACTIONS.COLUMN_WIDTHS_UPDATE,
+        { title: 200 }
+      )
+    ).toEqual({ isCondensed: true, columnWidths: { title: 200 } });
+  });
+
+  it('should not save the settings of the other actions', () => {
+    expect(
+      getNextStoredSettings({}, UPDATE_ACTIONS.SORTING_UPDATE, {
+        sortedBy: 'title',
+      })
+    ).toBeUndefined();
+  });
+});
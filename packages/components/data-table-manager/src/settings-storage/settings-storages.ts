@@ -0,0 +1,58 @@
+import type { TSettingsStorage } from '../types';
+
+// the web storages are unavailable when rendered on the server, and might be blocked or full in the browser
+const createWebSettingsStorage = (
+  getStorage: () => Storage
+): TSettingsStorage => ({
+  getItem: (key) => {
+    try {
+      return getStorage().getItem(key);
+    } catch {
+      return null;
+    }
+  },
+  setItem: (key, value) => {
+    try {
+      getStorage().setItem(key, value);
+    } catch {
+      // the settings are not saved
+    }
+  },
+  removeItem: (key) => {
+    try {
+      getStorage().removeItem(key);
+    } catch {
+      // the settings are not removed
+    }
+  },
+});
+
+/**
+ * Saves the settings in the local storage, so that they are kept across the sessions of the user.
+ */
+export const localSettingsStorage = createWebSettingsStorage(
+  () => window.localStorage
+);
+
+/**
+ * Saves the settings in the session storage, so that they are kept until the tab is closed.
+ */
+export const sessionSettingsStorage = createWebSettingsStorage(
+  () => window.sessionStorage
+);
+
+/**
+ * Returns a storage keeping the settings in memory, so that they are kept until the page is reloaded.
+ */
+export const createMemorySettingsStorage = (): TSettingsStorage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+};
@@ -0,0 +1,180 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { UPDATE_ACTIONS } from '../constants';
+import type {
+  TAdditionalSettings,
+  TColumnManagerProps,
+  TDataTableSettingsProps,
+  TSettingsStorageProps,
+  TStoredSettings,
+} from '../types';
+
+type TSettingsChangeHandler = TDataTableSettingsProps['onSettingsChange'];
+
+type TSavedSettings = {
+  version: number;
+  settings: TStoredSettings;
+};
+
+const getStorageKey = (tableId: string) =>
+  `uikit-data-table-manager/${tableId}`;
+
+// the settings saved with another version, or which cannot be read, are dropped
+export const readStoredSettings = ({
+  tableId,
+  storage,
+  version = 1,
+}: TSettingsStorageProps): TStoredSettings | undefined => {
+  const storageKey = getStorageKey(tableId);
+  const savedValue = storage.getItem(storageKey);
+  if (!savedValue) return undefined;
+
+  try {
+    const savedSettings: Partial<TSavedSettings> = JSON.parse(savedValue);
+    if (savedSettings?.version === version && savedSettings.settings) {
+      return savedSettings.settings;
+    }
+  } catch {
+    // the saved value is not valid JSON
+  }
+  storage.removeItem(storageKey);
+  return undefined;
+};
+
+export const writeStoredSettings = (
+  { tableId, storage, version = 1 }: TSettingsStorageProps,
+  settings: TStoredSettings
+) => {
+  const savedSettings: TSavedSettings = { version, settings };
+  storage.setItem(getStorageKey(tableId), JSON.stringify(savedSettings));
+};
+
+// only the settings reported with these actions are saved
+export const getNextStoredSettings = (
+  storedSettings: TStoredSettings,
+  settingName: string,
+  settingValue: boolean | string[] | Record<string, unknown>
+): TStoredSettings | undefined => {
+  switch (settingName) {
+    case UPDATE_ACTIONS.COLUMNS_UPDATE:
+      return { ...storedSettings, visibleColumnKeys: settingValue as string[] };
+    case UPDATE_ACTIONS.IS_TABLE_CONDENSED_UPDATE:
+      return { ...storedSettings, isCondensed: settingValue as boolean };
+    case UPDATE_ACTIONS.IS_TABLE_WRAPPING_TEXT_UPDATE:
+      return { ...storedSettings, isWrappingText: settingValue as boolean };
+    case UPDATE_ACTIONS.COLUMN_WIDTHS_UPDATE:
+      return {
+        ...storedSettings,
+        columnWidths: settingValue as Record<string, number>,
+      };
+    case UPDATE_ACTIONS.CUSTOM_SETTINGS_UPDATE: {
+      const customSettings = settingValue as TAdditionalSettings;
+      return {
+        ...storedSettings,
+        additionalSettings: {
+          ...storedSettings.additionalSettings,
+          [customSettings.key]: {
+            ...storedSettings.additionalSettings?.[customSettings.key],
+            ...customSettings,
+          },
+        },
+      };
+    }
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Restores the saved settings of the table once rendered, by reporting them with `onSettingsChange`,
+ * and returns the `onSettingsChange` callback saving the reported settings.
+ * The saved columns which are not among the hideable columns anymore are ignored.
+ */
+const useSettingsStorage = <
+  SettingsChangeHandler extends TSettingsChangeHandler
+>({
+  settingsStorage,
+  onSettingsChange,
+  columnManager,
+}: {
+  settingsStorage?: TSettingsStorageProps;
+  onSettingsChange: SettingsChangeHandler;
+  columnManager?: TColumnManagerProps;
+}): SettingsChangeHandler => {
+  const handleSettingsChange: TSettingsChangeHandler =
+    settingsStorage && onSettingsChange
+      ? (settingName, settingValue, key) => {
+          const nextStoredSettings = getNextStoredSettings(
+            readStoredSettings(settingsStorage) ?? {},
+            settingName,
+            settingValue
+          );
+          if (nextStoredSettings) {
+            writeStoredSettings(settingsStorage, nextStoredSettings);
+          }
+          onSettingsChange(settingName, settingValue, key);
+        }
+      : onSettingsChange;
+
+  const optionsRef = useRef({
+    settingsStorage,
+    handleSettingsChange,
+    columnManager,
+  });
+  optionsRef.current = { settingsStorage, handleSettingsChange, columnManager };
+  const tableId = settingsStorage?.tableId;
+
+  // the settings are read while rendering, before any setting is reported by the children of the manager
+  // (e.g. when applying the default view), and only once the table is rendered or when its id changes
+  const storedSettings = useMemo(() => {
+    const { settingsStorage } = optionsRef.current;
+    return tableId && settingsStorage
+      ? readStoredSettings(settingsStorage)
+      : undefined;
+  }, [tableId]);
+
+  // the restored settings are saved again, in case other settings have been saved in the meantime
+  useEffect(() => {
+    const { handleSettingsChange, columnManager } = optionsRef.current;
+    if (!storedSettings || !handleSettingsChange) return;
+
+    const { visibleColumnKeys, isCondensed, isWrappingText, columnWidths } =
+      storedSettings;
+    if (visibleColumnKeys) {
+      const hideableColumnKeys = columnManager?.hideableColumns?.map(
+        (column) => column.key
+      );
+      handleSettingsChange(
+        UPDATE_ACTIONS.COLUMNS_UPDATE,
+        hideableColumnKeys
+          ? visibleColumnKeys.filter((key) => hideableColumnKeys.includes(key))
+          : visibleColumnKeys
+      );
+    }
+    if (isCondensed !== undefined) {
+      handleSettingsChange(
+        UPDATE_ACTIONS.IS_TABLE_CONDENSED_UPDATE,
+        isCondensed
+      );
+    }
+    if (isWrappingText !== undefined) {
+      handleSettingsChange(
+        UPDATE_ACTIONS.IS_TABLE_WRAPPING_TEXT_UPDATE,
+        isWrappingText
+      );
+    }
+    if (columnWidths) {
+      handleSettingsChange(UPDATE_ACTIONS.COLUMN_WIDTHS_UPDATE, columnWidths);
+    }
+    Object.values(storedSettings.additionalSettings ?? {}).forEach(
+      (customSettings) =>
+        handleSettingsChange(
+          UPDATE_ACTIONS.CUSTOM_SETTINGS_UPDATE,
+          customSettings
+        )
+    );
+  }, [storedSettings]);
+
+  return handleSettingsChange as SettingsChangeHandler;
+};
+
+export default useSettingsStorage;
@@ -10,6 +10,7 @@ import SecondaryButton from '@commercetools-uikit/secondary-button';
 import { useRowSelection, useSorting } from '@commercetools-uikit/hooks';
 import { UPDATE_ACTIONS } from '../constants';
 import { DataTableManagerProvider } from '@commercetools-uikit/data-table-manager/data-table-manager-provider';
+import { sessionSettingsStorage } from '../settings-storage';
 import Spacings from '@commercetools-uikit/spacings';
 import SearchTextInput from '@commercetools-uikit/search-text-input';
 import Constraints from '@commercetools-uikit/constraints';
@@ -20,7 +21,7 @@ import SelectInput from '@commercetools-uikit/select-input';
 import Grid from '@commercetools-uikit/grid';
 import { designTokens } from '@commercetools-uikit/design-system';
 import CheckboxInput from '@commercetools-uikit/checkbox-input';
-import { TColumnManagerProps } from '../types';
+import { TColumnManagerProps, TDataTableViews } from '../types';
 import { items } from './items-data';
 
 const meta: Meta<typeof DataTableManager> = {
@@ -143,6 +144,10 @@ export const WithCustomLayout: Story = (args) => {
   const [rowSelection, setRowSelection] = useState(true);
   const [textColor, setTextColor] = useState('black');
   const [disableResize, setDisableResize] = useState(true);
+  // the widths of the resized columns are kept by the DataTableManagerProvider
+  const [columnWidths, setColumnWidths] = useState<Record<string, number>>({});
+  // the saved views are kept in the state of the story, instead of being stored
+  const [views, setViews] = useState<TDataTableViews>({ views: [] });
 
   const updateRowSelection = (
     newState: boolean | ((prevState: boolean) => boolean)
@@ -516,6 +521,11 @@ export const WithCustomLayout: Story = (args) => {
       }),
     [UPDATE_ACTIONS.IS_TABLE_CONDENSED_UPDATE]: setIsCondensed,
     [UPDATE_ACTIONS.IS_TABLE_WRAPPING_TEXT_UPDATE]: setIsWrappingText,
+    [UPDATE_ACTIONS.COLUMN_WIDTHS_UPDATE]: setColumnWidths,
+    [UPDATE_ACTIONS.SORTING_UPDATE]: (sorting: {
+      sortedBy: string;
+      sortDirection?: 'asc' | 'desc';
+    }) => onSortChange(sorting.sortedBy, sorting.sortDirection),
   };
 
   const displaySettingsButtons = showDisplaySettingsConfirmationButtons
@@ -558,9 +568,18 @@ export const WithCustomLayout: Story = (args) => {
     disableColumnManager: false,
     visibleColumnKeys: tableData.visibleColumnKeys,
     hideableColumns: tableData.columns,
+    columnWidths,
     ...columnManagerButtons,
   };
 
+  const viewsManager = {
+    ...views,
+    viewsManagerLabel: 'Saved views',
+    sortedBy,
+    sortDirection,
+    onViewsChange: setViews,
+  };
+
   // const NestedComponent = (props: { id: string }) => {
   //   const item = items.find((item) => item.id === props.id);
   //   return (
@@ -598,6 +617,12 @@ export const WithCustomLayout: Story = (args) => {
       selectedColumns={selectedColumns}
       customColumnManager={customColumnManager}
       customColumns={visibleCustomColumns}
+      viewsManager={viewsManager}
+      // the settings are restored when the story is reloaded, until the tab is closed
+      settingsStorage={{
+        tableId: 'custom-layout-story',
+        storage: sessionSettingsStorage,
+      }}
     >
       <Spacings.Stack>
         <header>
@@ -39,6 +39,20 @@ export type TDisplaySettingsProps = {
    */
   isWrappingText?: boolean;
 
+  /**
+   * The value of `isCondensed` restored by the "Reset to default" button.
+   * <br>
+   * Defaults to the value of `isCondensed` the table is first rendered with.
+   */
+  defaultIsCondensed?: boolean;
+
+  /**
+   * The value of `isWrappingText` restored by the "Reset to default" button.
+   * <br>
+   * Defaults to the value of `isWrappingText` the table is first rendered with.
+   */
+  defaultIsWrappingText?: boolean;
+
   /**
    * A React element to be rendered as the primary button, useful when the display settings work as a form.
    */
@@ -72,11 +86,27 @@ export type TColumnManagerProps = {
    */
   visibleColumnKeys: string[];
 
+  /**
+   * The keys of the visible columns restored by the "Reset to default" button.
+   * <br>
+   * Defaults to the keys of the visible columns the table is first rendered with.
+   */
+  defaultVisibleColumnKeys?: string[];
+
   /**
    * The keys of the visible columns.
    */
   hideableColumns?: TColumnData[];
 
+  /**
+   * The widths (in pixels) of the columns resized by the user, by column key.
+   * <br>
+   * When using the `DataTableManagerProvider`, the resized widths are reported with the `columnWidthsUpdate`
+   * action of `onSettingsChange`, and they are applied to the columns of the table. Save them and pass them
+   * back to restore the layout of the table once the user comes back to the page.
+   */
+  columnWidths?: Record<string, number>;
+
   /**
    * A callback function, called when the search input for the hidden columns panel changes.
    */
@@ -98,6 +128,137 @@ export type TColumnManagerProps = {
   secondaryButton?: ReactElement;
 };
 
+export type TSortDescriptor = {
+  key: string;
+  order: 'asc' | 'desc';
+};
+
+export type TDataTableViewSettings = {
+  /**
+   * The keys of the visible columns, in their order.
+   */
+  visibleColumnKeys?: string[];
+  isCondensed?: boolean;
+  isWrappingText?: boolean;
+  /**
+   * The key of the column the table is sorted by.
+   */
+  sortedBy?: string;
+  sortDirection?: 'asc' | 'desc';
+  /**
+   * The columns the table is sorted by, when it's sorted by multiple columns.
+   */
+  sortDescriptors?: TSortDescriptor[];
+};
+
+export type TDataTableView = {
+  id: string;
+  name: string;
+  settings: TDataTableViewSettings;
+};
+
+export type TDataTableViews = {
+  /**
+   * The saved views of the table.
+   */
+  views: TDataTableView[];
+  /**
+   * The id of the view applied when the table is rendered, unless another view has been applied.
+   */
+  defaultViewId?: string;
+  /**
+   * The id of the last applied view.
+   */
+  activeViewId?: string;
+};
+
+export type TViewsManagerProps = TDataTableViews & {
+  /**
+   * Set this to override the default label of the views manager.
+   */
+  viewsManagerLabel?: string;
+
+  /**
+   * Set this to `true` to hide the views from the dropdown.
+   */
+  disableViewsManager?: boolean;
+
+  /**
+   * The key of the column the table is currently sorted by, which is saved with the views.
+   */
+  sortedBy?: string;
+
+  /**
+   * The current sort direction of the table, which is saved with the views.
+   */
+  sortDirection?: 'asc' | 'desc';
+
+  /**
+   * The columns the table is currently sorted by, when it's sorted by multiple columns,
+   * which are saved with the views.
+   */
+  sortDescriptors?: TSortDescriptor[];
+
+  /**
+   * A callback function, called with the next views whenever a view is created, renamed, deleted,
+   * set as default or applied.
+   * <br>
+   * The views are not stored by the manager: save them (e.g. in the local storage or in the user settings)
+   * and pass them back.
+   */
+  onViewsChange: (nextViews: TDataTableViews) => void;
+};
+
+export type TViewsActions = {
+  createView: (name: string) => void;
+  renameView: (viewId: string, name: string) => void;
+  deleteView: (viewId: string) => void;
+  setDefaultView: (viewId?: string) => void;
+  applyView: (viewId: string) => void;
+};
+
+export type TSettingsStorage = {
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+  removeItem: (key: string) => void;
+};
+
+export type TStoredSettings = {
+  visibleColumnKeys?: string[];
+  isCondensed?: boolean;
+  isWrappingText?: boolean;
+  /**
+   * The widths of the resized columns, by column key.
+   */
+  columnWidths?: Record<string, number>;
+  /**
+   * The settings of the custom settings panels, by key.
+   */
+  additionalSettings?: Record<string, TAdditionalSettings>;
+};
+
+export type TSettingsStorageProps = {
+  /**
+   * The id of the table, under which its settings are saved.
+   */
+  tableId: string;
+
+  /**
+   * Where the settings are saved: either `localSettingsStorage`, `sessionSettingsStorage`,
+   * the storage returned by `createMemorySettingsStorage`, or any object implementing
+   * the `getItem`, `setItem` and `removeItem` methods of the web storages.
+   */
+  storage: TSettingsStorage;
+
+  /**
+   * The version of the saved settings. Increase it whenever the columns or the custom settings
+   * change in a way which is not compatible with the saved settings, so that they are dropped.
+   *
+   * @@defaultValue@@: 1
+   */
+  version?: number;
+};
+
 export type TCustomSettingsProps = {
   key: string;
   customPanelTitle: string;
@@ -138,6 +299,7 @@ export type TDataTableSettingsProps = {
   customColumnManager?: TColumnManagerProps & {
     disableCustomColumnManager?: boolean;
   };
+  viewsManager?: TViewsManagerProps;
 };
 
 export interface TRow {
@@ -228,6 +390,18 @@ export type TColumnProps<Row extends TRow = TRow> = {
    * the row also has a defined `onRowClick`.
    */
   shouldIgnoreRowClick?: boolean;
+
+  /**
+   * Pins the column to the `left` or `right` side of the table, so that it stays in place
+   * while the other columns are scrolled horizontally.
+   */
+  pin?: 'left' | 'right';
+
+  /**
+   * The columns grouped under this column, which is then rendered as a header spanning all of them.
+   * Hiding the column from the column manager hides the whole group.
+   */
+  children?: TColumnProps<Row>[];
 };
 
 export type TDataTableManagerProps<Row extends TRow = TRow> = {
@@ -300,6 +474,22 @@ export type TDataTableManagerProps<Row extends TRow = TRow> = {
   customColumnManager?: TColumnManagerProps & {
     disableCustomColumnManager?: boolean;
   };
+  /**
+   * The saved views of the table, which are listed in the dropdown of the manager.
+   * A view saves the visible columns and their order, the display settings and the sorting of the table.
+   * <br>
+   * Applying a view reports its settings with the `columnsUpdate`, `isTableCondensedUpdate`,
+   * `isTableWrappingTextUpdate` and `sortingUpdate` actions of `onSettingsChange`.
+   */
+  viewsManager?: TViewsManagerProps;
+  /**
+   * Saves the visible columns, the widths of the resized columns, the display settings and the custom
+   * settings of the table, as they are reported with `onSettingsChange`. The saved settings are reported again with `onSettingsChange`
+   * once the manager is rendered, so that the table is restored as the user left it.
+   * <br>
+   * When using the `DataTableManagerProvider`, pass this prop to the provider instead.
+   */
+  settingsStorage?: TSettingsStorageProps;
   /**
    * The columns of the nested items to be rendered in the table. Just like the columns, Each object requires a unique `key` which should correspond to property key of
    * the items of `rows` that you want to render under this column, and a `label`
@@ -0,0 +1,3 @@
+import type { TViewsManagerPanelProps as ViewsManagerPanelProps } from './views-manager';
+
+export type TViewsManagerPanelProps = ViewsManagerPanelProps;
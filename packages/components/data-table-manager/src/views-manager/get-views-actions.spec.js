@@ -0,0 +1,156 @@
+import { UPDATE_ACTIONS } from '../constants';
+import getViewsActions, { getNextViewId } from './get-views-actions';
+
+const views = [
+  {
+    id: 'view-1',
+    name: 'Compact',
+    settings: {
+      visibleColumnKeys: ['title'],
+      isCondensed: true,
+      sortedBy: 'title',
+      sortDirection: 'desc',
+    },
+  },
+  { id: 'view-3', name: 'Wide', settings: { isWrappingText: true } },
+];
+
+const createTestOptions = (custom = {}) => ({
+  viewsManager: {
+    views,
+    defaultViewId: 'view-1',
+    activeViewId: 'view-3',
+    sortedBy: 'country',
+    sortDirection: 'asc',
+    onViewsChange: jest.fn(),
+  },
+  columnManager: { visibleColumnKeys: ['country', 'title'] },
+  displaySettings: { isCondensed: false, isWrappingText: true },
+  onSettingsChange: jest.fn(),
+  ...custom,
+});
+
+describe('getNextViewId', () => {
+  it('should return an id which is not used by the saved views', () => {
+    expect(getNextViewId([])).toBe('view-1');
+    expect(getNextViewId(views)).toBe('view-4');
+    expect(getNextViewId([views[1]])).toBe('view-2');
+  });
+});
+
+describe('getViewsActions', () => {
+  it('should save the current settings of the table with the created view', () => {
+    const options = createTestOptions();
+    getViewsActions(options).createView('Countries');
+
+    expect(options.viewsManager.onViewsChange).toHaveBeenCalledWith({
+      views: [
+        ...views,
+        {
+          id: 'view-4',
+          name: 'Countries',
+          settings: {
+            visibleColumnKeys: ['country', 'title'],
+            isCondensed: false,
+            isWrappingText: true,
+            sortedBy: 'country',
+            sortDirection: 'asc',
+          },
+        },
+      ],
+      defaultViewId: 'view-1',
+      activeViewId: 'view-4',
+    });
+  });
+
+  it('should rename the view', () => {
+    const options = createTestOptions();
+    getViewsActions(options).renameView('view-3', 'Wrapped');
+
+    expect(options.viewsManager.onViewsChange).toHaveBeenCalledWith({
+      views: [views[0], { ...views[1], name: 'Wrapped' }],
+      defaultViewId: 'view-1',
+      activeViewId: 'view-3',
+    });
+  });
+
+  it('should not keep the deleted view as the default or active view', () => {
+    const options = createTestOptions();
+    getViewsActions(options).deleteView('view-1');
+
+    expect(options.viewsManager.onViewsChange).toHaveBeenCalledWith({
+      views: [views[1]],
+      defaultViewId: undefined,
+      activeViewId: 'view-3',
+    });
+  });
+
+  it('should set and unset the default view', () => {
+    const options = createTestOptions();
+    const viewsActions = getViewsActions(options);
+    viewsActions.setDefaultView('view-3');
+    viewsActions.setDefaultView(undefined);
+
+    expect(options.viewsManager.onViewsChange).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({ defaultViewId: 'view-3' })
+    );
+    expect(options.viewsManager.onViewsChange).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ defaultViewId: undefined })
+    );
+  });
+
+  it('should report the settings saved with the applied view', () => {
+    const options = createTestOptions();
+    getViewsActions(options).applyView('view-1');
+
+    expect(options.onSettingsChange.mock.calls).toEqual([
+      [UPDATE_ACTIONS.COLUMNS_UPDATE, ['title']],
+      [UPDATE_ACTIONS.IS_TABLE_CONDENSED_UPDATE, true],
+      [
+        UPDATE_ACTIONS.SORTING_UPDATE,
+        { sortedBy: 'title', sortDirection: 'desc' },
+      ],
+    ]);
+    expect(options.viewsManager.onViewsChange).toHaveBeenCalledWith(
+      expect.objectContaining({ activeViewId: 'view-1' })
+    );
+  });
+
+  it('should save and report the columns the table is sorted by', () => {
+    const sortDescriptors = [
+      { key: 'country', order: 'asc' },
+      { key: 'title', order: 'desc' },
+    ];
+    const options = createTestOptions({
+      viewsManager: {
+        ...createTestOptions().viewsManager,
+        sortDescriptors,
+      },
+    });
+    const viewsActions = getViewsActions(options);
+    viewsActions.createView('Countries');
+
+    const [{ views: nextViews }] =
+      options.viewsManager.onViewsChange.mock.calls[0];
+    expect(nextViews[2].settings.sortDescriptors).toEqual(sortDescriptors);
+
+    getViewsActions({
+      ...options,
+      viewsManager: { ...options.viewsManager, views: nextViews },
+    }).applyView('view-4');
+    expect(options.onSettingsChange).toHaveBeenCalledWith(
+      UPDATE_ACTIONS.SORTING_UPDATE,
+      { sortedBy: 'country', sortDirection: 'asc', sortDescriptors }
+    );
+  });
+
+  it('should ignore the views which do not exist', () => {
+    const options = createTestOptions();
+    getViewsActions(options).applyView('view-2');
+
+    expect(options.onSettingsChange).not.toHaveBeenCalled();
+    expect(options.viewsManager.onViewsChange).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,121 @@
+import { UPDATE_ACTIONS } from '../constants';
+import type {
+  TDataTableSettingsProps,
+  TDataTableView,
+  TDataTableViews,
+  TViewsActions,
+  TViewsManagerProps,
+} from '../types';
+
+type TViewsActionsOptions = Pick<
+  TDataTableSettingsProps,
+  'columnManager' | 'displaySettings' | 'onSettingsChange'
+> & {
+  viewsManager: TViewsManagerProps;
+};
+
+// the ids only need to be unique among the saved views, and do not depend on the session they are created in
+export const getNextViewId = (views: TDataTableView[]) => {
+  const viewIds = views.map((view) => view.id);
+  let viewNumber = views.length + 1;
+  while (viewIds.includes(`view-${viewNumber}`)) viewNumber += 1;
+  return `view-${viewNumber}`;
+};
+
+/**
+ * Returns the operations on the saved views. The views are changed with the `onViewsChange` callback
+ * of the views manager, while the settings of an applied view are reported with `onSettingsChange`.
+ */
+const getViewsActions = ({
+  viewsManager,
+  columnManager,
+  displaySettings,
+  onSettingsChange,
+}: TViewsActionsOptions): TViewsActions => {
+  const { views, defaultViewId, activeViewId } = viewsManager;
+
+  const changeViews = (nextViews: Partial<TDataTableViews>) =>
+    viewsManager.onViewsChange({
+      views,
+      defaultViewId,
+      activeViewId,
+      ...nextViews,
+    });
+
+  return {
+    // the new view saves the current settings of the table, and becomes the active view
+    createView: (name) => {
+      const view = {
+        id: getNextViewId(views),
+        name,
+        settings: {
+          visibleColumnKeys: columnManager?.visibleColumnKeys,
+          isCondensed: displaySettings?.isCondensed,
+          isWrappingText: displaySettings?.isWrappingText,
+          sortedBy: viewsManager.sortedBy,
+          sortDirection: viewsManager.sortDirection,
+          sortDescriptors: viewsManager.sortDescriptors,
+        },
+      };
+      changeViews({ views: [...views, view], activeViewId: view.id });
+    },
+    renameView: (viewId, name) =>
+      changeViews({
+        views: views.map((view) =>
+          view.id === viewId ? { ...view, name } : view
+        ),
+      }),
+    deleteView: (viewId) =>
+      changeViews({
+        views: views.filter((view) => view.id !== viewId),
+        defaultViewId: defaultViewId === viewId ? undefined : defaultViewId,
+        activeViewId: activeViewId === viewId ? undefined : activeViewId,
+      }),
+    setDefaultView: (viewId) => changeViews({ defaultViewId: viewId }),
+    // only the settings saved with the view are reported
+    applyView: (viewId) => {
+      const view = views.find(({ id }) => id === viewId);
+      if (!view) return;
+
+      const {
+        visibleColumnKeys,
+        isCondensed,
+        isWrappingText,
+        sortedBy,
+        sortDirection,
+        sortDescriptors,
+      } = view.settings;
+      if (visibleColumnKeys) {
+        onSettingsChange?.(UPDATE_ACTIONS.COLUMNS_UPDATE, visibleColumnKeys);
+      }
+      if (isCondensed !== undefined) {
+        onSettingsChange?.(
+          UPDATE_ACTIONS.IS_TABLE_CONDENSED_UPDATE,
+          isCondensed
+        );
+      }
+      if (isWrappingText !== undefined) {
+        onSettingsChange?.(
+          UPDATE_ACTIONS.IS_TABLE_WRAPPING_TEXT_UPDATE,
+          isWrappingText
+        );
+      }
+      // the first sort descriptor is also reported as the single column the table is sorted by
+      if (sortDescriptors) {
+        onSettingsChange?.(UPDATE_ACTIONS.SORTING_UPDATE, {
+          sortedBy: sortDescriptors[0]?.key,
+          sortDirection: sortDescriptors[0]?.order,
+          sortDescriptors,
+        });
+      } else if (sortedBy) {
+        onSettingsChange?.(UPDATE_ACTIONS.SORTING_UPDATE, {
+          sortedBy,
+          sortDirection,
+        });
+      }
+      changeViews({ activeViewId: viewId });
+    },
+  };
+};
+
+export default getViewsActions;
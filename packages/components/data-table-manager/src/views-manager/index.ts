@@ -0,0 +1,3 @@
+export { default } from './views-manager';
+export { default as getViewsActions } from './get-views-actions';
+export * from './export-types';
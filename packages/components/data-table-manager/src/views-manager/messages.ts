@@ -0,0 +1,54 @@
+import { defineMessages } from 'react-intl';
+
+export default defineMessages({
+  title: {
+    id: 'UIKit.DataTableManager.ViewsManager.title',
+    description: 'Title for the views manager component.',
+    defaultMessage: 'Saved views',
+  },
+  closeButtonLabel: {
+    id: 'UIKit.DataTableManager.ViewsManager.closeButtonLabel',
+    description: 'Label for the close button of the views manager.',
+    defaultMessage: 'Close views manager',
+  },
+  noViews: {
+    id: 'UIKit.DataTableManager.ViewsManager.noViews',
+    description: 'Label when there are no saved views to show.',
+    defaultMessage: 'There are no saved views yet.',
+  },
+  viewName: {
+    id: 'UIKit.DataTableManager.ViewsManager.viewName',
+    description: 'Label for the input renaming a saved view.',
+    defaultMessage: 'Name of the view {name}',
+  },
+  defaultView: {
+    id: 'UIKit.DataTableManager.ViewsManager.defaultView',
+    description: 'Label marking the default view.',
+    defaultMessage: 'Default',
+  },
+  setDefaultView: {
+    id: 'UIKit.DataTableManager.ViewsManager.setDefaultView',
+    description: 'Label for the button setting a view as default.',
+    defaultMessage: 'Set {name} as default view',
+  },
+  unsetDefaultView: {
+    id: 'UIKit.DataTableManager.ViewsManager.unsetDefaultView',
+    description: 'Label for the button unsetting the default view.',
+    defaultMessage: 'Unset {name} as default view',
+  },
+  deleteView: {
+    id: 'UIKit.DataTableManager.ViewsManager.deleteView',
+    description: 'Label for the button deleting a saved view.',
+    defaultMessage: 'Delete view {name}',
+  },
+  newViewName: {
+    id: 'UIKit.DataTableManager.ViewsManager.newViewName',
+    description: 'Placeholder for the name of the view to be created.',
+    defaultMessage: 'Name of the new view',
+  },
+  createView: {
+    id: 'UIKit.DataTableManager.ViewsManager.createView',
+    description: 'Label for the button saving the current layout as a view.',
+    defaultMessage: 'Save current layout',
+  },
+});
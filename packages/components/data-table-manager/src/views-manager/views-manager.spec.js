@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { screen, render, fireEvent } from '../../../../../test/test-utils';
+import ViewsManager from './views-manager';
+
+const createTestProps = (customProps) => ({
+  views: [
+    { id: 'view-1', name: 'Compact', settings: {} },
+    { id: 'view-2', name: 'Wide', settings: {} },
+  ],
+  defaultViewId: 'view-2',
+  viewsActions: {
+    createView: jest.fn(),
+    renameView: jest.fn(),
+    deleteView: jest.fn(),
+    setDefaultView: jest.fn(),
+    applyView: jest.fn(),
+  },
+  onClose: jest.fn(),
+  ...customProps,
+});
+
+describe('ViewsManager', () => {
+  it('should render a message when there are no saved views', () => {
+    const props = createTestProps({ views: [] });
+    render(<ViewsManager {...props} />);
+
+    expect(
+      screen.getByText('There are no saved views yet.')
+    ).toBeInTheDocument();
+  });
+
+  it('should create a view named after the input', () => {
+    const props = createTestProps();
+    render(<ViewsManager {...props} />);
+
+    const createButton = screen.getByLabelText('Save current layout');
+    expect(createButton).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Name of the new view'), {
+      target: { value: ' By country ' },
+    });
+    fireEvent.click(createButton);
+
+    expect(props.viewsActions.createView).toHaveBeenCalledWith('By country');
+    expect(screen.getByLabelText('Name of the new view')).toHaveValue('');
+  });
+
+  it('should rename the view once its input loses the focus', () => {
+    const props = createTestProps();
+    render(<ViewsManager {...props} />);
+
+    const nameInput = screen.getByLabelText('Name of the view Compact');
+    fireEvent.change(nameInput, { target: { value: 'Dense' } });
+    fireEvent.blur(nameInput);
+
+    expect(props.viewsActions.renameView).toHaveBeenCalledWith(
+      'view-1',
+      'Dense'
+    );
+  });
+
+  it('should discard the empty names', () => {
+    const props = createTestProps();
+    render(<ViewsManager {...props} />);
+
+    const nameInput = screen.getByLabelText('Name of the view Compact');
+    fireEvent.change(nameInput, { target: { value: ' ' } });
+    fireEvent.blur(nameInput);
+
+    expect(props.viewsActions.renameView).not.toHaveBeenCalled();
+    expect(nameInput).toHaveValue('Compact');
+  });
+
+  it('should show the name of the view once renamed from outside', () => {
+    const props = createTestProps();
+    const TestComponent = () => {
+      const [views, setViews] = useState(props.views);
+      return (
+        <>
+          <button
+            onClick={() => setViews([{ ...views[0], name: 'Dense' }, views[1]])}
+          >
+            Rename
+          </button>
+          <ViewsManager {...props} views={views} />
+        </>
+      );
+    };
+    render(<TestComponent />);
+
+    fireEvent.click(screen.getByText('Rename'));
+
+    expect(screen.getByLabelText('Name of the view Dense')).toHaveValue(
+      'Dense'
+    );
+  });
+
+  it('should not use the same input ids in several managers', () => {
+    const props = createTestProps();
+    render(
+      <>
+        <ViewsManager {...props} />
+        <ViewsManager {...props} />
+      </>
+    );
+
+    const newViewNameInputs = screen.getAllByLabelText('Name of the new view');
+    expect(newViewNameInputs).toHaveLength(2);
+    expect(newViewNameInputs[0].id).not.toBe(newViewNameInputs[1].id);
+  });
+
+  it('should set, unset and delete the views', () => {
+    const props = createTestProps();
+    render(<ViewsManager {...props} />);
+
+    expect(screen.getByText('Default')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText('Set Compact as default view'));
+    expect(props.viewsActions.setDefaultView).toHaveBeenCalledWith('view-1');
+
+    fireEvent.click(screen.getByLabelText('Unset Wide as default view'));
+    expect(props.viewsActions.setDefaultView).toHaveBeenCalledWith(undefined);
+
+    fireEvent.click(screen.getByLabelText('Delete view Wide'));
+    expect(props.viewsActions.deleteView).toHaveBeenCalledWith('view-2');
+  });
+});
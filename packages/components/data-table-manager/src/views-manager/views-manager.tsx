@@ -0,0 +1,173 @@
+import {
+  useState,
+  type FormEvent,
+  type KeyboardEvent,
+  type MouseEvent,
+} from 'react';
+import { useIntl } from 'react-intl';
+import styled from '@emotion/styled';
+import AccessibleHidden from '@commercetools-uikit/accessible-hidden';
+import SecondaryButton from '@commercetools-uikit/secondary-button';
+import SecondaryIconButton from '@commercetools-uikit/secondary-icon-button';
+import Spacings from '@commercetools-uikit/spacings';
+import Text from '@commercetools-uikit/text';
+import TextInput from '@commercetools-uikit/text-input';
+import { BinLinearIcon, StarIcon } from '@commercetools-uikit/icons';
+import { useFieldId } from '@commercetools-uikit/hooks';
+import { createSequentialId } from '@commercetools-uikit/utils';
+import SettingsContainer from '../settings-container';
+import type { TDataTableView, TViewsActions } from '../types';
+import messages from './messages';
+
+export type TViewsManagerPanelProps = {
+  title?: string;
+  views: TDataTableView[];
+  defaultViewId?: string;
+  viewsActions: TViewsActions;
+  onClose: (
+    event: MouseEvent<HTMLButtonElement> | KeyboardEvent<HTMLButtonElement>
+  ) => void;
+  managerTheme?: 'light' | 'dark';
+};
+
+type TViewItemProps = {
+  inputId: string;
+  view: TDataTableView;
+  isDefault: boolean;
+  viewsActions: TViewsActions;
+};
+
+const sequentialId = createSequentialId('views-manager-');
+
+const ViewNameContainer = styled.div`
+  flex-grow: 1;
+`;
+
+const ViewItem = ({
+  inputId,
+  view,
+  isDefault,
+  viewsActions,
+}: TViewItemProps) => {
+  const intl = useIntl();
+  // the name being edited, otherwise the name of the view is shown
+  const [editedName, setEditedName] = useState<string>();
+
+  // the view is renamed once the input loses the focus, and empty names are discarded
+  const handleBlur = () => {
+    const trimmedName = editedName?.trim();
+    if (trimmedName && trimmedName !== view.name) {
+      viewsActions.renameView(view.id, trimmedName);
+    }
+    setEditedName(undefined);
+  };
+
+  return (
+    <Spacings.Inline alignItems="center">
+      <ViewNameContainer>
+        <AccessibleHidden>
+          <label htmlFor={inputId}>
+            {intl.formatMessage(messages.viewName, { name: view.name })}
+          </label>
+        </AccessibleHidden>
+        <TextInput
+          id={inputId}
+          value={editedName ?? view.name}
+          onChange={(event) => setEditedName(event.target.value)}
+          onBlur={handleBlur}
+          isCondensed
+        />
+      </ViewNameContainer>
+      {isDefault && (
+        <Text.Detail tone="tertiary" intlMessage={messages.defaultView} />
+      )}
+      <SecondaryIconButton
+        icon={<StarIcon />}
+        color={isDefault ? 'primary' : 'solid'}
+        label={intl.formatMessage(
+          isDefault ? messages.unsetDefaultView : messages.setDefaultView,
+          { name: view.name }
+        )}
+        onClick={() =>
+          viewsActions.setDefaultView(isDefault ? undefined : view.id)
+        }
+      />
+      <SecondaryIconButton
+        icon={<BinLinearIcon />}
+        label={intl.formatMessage(messages.deleteView, { name: view.name })}
+        onClick={() => viewsActions.deleteView(view.id)}
+      />
+    </Spacings.Inline>
+  );
+};
+
+const ViewsManager = (props: TViewsManagerPanelProps) => {
+  const intl = useIntl();
+  const [newViewName, setNewViewName] = useState('');
+  // the ids of the inputs are unique, in case there are several managers on the page
+  const idPrefix = useFieldId(undefined, sequentialId);
+  const newViewNameId = `${idPrefix}new-view-name`;
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const trimmedName = newViewName.trim();
+    if (!trimmedName) return;
+    props.viewsActions.createView(trimmedName);
+    setNewViewName('');
+  };
+
+  return (
+    <SettingsContainer
+      customSettingsTitle={props.title}
+      title={messages.title}
+      closeButtonLabel={messages.closeButtonLabel}
+      onClose={props.onClose}
+      containerTheme={props.managerTheme}
+    >
+      <Spacings.Stack scale="l">
+        {props.views.length > 0 ? (
+          <Spacings.Stack scale="s">
+            {props.views.map((view) => (
+              <ViewItem
+                key={view.id}
+                inputId={`${idPrefix}view-name-${view.id}`}
+                view={view}
+                isDefault={view.id === props.defaultViewId}
+                viewsActions={props.viewsActions}
+              />
+            ))}
+          </Spacings.Stack>
+        ) : (
+          <Text.Detail intlMessage={messages.noViews} />
+        )}
+        <form onSubmit={handleSubmit}>
+          <Spacings.Inline alignItems="center">
+            <ViewNameContainer>
+              <AccessibleHidden>
+                <label htmlFor={newViewNameId}>
+                  {intl.formatMessage(messages.newViewName)}
+                </label>
+              </AccessibleHidden>
+              <TextInput
+                id={newViewNameId}
+                value={newViewName}
+                placeholder={intl.formatMessage(messages.newViewName)}
+                onChange={(event) => setNewViewName(event.target.value)}
+                isCondensed
+              />
+            </ViewNameContainer>
+            <SecondaryButton
+              type="submit"
+              label={intl.formatMessage(messages.createView)}
+              isDisabled={!newViewName.trim()}
+            />
+          </Spacings.Inline>
+        </form>
+      </Spacings.Stack>
+    </SettingsContainer>
+  );
+};
+
+ViewsManager.displayName = 'ViewsManager';
+
+export default ViewsManager;
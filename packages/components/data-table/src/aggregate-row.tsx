@@ -0,0 +1,67 @@
+import type { ReactNode } from 'react';
+import { useIntl } from 'react-intl';
+import { TableFooter, TableRow } from './data-table.styles';
+import { BaseAggregateCell, CellInner } from './cell.styles';
+import getColumnAggregate from './utils/get-column-aggregate';
+import type { TColumn, TRow } from './data-table';
+import type { TPinnedColumnPosition } from './use-pinned-columns';
+
+type TAggregateRow<Row extends TRow = TRow> = {
+  rows: Row[];
+  columns: TColumn<Row>[];
+  isCondensed?: boolean;
+  verticalCellAlignment?: 'top' | 'center' | 'bottom';
+  horizontalCellAlignment?: 'left' | 'center' | 'right';
+  getPinnedColumnPosition?: (
+    columnKey: string
+  ) => TPinnedColumnPosition | undefined;
+};
+
+/**
+ * The summary row of the table, rendering the aggregate value of each column
+ * which defines an `aggregate`, aligned with the cells of the column.
+ */
+const AggregateRow = <Row extends TRow = TRow>(props: TAggregateRow<Row>) => {
+  const intl = useIntl();
+
+  const renderAggregate = (column: TColumn<Row>): ReactNode => {
+    if (!column.aggregate) return null;
+    const aggregateValue = getColumnAggregate(props.rows, column);
+    if (column.renderAggregate) {
+      return column.renderAggregate(aggregateValue, props.rows);
+    }
+    if (typeof aggregateValue === 'number') {
+      return intl.formatNumber(aggregateValue, { maximumFractionDigits: 2 });
+    }
+    return aggregateValue === undefined || aggregateValue === null
+      ? null
+      : String(aggregateValue);
+  };
+
+  return (
+    <TableFooter>
+      <TableRow isRowClickable={false}>
+        {props.columns.map((column) => (
+          <BaseAggregateCell
+            key={column.key}
+            pinnedPosition={props.getPinnedColumnPosition?.(column.key)}
+          >
+            <CellInner
+              data-testid={`aggregate-${column.key}`}
+              isCondensed={props.isCondensed}
+              verticalCellAlignment={props.verticalCellAlignment}
+              horizontalCellAlignment={
+                column.align ? column.align : props.horizontalCellAlignment
+              }
+            >
+              {renderAggregate(column)}
+            </CellInner>
+          </BaseAggregateCell>
+        ))}
+      </TableRow>
+    </TableFooter>
+  );
+};
+AggregateRow.displayName = 'AggregateRow';
+
+export default AggregateRow;
@@ -1,8 +1,10 @@
-import { css } from '@emotion/react';
+import { css, keyframes } from '@emotion/react';
 import styled from '@emotion/styled';
 import { designTokens } from '@commercetools-uikit/design-system';
 import AccessibleButton from '@commercetools-uikit/accessible-button';
+import convertNumericDimensionToPixelValue from './utils/convert-numeric-dimension-to-pixel-value';
 import type { TDataCell } from './cell';
+import type { TPinnedColumnPosition } from './use-pinned-columns';
 
 type TCellInner = {
   shouldClipContent?: boolean;
@@ -118,9 +120,57 @@ const CellInner = styled.div<TCellInner>`
       : ''}
 `;
 
+type TGetPinnedCellStyles = {
+  pinnedPosition?: TPinnedColumnPosition;
+};
+
+/**
+ * Pinned cells stick to their side of the table while the other columns scroll horizontally,
+ * and the innermost pinned cell of each side has a border separating it from the scrolling columns
+ */
+const getPinnedCellStyles = (props: TGetPinnedCellStyles) => {
+  if (!props.pinnedPosition) return '';
+  const { side, offset, isEdge } = props.pinnedPosition;
+  return css`
+    position: sticky;
+    ${side}: ${offset}px;
+    z-index: 1;
+    ${isEdge
+      ? `box-shadow: inset ${side === 'left' ? '-1px' : '1px'} 0 0 ${
+          designTokens.colorNeutral90
+        };`
+      : ''}
+  `;
+};
+
+// the tones only set the default colors of the cells, which are replaced when the row is hovered or the cell selected
+const getCellToneStyles = (props: Pick<TDataCell, 'tone'>) => {
+  switch (props.tone) {
+    case 'highlighted':
+      return css`
+        background-color: ${designTokens.colorPrimary98};
+      `;
+    case 'muted':
+      return css`
+        background-color: ${designTokens.colorNeutral98};
+        color: ${designTokens.colorNeutral40};
+      `;
+    case 'warning':
+      return css`
+        background-color: ${designTokens.colorWarning95};
+      `;
+    default:
+      return '';
+  }
+};
+
 type TBaseCell = {
   shouldClipContent?: boolean;
-} & Pick<TDataCell, 'shouldRenderBottomBorder' | 'shouldIgnoreRowClick'>;
+} & Pick<
+  TDataCell,
+  'shouldRenderBottomBorder' | 'shouldIgnoreRowClick' | 'isSelected' | 'tone'
+> &
+  TGetPinnedCellStyles;
 
 const BaseCell = styled.td<TBaseCell>`
   position: relative;
@@ -143,6 +193,20 @@ const BaseCell = styled.td<TBaseCell>`
           cursor: auto;
         `
       : ''}
+  ${getPinnedCellStyles}
+  ${getCellToneStyles}
+  ${(props) =>
+    props.isSelected
+      ? css`
+          background-color: ${designTokens.colorPrimary95};
+        `
+      : ''}
+
+  /* the cells are focusable when the table can be navigated with the keyboard */
+  :focus-visible {
+    outline: ${designTokens.borderWidth2} solid ${designTokens.colorPrimary};
+    outline-offset: calc(-1 * ${designTokens.borderWidth2});
+  }
 `;
 
 type TBaseFooterCell = {
@@ -164,6 +228,154 @@ const BaseFooterCell = styled.td<TBaseFooterCell>`
   margin-top: -1px;
 `;
 
+/* the summary row sticks to the bottom of the table, above the data cells */
+const BaseAggregateCell = styled.td<TGetPinnedCellStyles>`
+  position: sticky;
+  bottom: 0;
+  z-index: 2;
+  display: flex;
+  background-color: ${designTokens.colorNeutral98};
+  border-top: 1px solid ${designTokens.colorNeutral90};
+  border-bottom: 1px solid ${designTokens.colorNeutral90};
+  font-size: ${designTokens.fontSize20};
+  font-weight: ${designTokens.fontWeight500};
+
+  /* makes the top border overlap the border of the last data row */
+  margin-top: -1px;
+
+  ${getPinnedCellStyles}
+  ${(props) =>
+    props.pinnedPosition
+      ? `
+    /* keeps the pinned cells above the scrolling ones */
+    z-index: 3;
+  `
+      : ''}
+`;
+
+/* renders the loading, empty and error states of the table across all the columns */
+const TableStateCell = styled.td`
+  grid-column: 1 / -1;
+  display: block;
+  padding: ${designTokens.spacing50} ${designTokens.spacing40};
+  background-color: ${designTokens.colorSurface};
+  border-bottom: 1px solid ${designTokens.colorNeutral95};
+  font-size: ${designTokens.fontSize20};
+`;
+
+const RowDragHandle = styled.div`
+  display: flex;
+  cursor: grab;
+  border-radius: ${designTokens.borderRadius4};
+
+  :focus-visible {
+    outline: ${designTokens.borderWidth2} solid ${designTokens.colorPrimary};
+  }
+`;
+
+type TTreeCellContent = {
+  depth: number;
+};
+
+// the rows are indented according to their level within the tree
+const TreeCellContent = styled.div<TTreeCellContent>`
+  display: flex;
+  align-items: center;
+  gap: ${designTokens.spacing10};
+  padding-left: calc(${(props) => props.depth} * ${designTokens.spacing50});
+`;
+
+// keeps the content of the rows without children aligned with the content of their siblings
+const TreeRowToggleSlot = styled.div`
+  display: flex;
+  flex-shrink: 0;
+  justify-content: center;
+  width: ${designTokens.spacing50};
+`;
+
+const LoadingMoreCell = styled(TableStateCell)`
+  display: flex;
+  justify-content: center;
+
+  /* prevents the browser from keeping the loading row in view by scrolling when the new rows
+  are inserted above it, so that the scroll position stays the same */
+  overflow-anchor: none;
+`;
+
+const skeletonPulse = keyframes`
+  0% {
+    background-position: 100% 0;
+  }
+  100% {
+    background-position: -100% 0;
+  }
+`;
+
+type TSkeletonBlock = {
+  width: string;
+};
+
+const SkeletonBlock = styled.div<TSkeletonBlock>`
+  width: ${(props) => props.width};
+  height: ${designTokens.spacing30};
+  margin: ${designTokens.spacing10} 0;
+  border-radius: ${designTokens.borderRadius4};
+  background: linear-gradient(
+    90deg,
+    ${designTokens.colorNeutral95} 25%,
+    ${designTokens.colorNeutral98} 50%,
+    ${designTokens.colorNeutral95} 75%
+  );
+  background-size: 200% 100%;
+  animation: ${skeletonPulse} 1.5s ease-in-out infinite;
+
+  @media (prefers-reduced-motion: reduce) {
+    animation: none;
+  }
+`;
+
+type TNestedRowCell = {
+  maxHeight?: number;
+};
+
+const NestedRowCell = styled.td<TNestedRowCell>`
+  grid-column: 1 / -1;
+  display: block;
+  background-color: ${designTokens.colorNeutral98};
+  border-bottom: 1px solid ${designTokens.colorNeutral95};
+  ${(props) =>
+    props.maxHeight
+      ? css`
+          max-height: ${convertNumericDimensionToPixelValue(props.maxHeight)};
+          overflow-y: auto;
+        `
+      : ''}
+`;
+
+const RowGroupHeaderCell = styled.td`
+  grid-column: 1 / -1;
+  display: block;
+  background-color: ${designTokens.colorNeutral98};
+  border-bottom: 1px solid ${designTokens.colorNeutral95};
+  font-size: ${designTokens.fontSize20};
+  font-weight: ${designTokens.fontWeight500};
+`;
+
+/* keeps the content of the group header visible while the table is scrolled horizontally */
+const RowGroupHeaderContent = styled.div`
+  position: sticky;
+  left: 0;
+  display: inline-flex;
+  align-items: center;
+  gap: ${designTokens.spacing20};
+  padding: ${designTokens.spacing20} ${designTokens.spacing30};
+`;
+
+const RowGroupRowCount = styled.span`
+  color: ${designTokens.colorNeutral40};
+  font-weight: ${designTokens.fontWeight400};
+`;
+
 const RowExpandCollapseButton = styled(AccessibleButton)<
   Pick<TDataCell, 'isRowCollapsed'>
 >`
@@ -184,8 +396,20 @@ export {
   getVerticalAlignmentStyle,
   getHorizontalAlignmentStyle,
   getCellInnerStyles,
+  getPinnedCellStyles,
   BaseCell,
   CellInner,
   BaseFooterCell,
+  BaseAggregateCell,
+  NestedRowCell,
+  TableStateCell,
+  LoadingMoreCell,
+  RowDragHandle,
+  TreeCellContent,
+  TreeRowToggleSlot,
+  SkeletonBlock,
+  RowGroupHeaderCell,
+  RowGroupHeaderContent,
+  RowGroupRowCount,
   RowExpandCollapseButton,
 };
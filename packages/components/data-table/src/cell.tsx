@@ -1,12 +1,16 @@
-import { ReactNode } from 'react';
+import { useRef, useEffect, type ReactNode, type KeyboardEvent } from 'react';
 import {
   RightTriangleFilledIcon,
   RightTriangleLinearIcon,
 } from '@commercetools-uikit/icons';
 import { filterDataAttributes, warning } from '@commercetools-uikit/utils';
+import { usePrevious } from '@commercetools-uikit/hooks';
 import { BaseCell, CellInner, RowExpandCollapseButton } from './cell.styles';
 
 import Resizer from './column-resizer';
+import type { TPinnedColumnPosition } from './use-pinned-columns';
+import type { TRowTone } from './data-table';
+import { getFirstFocusableElement } from './use-keyboard-navigation';
 
 export type TDataCell = {
   children: ReactNode;
@@ -21,6 +25,14 @@ export type TDataCell = {
   shouldRenderResizingIndicator: boolean;
   handleRowCollapseClick?: () => void;
   isRowCollapsed?: boolean;
+  pinnedPosition?: TPinnedColumnPosition;
+  tabIndex?: number;
+  role?: string;
+  isEditing?: boolean;
+  isSelected?: boolean;
+  tone?: TRowTone;
+  onStartEditing?: () => void;
+  onCancelEditing?: () => void;
 };
 
 const DataCell = ({
@@ -43,12 +55,60 @@ const DataCell = ({
     ? RightTriangleFilledIcon
     : RightTriangleLinearIcon;
 
+  const cellRef = useRef<HTMLTableCellElement>(null);
+  const wasEditing = usePrevious(props.isEditing);
+  useEffect(() => {
+    const cell = cellRef.current;
+    if (!cell) return;
+    if (props.isEditing && !wasEditing) {
+      // move the focus to the editor, unless it has already focused itself
+      if (!cell.contains(document.activeElement)) {
+        getFirstFocusableElement(cell)?.focus();
+      }
+    } else if (!props.isEditing && wasEditing) {
+      // the focus is lost when the editor unmounts, so it's moved back to the cell
+      const hasLostFocus =
+        !document.activeElement || document.activeElement === document.body;
+      if (hasLostFocus && cell.hasAttribute('tabindex')) cell.focus();
+    }
+  }, [props.isEditing, wasEditing]);
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTableCellElement>) => {
+    if (props.isEditing) {
+      // the editor can handle the Escape key itself (e.g. to close a menu)
+      if (event.key === 'Escape' && !event.defaultPrevented) {
+        event.preventDefault();
+        props.onCancelEditing?.();
+      }
+      return;
+    }
+    if (
+      event.key === 'Enter' &&
+      event.target === event.currentTarget &&
+      props.onStartEditing
+    ) {
+      event.preventDefault();
+      props.onStartEditing();
+    }
+  };
+
   return (
     <BaseCell
+      ref={cellRef}
       onClick={props.onCellClick}
+      onDoubleClick={props.isEditing ? undefined : props.onStartEditing}
+      onKeyDown={
+        props.onStartEditing || props.isEditing ? handleKeyDown : undefined
+      }
       shouldIgnoreRowClick={props.shouldIgnoreRowClick}
       shouldClipContent={isTruncated && !props.shouldRenderResizingIndicator}
       shouldRenderBottomBorder={shouldRenderBottomBorder}
+      pinnedPosition={props.pinnedPosition}
+      tabIndex={props.tabIndex}
+      role={props.role}
+      tone={props.tone}
+      isSelected={props.isSelected}
+      aria-selected={props.role === 'gridcell' ? props.isSelected : undefined}
     >
       <CellInner
         isCondensed={props.isCondensed}
@@ -1,10 +1,16 @@
-import type { MouseEvent } from 'react';
+import type { MouseEvent, KeyboardEvent } from 'react';
 import styled from '@emotion/styled';
 import { designTokens } from '@commercetools-uikit/design-system';
+import { MINIMUM_COLUMN_SIZE } from './use-manual-column-resizing-reducer';
 
 type TColumnResizer = {
   onMouseDown?: (event: MouseEvent) => void;
+  onDoubleClick?: (event: MouseEvent) => void;
+  onKeyDown?: (event: KeyboardEvent) => void;
   isOnDataCell?: boolean;
+  label?: string;
+  columnWidth?: number;
+  tabIndex?: number;
 };
 
 const ResizerIndicator = styled.div<TColumnResizer>`
@@ -32,11 +38,16 @@ const DraggableArea = styled.div`
   cursor: col-resize;
   user-select: none;
 
-  &:hover ${ResizerIndicator} {
+  &:hover ${ResizerIndicator}, &:focus-visible ${ResizerIndicator} {
     height: 100%;
     visibility: visible;
   }
 
+  /* the visible indicator already shows that the resizer is focused */
+  &:focus-visible {
+    outline: none;
+  }
+
   /* when dragging, we increase the area of the invisible draggable zone
   to prevent accidentally hovering other elements which causes flickering */
   &:active {
@@ -50,11 +61,34 @@ const DraggableArea = styled.div`
   }
 `;
 
-const ColumnResizer = (props: TColumnResizer) => (
-  <DraggableArea role="presentation" onMouseDown={props.onMouseDown}>
-    <ResizerIndicator isOnDataCell={props.isOnDataCell} />
-  </DraggableArea>
-);
+/**
+ * The handle to resize a column, which can be dragged or moved with the arrow keys.
+ * Within the data cells, it's only rendered as an indicator of the column being resized.
+ */
+const ColumnResizer = (props: TColumnResizer) =>
+  props.isOnDataCell ? (
+    <DraggableArea role="presentation">
+      <ResizerIndicator isOnDataCell />
+    </DraggableArea>
+  ) : (
+    <DraggableArea
+      role="separator"
+      aria-orientation="vertical"
+      aria-label={props.label}
+      aria-valuenow={
+        props.columnWidth !== undefined
+          ? Math.round(props.columnWidth)
+          : undefined
+      }
+      aria-valuemin={MINIMUM_COLUMN_SIZE}
+      tabIndex={props.tabIndex ?? 0}
+      onMouseDown={props.onMouseDown}
+      onDoubleClick={props.onDoubleClick}
+      onKeyDown={props.onKeyDown}
+    >
+      <ResizerIndicator />
+    </DraggableArea>
+  );
 ColumnResizer.displayName = 'ColumnResizer';
 
 export default ColumnResizer;
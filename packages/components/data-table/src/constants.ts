@@ -0,0 +1,3 @@
+export const ROW_EXPANSION_COLUMN_KEY = 'data-table-row-expansion';
+export const ROW_SELECTION_COLUMN_KEY = 'data-table-row-selection';
+export const ROW_REORDER_COLUMN_KEY = 'data-table-row-reorder';
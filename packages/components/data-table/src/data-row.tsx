@@ -4,6 +4,9 @@ import DataCell from './cell';
 import { TColumn, TRow, TDataTableProps } from './data-table';
 
 import ColumnResizingContext from './column-resizing-context';
+import type { TPinnedColumnPosition } from './use-pinned-columns';
+import type { TCellPosition } from './use-keyboard-navigation';
+import type { TRowReorderingProps } from './use-row-reordering';
 
 export type TDataRow<Row extends TRow = TRow> = {
   row: Row;
@@ -12,13 +15,27 @@ export type TDataRow<Row extends TRow = TRow> = {
   shouldClipContent: boolean;
   shouldRenderBottomBorder: boolean;
   onExpandRow?: (row: Row) => void;
+  getPinnedColumnPosition?: (
+    columnKey: string
+  ) => TPinnedColumnPosition | undefined;
+  getCellTabIndex?: (cellPosition: TCellPosition) => number | undefined;
+  getIsCellSelected?: (cellPosition: TCellPosition) => boolean;
+  getIsCellBeingEdited?: (rowId: string, columnKey: string) => boolean;
+  onStartCellEditing?: (rowId: string, columnKey: string) => void;
+  onCommitCellEdit?: (row: Row, columnKey: string, value: unknown) => void;
+  onCancelCellEdit?: () => void;
+  headerRowCount?: number;
+  rowReorderingProps?: TRowReorderingProps;
 } & Pick<
   TDataTableProps<Row>,
   | 'onRowClick'
+  | 'activeRowId'
+  | 'getRowTone'
   | 'isCondensed'
   | 'verticalCellAlignment'
   | 'horizontalCellAlignment'
   | 'itemRenderer'
+  | 'isKeyboardNavigable'
 >;
 
 const defaultItemRenderer = <Row extends TRow = TRow>(
@@ -41,6 +58,7 @@ const DataRow = <Row extends TRow = TRow>({
   horizontalCellAlignment = 'left',
   shouldRenderBottomBorder = true,
   itemRenderer = defaultItemRenderer,
+  headerRowCount = 1,
   ...props
 }: TDataRow<Row>) => {
   const { getIsColumnBeingResized } = useContext(
@@ -64,43 +82,92 @@ const DataRow = <Row extends TRow = TRow>({
     }
   }, [rowHasTruncatedColumn]);
 
+  const isActive = props.activeRowId === props.row.id;
+  const tone = isActive ? 'highlighted' : props.getRowTone?.(props.row);
+
   const shouldRenderCollapseButton = (
     totalColumnsLength: number,
     currentColumnIndex: number
   ) => rowHasTruncatedColumn && totalColumnsLength - 1 === currentColumnIndex;
 
   return (
-    <TableRow isRowClickable={Boolean(props.onRowClick)}>
-      {props.columns.map((column, columnIndex) => (
-        <DataCell
-          key={`${props.row.id}-${column.key}`}
-          data-testid={`cell-${props.rowIndex}-${column.key}`}
-          isTruncated={column.isTruncated && isRowCollapsed}
-          isCondensed={isCondensed}
-          isRowCollapsed={isRowCollapsed}
-          verticalCellAlignment={verticalCellAlignment}
-          horizontalCellAlignment={
-            column.align ? column.align : horizontalCellAlignment
-          }
-          shouldIgnoreRowClick={column.shouldIgnoreRowClick}
-          handleRowCollapseClick={handleRowCollapseClick}
-          shouldRenderCollapseButton={shouldRenderCollapseButton(
-            props.columns.length,
-            columnIndex
-          )}
-          onCellClick={
-            props.onRowClick && !column.shouldIgnoreRowClick
-              ? () => props.onRowClick?.(props.row, props.rowIndex, column.key)
-              : undefined
-          }
-          shouldRenderBottomBorder={shouldRenderBottomBorder}
-          shouldRenderResizingIndicator={getIsColumnBeingResized(columnIndex)}
-        >
-          {column.renderItem
-            ? column.renderItem(props.row, isRowCollapsed)
-            : itemRenderer(props.row, column, isRowCollapsed)}
-        </DataCell>
-      ))}
+    <TableRow
+      isRowClickable={Boolean(props.onRowClick)}
+      data-row-index={props.rowIndex}
+      aria-current={isActive || undefined}
+      {...(props.isKeyboardNavigable && {
+        role: 'row',
+        // the header rows are the first rows of the grid
+        'aria-rowindex': props.rowIndex + headerRowCount + 1,
+      })}
+      {...props.rowReorderingProps}
+    >
+      {props.columns.map((column, columnIndex) => {
+        const isEditable = Boolean(column.renderEditor);
+        const isEditing =
+          isEditable &&
+          Boolean(props.getIsCellBeingEdited?.(props.row.id, column.key));
+        return (
+          <DataCell
+            key={`${props.row.id}-${column.key}`}
+            data-testid={`cell-${props.rowIndex}-${column.key}`}
+            isTruncated={column.isTruncated && isRowCollapsed}
+            isCondensed={isCondensed}
+            isRowCollapsed={isRowCollapsed}
+            verticalCellAlignment={verticalCellAlignment}
+            horizontalCellAlignment={
+              column.align ? column.align : horizontalCellAlignment
+            }
+            shouldIgnoreRowClick={column.shouldIgnoreRowClick || isEditable}
+            handleRowCollapseClick={handleRowCollapseClick}
+            shouldRenderCollapseButton={shouldRenderCollapseButton(
+              props.columns.length,
+              columnIndex
+            )}
+            onCellClick={
+              props.onRowClick && !column.shouldIgnoreRowClick && !isEditable
+                ? () =>
+                    props.onRowClick?.(props.row, props.rowIndex, column.key)
+                : undefined
+            }
+            shouldRenderBottomBorder={shouldRenderBottomBorder}
+            shouldRenderResizingIndicator={getIsColumnBeingResized(columnIndex)}
+            pinnedPosition={props.getPinnedColumnPosition?.(column.key)}
+            tabIndex={
+              props.getCellTabIndex?.({
+                rowIndex: props.rowIndex,
+                columnIndex,
+              }) ??
+              // the editable cells need to be focusable, to start editing with the keyboard
+              (isEditable ? 0 : undefined)
+            }
+            role={props.isKeyboardNavigable ? 'gridcell' : undefined}
+            tone={tone}
+            isSelected={props.getIsCellSelected?.({
+              rowIndex: props.rowIndex,
+              columnIndex,
+            })}
+            isEditing={isEditing}
+            onStartEditing={
+              isEditable && props.onStartCellEditing
+                ? () => props.onStartCellEditing?.(props.row.id, column.key)
+                : undefined
+            }
+            onCancelEditing={props.onCancelCellEdit}
+          >
+            {isEditing && column.renderEditor
+              ? column.renderEditor(
+                  props.row,
+                  (value) =>
+                    props.onCommitCellEdit?.(props.row, column.key, value),
+                  () => props.onCancelCellEdit?.()
+                )
+              : column.renderItem
+              ? column.renderItem(props.row, isRowCollapsed)
+              : itemRenderer(props.row, column, isRowCollapsed)}
+          </DataCell>
+        );
+      })}
     </TableRow>
   );
 };
@@ -1,5 +1,14 @@
-import { screen, render, within } from '../../../../test/test-utils';
+import { createRef, useState } from 'react';
+import {
+  act,
+  screen,
+  render,
+  within,
+  fireEvent,
+} from '../../../../test/test-utils';
+import { designTokens } from '@commercetools-uikit/design-system';
 import DataTable from '.';
+import { DataTableManagerProvider } from '@commercetools-uikit/data-table-manager/data-table-manager-provider';
 import IconButton from '../../buttons/icon-button';
 import { InformationIcon } from '../../icons';
 
@@ -155,6 +164,1465 @@ describe('DataTable', () => {
     });
   });
 
+  describe('when styling the rows', () => {
+    const getRow = (rowIndex) =>
+      screen.getByTestId(`cell-${rowIndex}-title`).parentElement.parentElement;
+
+    it('should highlight the active row', () => {
+      render(<DataTable {...baseProps} activeRowId="2-woman" />);
+
+      expect(getRow(1)).toHaveAttribute('aria-current', 'true');
+      expect(getRow(0)).not.toHaveAttribute('aria-current');
+      expect(screen.getByTestId('cell-1-title').parentElement).toHaveStyle({
+        backgroundColor: designTokens.colorPrimary98,
+      });
+    });
+
+    it('should apply the tone of each row to its cells', () => {
+      render(
+        <DataTable
+          {...baseProps}
+          activeRowId="1-parasite"
+          getRowTone={(row) => (row.year < 2019 ? 'warning' : 'muted')}
+        />
+      );
+
+      // the active row is always highlighted
+      expect(screen.getByTestId('cell-0-year').parentElement).toHaveStyle({
+        backgroundColor: designTokens.colorPrimary98,
+      });
+      expect(screen.getByTestId('cell-1-year').parentElement).toHaveStyle({
+        backgroundColor: designTokens.colorWarning95,
+      });
+      expect(screen.getByTestId('cell-2-year').parentElement).toHaveStyle({
+        backgroundColor: designTokens.colorNeutral98,
+        color: designTokens.colorNeutral40,
+      });
+    });
+
+    it('should keep the style of the selected cells', () => {
+      render(
+        <DataTable
+          {...baseProps}
+          isCellRangeSelectable
+          getRowTone={() => 'warning'}
+        />
+      );
+
+      fireEvent.mouseDown(screen.getByTestId('cell-0-title'));
+      expect(screen.getByTestId('cell-0-title').parentElement).toHaveStyle({
+        backgroundColor: designTokens.colorPrimary95,
+      });
+    });
+  });
+
+  describe('when rendering nested rows', () => {
+    const renderNestedRow = (row) => <div>Details of {row.title}</div>;
+
+    it('should expand and collapse a row when clicking its toggle', () => {
+      render(<DataTable {...baseProps} renderNestedRow={renderNestedRow} />);
+
+      expect(screen.queryByText('Details of Parasite')).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getAllByLabelText('Expand row')[0]);
+      expect(screen.getByText('Details of Parasite')).toBeInTheDocument();
+      expect(screen.getByLabelText('Collapse row')).toHaveAttribute(
+        'aria-expanded',
+        'true'
+      );
+
+      fireEvent.click(screen.getByLabelText('Collapse row'));
+      expect(screen.queryByText('Details of Parasite')).not.toBeInTheDocument();
+    });
+
+    it('should not call onRowClick when toggling a row', () => {
+      const rowClickEvent = jest.fn();
+      render(
+        <DataTable
+          {...baseProps}
+          renderNestedRow={renderNestedRow}
+          onRowClick={rowClickEvent}
+        />
+      );
+
+      fireEvent.click(screen.getAllByLabelText('Expand row')[0]);
+      expect(rowClickEvent).not.toHaveBeenCalled();
+    });
+
+    it('should render the initially expanded rows', () => {
+      render(
+        <DataTable
+          {...baseProps}
+          renderNestedRow={renderNestedRow}
+          defaultExpandedRowIds={['2-woman']}
+        />
+      );
+
+      expect(screen.getByText('Details of Woman At War')).toBeInTheDocument();
+      expect(screen.getByTestId('nested-row-1')).toBeInTheDocument();
+    });
+
+    it('should allow controlling the expanded rows', () => {
+      const onExpandedRowIdsChange = jest.fn();
+      render(
+        <DataTable
+          {...baseProps}
+          renderNestedRow={renderNestedRow}
+          expandedRowIds={['1-parasite']}
+          onExpandedRowIdsChange={onExpandedRowIdsChange}
+        />
+      );
+
+      expect(screen.getByText('Details of Parasite')).toBeInTheDocument();
+
+      fireEvent.click(screen.getAllByLabelText('Expand row')[1]);
+      expect(onExpandedRowIdsChange).toHaveBeenCalledWith([
+        '1-parasite',
+        '3-gems',
+      ]);
+      // the expanded rows are controlled, so nothing changes until the prop is updated
+      expect(
+        screen.queryByText('Details of Uncut Gems')
+      ).not.toBeInTheDocument();
+    });
+  });
+
+  describe('when rendering the rows as a tree', () => {
+    const categoryRows = [
+      {
+        id: 'clothing',
+        name: 'Clothing',
+        children: [
+          { id: 'shirts', name: 'Shirts' },
+          { id: 'trousers', name: 'Trousers' },
+        ],
+      },
+      { id: 'shoes', name: 'Shoes' },
+    ];
+    const categoryColumns = [{ key: 'name', label: 'Name' }];
+    const treeProps = {
+      rows: categoryRows,
+      columns: categoryColumns,
+      treeColumnKey: 'name',
+    };
+
+    it('should render the children of a row when expanding it', () => {
+      render(<DataTable {...treeProps} />);
+
+      expect(screen.queryByText('Shirts')).not.toBeInTheDocument();
+      // only the rows with children can be expanded
+      expect(screen.getAllByLabelText('Expand row')).toHaveLength(1);
+
+      fireEvent.click(screen.getByLabelText('Expand row'));
+      expect(screen.getByTestId('cell-1-name')).toHaveTextContent('Shirts');
+      expect(screen.getByTestId('cell-2-name')).toHaveTextContent('Trousers');
+      expect(screen.getByTestId('cell-3-name')).toHaveTextContent('Shoes');
+
+      fireEvent.click(screen.getByLabelText('Collapse row'));
+      expect(screen.queryByText('Shirts')).not.toBeInTheDocument();
+    });
+
+    it('should keep the children below their parent when sorting the rows', () => {
+      render(
+        <DataTable
+          {...treeProps}
+          rows={[...categoryRows].reverse()}
+          defaultExpandedRowIds={['clothing']}
+        />
+      );
+
+      expect(screen.getByTestId('cell-0-name')).toHaveTextContent('Shoes');
+      expect(screen.getByTestId('cell-1-name')).toHaveTextContent('Clothing');
+      expect(screen.getByTestId('cell-2-name')).toHaveTextContent('Shirts');
+    });
+
+    it('should allow controlling the expanded rows', () => {
+      const onExpandedRowIdsChange = jest.fn();
+      render(
+        <DataTable
+          {...treeProps}
+          expandedRowIds={['clothing']}
+          onExpandedRowIdsChange={onExpandedRowIdsChange}
+        />
+      );
+
+      expect(screen.getByText('Shirts')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByLabelText('Collapse row'));
+      expect(onExpandedRowIdsChange).toHaveBeenCalledWith([]);
+      expect(screen.getByText('Shirts')).toBeInTheDocument();
+    });
+
+    it('should load the children of a row lazily', async () => {
+      const LazyTree = () => {
+        const [rows, setRows] = useState([
+          { id: 'clothing', name: 'Clothing' },
+        ]);
+        // the children are loaded asynchronously
+        const loadRowChildren = (row) =>
+          setTimeout(() =>
+            setRows([{ ...row, children: [{ id: 'shirts', name: 'Shirts' }] }])
+          );
+        return (
+          <DataTable
+            {...treeProps}
+            rows={rows}
+            getRowHasChildren={(row) => row.id === 'clothing'}
+            onLoadRowChildren={loadRowChildren}
+          />
+        );
+      };
+      render(<LazyTree />);
+
+      fireEvent.click(screen.getByLabelText('Expand row'));
+      expect(screen.getByTestId('tree-row-loading')).toBeInTheDocument();
+
+      expect(await screen.findByText('Shirts')).toBeInTheDocument();
+      expect(screen.queryByTestId('tree-row-loading')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('when sorting by multiple columns', () => {
+    const sortableColumns = testColumns.map((column) => ({
+      ...column,
+      isSortable: true,
+    }));
+
+    it('should call onSortChange with the multi sort flag when shift-clicking a header', () => {
+      const onSortChange = jest.fn();
+      render(
+        <DataTable
+          {...baseProps}
+          columns={sortableColumns}
+          sortDescriptors={[{ key: 'title', order: 'desc' }]}
+          onSortChange={onSortChange}
+        />
+      );
+
+      fireEvent.click(
+        within(screen.getByTestId('header-year')).getByRole('button'),
+        { shiftKey: true }
+      );
+      expect(onSortChange).toHaveBeenCalledWith('year', 'asc', true);
+
+      fireEvent.click(
+        within(screen.getByTestId('header-title')).getByRole('button')
+      );
+      expect(onSortChange).toHaveBeenLastCalledWith('title', 'asc', false);
+    });
+
+    it('should show the priority of each sorted column', () => {
+      render(
+        <DataTable
+          {...baseProps}
+          columns={sortableColumns}
+          sortDescriptors={[
+            { key: 'year', order: 'desc' },
+            { key: 'title', order: 'asc' },
+          ]}
+          onSortChange={jest.fn()}
+        />
+      );
+
+      expect(screen.getByTestId('sort-priority-year')).toHaveTextContent('1');
+      expect(screen.getByTestId('sort-priority-title')).toHaveTextContent('2');
+    });
+
+    it('should not show a priority when sorting by a single column', () => {
+      render(
+        <DataTable
+          {...baseProps}
+          columns={sortableColumns}
+          sortDescriptors={[{ key: 'year', order: 'desc' }]}
+          onSortChange={jest.fn()}
+        />
+      );
+
+      expect(
+        screen.queryByTestId('sort-priority-year')
+      ).not.toBeInTheDocument();
+    });
+  });
+
+  describe('when pinning columns', () => {
+    const columnsWithPin = [
+      { key: 'year', label: 'Year', pin: 'right' },
+      { key: 'title', label: 'Title' },
+      { key: 'id', label: 'ID', pin: 'left' },
+    ];
+
+    it('should render the pinned columns on their side of the table', () => {
+      render(<DataTable rows={testRows} columns={columnsWithPin} />);
+
+      expect(
+        screen.getAllByRole('columnheader').map((header) => header.textContent)
+      ).toEqual(['ID', 'Title', 'Year']);
+    });
+
+    it('should make the cells of the pinned columns sticky', () => {
+      render(<DataTable rows={testRows} columns={columnsWithPin} />);
+
+      expect(screen.getByTestId('header-id')).toHaveStyle({
+        position: 'sticky',
+        left: '0px',
+      });
+      expect(screen.getByTestId('cell-0-year').parentElement).toHaveStyle({
+        position: 'sticky',
+        right: '0px',
+      });
+      expect(screen.getByTestId('cell-0-title').parentElement).not.toHaveStyle({
+        position: 'sticky',
+      });
+    });
+
+    it('should pin the selection column when a column is pinned to the left', () => {
+      render(
+        <DataTable
+          rows={testRows}
+          columns={columnsWithPin}
+          onSelectionChange={jest.fn()}
+        />
+      );
+
+      expect(screen.getByTestId('header-data-table-row-selection')).toHaveStyle(
+        { position: 'sticky', left: '0px' }
+      );
+    });
+  });
+
+  describe('when reordering the columns', () => {
+    const dragHeader = (fromColumnKey, toColumnKey) => {
+      const dataTransfer = { setData: jest.fn() };
+      fireEvent.dragStart(screen.getByTestId(`header-${fromColumnKey}`), {
+        dataTransfer,
+      });
+      fireEvent.dragOver(screen.getByTestId(`header-${toColumnKey}`), {
+        dataTransfer,
+      });
+      fireEvent.drop(screen.getByTestId(`header-${toColumnKey}`), {
+        dataTransfer,
+      });
+    };
+
+    it('should call onColumnReorder when dropping a header on another column', () => {
+      const onColumnReorder = jest.fn();
+      render(<DataTable {...baseProps} onColumnReorder={onColumnReorder} />);
+
+      dragHeader('title', 'year');
+      expect(onColumnReorder).toHaveBeenCalledWith(['year', 'title']);
+    });
+
+    it('should not allow dragging the headers without onColumnReorder', () => {
+      render(<DataTable {...baseProps} />);
+
+      expect(screen.getByTestId('header-title')).not.toHaveAttribute(
+        'draggable'
+      );
+    });
+
+    it('should not move a column next to the columns pinned to another side', () => {
+      const onColumnReorder = jest.fn();
+      render(
+        <DataTable
+          rows={testRows}
+          columns={[
+            { key: 'title', label: 'Title', pin: 'left' },
+            { key: 'year', label: 'Year' },
+          ]}
+          onColumnReorder={onColumnReorder}
+        />
+      );
+
+      dragHeader('year', 'title');
+      expect(onColumnReorder).not.toHaveBeenCalled();
+    });
+
+    it('should update the visible columns of the DataTableManagerProvider', () => {
+      const onColumnReorder = jest.fn();
+      const onSettingsChange = jest.fn();
+      render(
+        <DataTableManagerProvider
+          columns={testColumns}
+          columnManager={{ visibleColumnKeys: ['title', 'year'] }}
+          onSettingsChange={onSettingsChange}
+        >
+          <DataTable rows={testRows} onColumnReorder={onColumnReorder} />
+        </DataTableManagerProvider>
+      );
+
+      dragHeader('title', 'year');
+      expect(onColumnReorder).toHaveBeenCalledWith(['year', 'title']);
+      expect(onSettingsChange).toHaveBeenCalledWith('columnsUpdate', [
+        'year',
+        'title',
+      ]);
+    });
+  });
+
+  describe('when reordering the rows', () => {
+    it('should call onRowReorder when dropping a row handle on another row', () => {
+      const onRowReorder = jest.fn();
+      render(<DataTable {...baseProps} onRowReorder={onRowReorder} />);
+
+      const dataTransfer = { setData: jest.fn() };
+      fireEvent.dragStart(
+        screen.getAllByRole('button', { name: 'Reorder row' })[0],
+        { dataTransfer }
+      );
+      fireEvent.dragOver(screen.getByTestId('cell-2-title'), { dataTransfer });
+      fireEvent.drop(screen.getByTestId('cell-2-title'), { dataTransfer });
+
+      // the row is dropped after the target row, as the rows have no size in the test environment
+      expect(onRowReorder).toHaveBeenCalledWith(0, 2);
+    });
+
+    it('should move the rows with the arrow keys and announce their new position', () => {
+      const onRowReorder = jest.fn();
+      render(<DataTable {...baseProps} onRowReorder={onRowReorder} />);
+      const dragHandles = screen.getAllByRole('button', {
+        name: 'Reorder row',
+      });
+
+      fireEvent.keyDown(dragHandles[1], { key: 'ArrowUp' });
+      expect(onRowReorder).toHaveBeenCalledWith(1, 0);
+      expect(screen.getByTestId('row-reorder-announcement')).toHaveTextContent(
+        'Row moved to position 1 of 3'
+      );
+
+      fireEvent.keyDown(dragHandles[2], { key: 'ArrowDown' });
+      expect(onRowReorder).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only reorder the top level rows of a tree', () => {
+      const onRowReorder = jest.fn();
+      render(
+        <DataTable
+          rows={[
+            {
+              id: 'clothing',
+              name: 'Clothing',
+              children: [{ id: 'shirts', name: 'Shirts' }],
+            },
+            { id: 'shoes', name: 'Shoes' },
+          ]}
+          columns={[{ key: 'name', label: 'Name' }]}
+          treeColumnKey="name"
+          defaultExpandedRowIds={['clothing']}
+          onRowReorder={onRowReorder}
+        />
+      );
+      // the child row has no handle
+      const dragHandles = screen.getAllByRole('button', {
+        name: 'Reorder row',
+      });
+      expect(dragHandles).toHaveLength(2);
+
+      // dropping onto the child row does nothing
+      const dataTransfer = { setData: jest.fn() };
+      fireEvent.dragStart(dragHandles[1], { dataTransfer });
+      fireEvent.dragOver(screen.getByTestId('cell-1-name'), { dataTransfer });
+      fireEvent.drop(screen.getByTestId('cell-1-name'), { dataTransfer });
+      expect(onRowReorder).not.toHaveBeenCalled();
+
+      fireEvent.dragStart(dragHandles[0], { dataTransfer });
+      fireEvent.dragOver(screen.getByTestId('cell-2-name'), { dataTransfer });
+      fireEvent.drop(screen.getByTestId('cell-2-name'), { dataTransfer });
+      expect(onRowReorder).toHaveBeenCalledWith(0, 1);
+    });
+
+    it('should not render the row handles without onRowReorder', () => {
+      render(<DataTable {...baseProps} />);
+
+      expect(
+        screen.queryByRole('button', { name: 'Reorder row' })
+      ).not.toBeInTheDocument();
+    });
+  });
+
+  describe('when fitting the columns to their content', () => {
+    const getResizer = (columnKey) =>
+      within(screen.getByTestId(`header-${columnKey}`)).getByRole('separator');
+
+    it('should fit a column when double-clicking its resizer', () => {
+      const onColumnResized = jest.fn();
+      render(<DataTable {...baseProps} onColumnResized={onColumnResized} />);
+
+      fireEvent.doubleClick(getResizer('year'));
+      expect(onColumnResized).toHaveBeenLastCalledWith([
+        { key: 'title', width: 0 },
+        // the column can't be smaller than the minimum size
+        { key: 'year', width: 32 },
+      ]);
+    });
+
+    it('should fit all the resizable columns with the fitAllColumnsToContent action', () => {
+      const onColumnResized = jest.fn();
+      const actionsRef = createRef();
+      render(
+        <DataTable
+          rows={testRows}
+          columns={[
+            { key: 'title', label: 'Title' },
+            { key: 'year', label: 'Year', disableResizing: true },
+          ]}
+          onColumnResized={onColumnResized}
+          actionsRef={actionsRef}
+        />
+      );
+
+      act(() => {
+        actionsRef.current.fitAllColumnsToContent();
+      });
+      expect(onColumnResized).toHaveBeenCalledWith([
+        { key: 'title', width: 32 },
+        { key: 'year', width: 0 },
+      ]);
+    });
+  });
+
+  describe('when resizing the columns with the keyboard', () => {
+    const getResizer = (columnKey) =>
+      within(screen.getByTestId(`header-${columnKey}`)).getByRole('separator');
+
+    beforeEach(() => {
+      jest
+        .spyOn(Element.prototype, 'getBoundingClientRect')
+        .mockReturnValue({ width: 100, height: 40, top: 0, left: 0 });
+    });
+    afterEach(() => {
+      Element.prototype.getBoundingClientRect.mockRestore();
+    });
+
+    it('should render a focusable separator with the width of the column', () => {
+      render(<DataTable {...baseProps} />);
+
+      const resizer = getResizer('year');
+      expect(resizer).toHaveAttribute('tabindex', '0');
+      expect(resizer).toHaveAttribute('aria-orientation', 'vertical');
+      expect(resizer).toHaveAttribute('aria-valuenow', '100');
+      expect(resizer).toHaveAccessibleName('Resize column');
+    });
+
+    it('should resize the column with the arrow keys', () => {
+      const onColumnResized = jest.fn();
+      render(<DataTable {...baseProps} onColumnResized={onColumnResized} />);
+
+      fireEvent.keyDown(getResizer('year'), { key: 'ArrowRight' });
+      expect(onColumnResized).toHaveBeenLastCalledWith([
+        { key: 'title', width: 100 },
+        { key: 'year', width: 110 },
+      ]);
+      expect(getResizer('year')).toHaveAttribute('aria-valuenow', '110');
+
+      fireEvent.keyDown(getResizer('year'), {
+        key: 'ArrowLeft',
+        shiftKey: true,
+      });
+      expect(onColumnResized).toHaveBeenLastCalledWith([
+        { key: 'title', width: 100 },
+        { key: 'year', width: 60 },
+      ]);
+    });
+
+    it('should reach the resizer from the header cell when navigating the table with the keyboard', () => {
+      render(<DataTable {...baseProps} isKeyboardNavigable />);
+
+      const resizer = getResizer('title');
+      expect(resizer).toHaveAttribute('tabindex', '-1');
+
+      act(() => {
+        screen.getByTestId('header-title').focus();
+      });
+      fireEvent.keyDown(screen.getByTestId('header-title'), {
+        key: 'Enter',
+        ctrlKey: true,
+      });
+      expect(resizer).toHaveFocus();
+
+      fireEvent.keyDown(resizer, { key: 'Escape' });
+      expect(screen.getByTestId('header-title')).toHaveFocus();
+    });
+
+    it('should keep the focus on the resizer when navigating the table with the keyboard', () => {
+      render(<DataTable {...baseProps} isKeyboardNavigable />);
+
+      const resizer = getResizer('title');
+      act(() => {
+        resizer.focus();
+      });
+      fireEvent.keyDown(resizer, { key: 'ArrowRight' });
+      expect(resizer).toHaveFocus();
+    });
+  });
+
+  describe('when keeping the column widths in the DataTableManagerProvider', () => {
+    beforeEach(() => {
+      jest
+        .spyOn(Element.prototype, 'getBoundingClientRect')
+        .mockReturnValue({ width: 100, height: 40, top: 0, left: 0 });
+    });
+    afterEach(() => {
+      Element.prototype.getBoundingClientRect.mockRestore();
+    });
+
+    const renderWithProvider = (props) =>
+      render(
+        <DataTableManagerProvider
+          columns={testColumns}
+          columnManager={{ visibleColumnKeys: ['title', 'year'] }}
+          onSettingsChange={jest.fn()}
+          {...props}
+        >
+          <DataTable rows={testRows} onSelectionChange={jest.fn()} />
+        </DataTableManagerProvider>
+      );
+
+    it('should report the widths of the resized columns', () => {
+      const onSettingsChange = jest.fn();
+      renderWithProvider({
+        onSettingsChange,
+        columnManager: {
+          visibleColumnKeys: ['title', 'year'],
+          columnWidths: { hidden: 300 },
+        },
+      });
+
+      fireEvent.keyDown(
+        within(screen.getByTestId('header-year')).getByRole('separator'),
+        { key: 'ArrowRight' }
+      );
+      // the widths of the other columns, and of the built-in columns, are not kept
+      expect(onSettingsChange).toHaveBeenCalledWith('columnWidthsUpdate', {
+        hidden: 300,
+        year: 110,
+      });
+    });
+
+    it('should restore the widths of the columns', () => {
+      renderWithProvider({
+        columnManager: {
+          visibleColumnKeys: ['title', 'year'],
+          columnWidths: { year: 250 },
+        },
+      });
+
+      expect(screen.getByRole('table')).toHaveStyle({
+        gridTemplateColumns: 'min-content auto 250px',
+      });
+    });
+  });
+
+  describe('when grouping the columns', () => {
+    const groupedColumns = [
+      { key: 'title', label: 'Title' },
+      {
+        key: 'details',
+        label: 'Details',
+        children: [
+          { key: 'year', label: 'Year' },
+          { key: 'id', label: 'Id' },
+        ],
+      },
+    ];
+
+    it('should render a header spanning the columns of the group', () => {
+      render(<DataTable rows={testRows} columns={groupedColumns} />);
+
+      expect(screen.getByTestId('header-group-details')).toHaveTextContent(
+        'Details'
+      );
+      expect(screen.getByTestId('header-group-details')).toHaveAttribute(
+        'colspan',
+        '2'
+      );
+      expect(screen.getByTestId('header-year')).toBeInTheDocument();
+      expect(screen.getByTestId('header-id')).toBeInTheDocument();
+      expect(screen.queryByTestId('header-details')).not.toBeInTheDocument();
+      expect(screen.getByTestId('cell-0-year')).toHaveTextContent('2019');
+      expect(screen.getByTestId('cell-0-id')).toHaveTextContent('1-parasite');
+    });
+
+    it('should move the columns next to the groups as a whole', () => {
+      const onColumnReorder = jest.fn();
+      render(
+        <DataTable
+          rows={testRows}
+          columns={groupedColumns}
+          onColumnReorder={onColumnReorder}
+        />
+      );
+
+      expect(screen.getByTestId('header-year')).not.toHaveAttribute(
+        'draggable'
+      );
+      const dataTransfer = { setData: jest.fn() };
+      fireEvent.dragStart(screen.getByTestId('header-title'), {
+        dataTransfer,
+      });
+      fireEvent.dragOver(screen.getByTestId('header-group-details'), {
+        dataTransfer,
+      });
+      fireEvent.drop(screen.getByTestId('header-group-details'), {
+        dataTransfer,
+      });
+      expect(onColumnReorder).toHaveBeenCalledWith(['details', 'title']);
+    });
+
+    it('should count the header rows of the groups in the keyboard navigation mode', () => {
+      render(
+        <DataTable
+          rows={testRows}
+          columns={groupedColumns}
+          isKeyboardNavigable
+        />
+      );
+
+      expect(screen.getByRole('grid')).toHaveAttribute('aria-rowcount', '5');
+      expect(
+        screen.getByTestId('cell-0-title').parentElement.parentElement
+      ).toHaveAttribute('aria-rowindex', '3');
+    });
+  });
+
+  describe('when grouping the rows', () => {
+    it('should render a header with the amount of rows before each group', () => {
+      render(<DataTable {...baseProps} groupBy="year" />);
+
+      expect(screen.getByTestId('row-group-2019')).toHaveTextContent(
+        '20192 rows'
+      );
+      expect(screen.getByTestId('row-group-2018')).toHaveTextContent(
+        '20181 row'
+      );
+      // the rows are rendered below the header of their group
+      expect(screen.getByTestId('cell-0-title')).toHaveTextContent('Parasite');
+      expect(screen.getByTestId('cell-1-title')).toHaveTextContent(
+        'Uncut Gems'
+      );
+      expect(screen.getByTestId('cell-2-title')).toHaveTextContent(
+        'Woman At War'
+      );
+    });
+
+    it('should group the rows without a value under a "No value" header', () => {
+      render(
+        <DataTable
+          {...baseProps}
+          rows={[...baseProps.rows, { id: 'no-year', title: 'Untitled' }]}
+          groupBy="year"
+        />
+      );
+
+      expect(screen.getByTestId('row-group-')).toHaveTextContent(
+        'No value1 row'
+      );
+    });
+
+    it('should hide the rows of a collapsed group', () => {
+      const onCollapsedGroupKeysChange = jest.fn();
+      render(
+        <DataTable
+          {...baseProps}
+          groupBy={(row) => String(row.year)}
+          onCollapsedGroupKeysChange={onCollapsedGroupKeysChange}
+        />
+      );
+
+      fireEvent.click(
+        within(screen.getByTestId('row-group-2019')).getByLabelText(
+          'Collapse group'
+        )
+      );
+      expect(onCollapsedGroupKeysChange).toHaveBeenCalledWith(['2019']);
+      expect(screen.queryByText('Parasite')).not.toBeInTheDocument();
+      expect(screen.getByTestId('cell-0-title')).toHaveTextContent(
+        'Woman At War'
+      );
+
+      fireEvent.click(
+        within(screen.getByTestId('row-group-2019')).getByLabelText(
+          'Expand group'
+        )
+      );
+      expect(screen.getByText('Parasite')).toBeInTheDocument();
+    });
+
+    it('should render the content of the group headers with renderGroupHeader', () => {
+      render(
+        <DataTable
+          {...baseProps}
+          groupBy="year"
+          defaultCollapsedGroupKeys={['2018']}
+          renderGroupHeader={(rowGroup) =>
+            `Released in ${rowGroup.key}${
+              rowGroup.isCollapsed ? ' (collapsed)' : ''
+            }`
+          }
+        />
+      );
+
+      expect(screen.getByTestId('row-group-2019')).toHaveTextContent(
+        'Released in 2019'
+      );
+      expect(screen.getByTestId('row-group-2018')).toHaveTextContent(
+        'Released in 2018 (collapsed)'
+      );
+      expect(screen.queryByText('Woman At War')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('when aggregating the values of the columns', () => {
+    it('should render the aggregate of each column in a summary row', () => {
+      render(
+        <DataTable
+          rows={testRows}
+          columns={[
+            { key: 'title', label: 'Title', aggregate: 'count' },
+            { key: 'year', label: 'Year', aggregate: 'average' },
+            { key: 'id', label: 'Id' },
+          ]}
+        />
+      );
+
+      expect(screen.getByTestId('aggregate-title')).toHaveTextContent('3');
+      expect(screen.getByTestId('aggregate-year')).toHaveTextContent(
+        '2,018.67'
+      );
+      expect(screen.getByTestId('aggregate-id')).toBeEmptyDOMElement();
+    });
+
+    it('should render the value of a custom aggregate with renderAggregate', () => {
+      const renderAggregate = jest.fn((value) => `Latest: ${value}`);
+      render(
+        <DataTable
+          rows={testRows}
+          columns={[
+            { key: 'title', label: 'Title', aggregate: () => 'Total' },
+            {
+              key: 'year',
+              label: 'Year',
+              aggregate: (rows) => Math.max(...rows.map((row) => row.year)),
+              renderAggregate,
+            },
+          ]}
+        />
+      );
+
+      expect(screen.getByTestId('aggregate-title')).toHaveTextContent('Total');
+      expect(screen.getByTestId('aggregate-year')).toHaveTextContent(
+        'Latest: 2019'
+      );
+      expect(renderAggregate).toHaveBeenCalledWith(2019, testRows);
+    });
+
+    it('should not render the summary row without aggregates', () => {
+      render(<DataTable {...baseProps} />);
+
+      expect(screen.queryByTestId('aggregate-title')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('when loading the rows', () => {
+    it('should render placeholder rows when there are no rows yet', () => {
+      render(
+        <DataTable
+          rows={[]}
+          columns={testColumns}
+          isLoading
+          skeletonRowCount={3}
+          renderEmptyState={() => 'No movies'}
+        />
+      );
+
+      expect(screen.getAllByTestId('skeleton-row')).toHaveLength(3);
+      expect(screen.queryByTestId('empty-state')).not.toBeInTheDocument();
+      expect(screen.getByRole('table')).toHaveAttribute('aria-busy', 'true');
+    });
+
+    it('should keep the current rows visible', () => {
+      render(<DataTable {...baseProps} isLoading />);
+
+      expect(screen.queryByTestId('skeleton-row')).not.toBeInTheDocument();
+      expect(screen.getByText('Parasite')).toBeInTheDocument();
+    });
+  });
+
+  describe('when there are no rows', () => {
+    it('should render the empty state', () => {
+      render(
+        <DataTable
+          rows={[]}
+          columns={testColumns}
+          renderEmptyState={() => 'No movies'}
+        />
+      );
+
+      expect(screen.getByTestId('empty-state')).toHaveTextContent('No movies');
+    });
+  });
+
+  describe('when loading more rows on scroll', () => {
+    it('should call onLoadMore when the rows do not fill the scroll area', () => {
+      const onLoadMore = jest.fn();
+      render(
+        <DataTable
+          {...baseProps}
+          maxHeight={300}
+          hasMore
+          onLoadMore={onLoadMore}
+        />
+      );
+
+      expect(onLoadMore).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not call onLoadMore when there are no more rows', () => {
+      const onLoadMore = jest.fn();
+      render(
+        <DataTable
+          {...baseProps}
+          maxHeight={300}
+          hasMore={false}
+          onLoadMore={onLoadMore}
+        />
+      );
+
+      expect(onLoadMore).not.toHaveBeenCalled();
+    });
+
+    it('should not call onLoadMore after an error', () => {
+      const onLoadMore = jest.fn();
+      render(
+        <DataTable
+          {...baseProps}
+          maxHeight={300}
+          hasMore
+          onLoadMore={onLoadMore}
+          error={new Error('Network error')}
+        />
+      );
+
+      expect(onLoadMore).not.toHaveBeenCalled();
+    });
+
+    it('should render a loading row below the rows while loading', () => {
+      render(
+        <DataTable
+          {...baseProps}
+          maxHeight={300}
+          hasMore
+          isLoading
+          onLoadMore={jest.fn()}
+        />
+      );
+
+      expect(screen.getByTestId('loading-more-row')).toHaveTextContent(
+        'Loading more rows'
+      );
+      expect(screen.getByText('Parasite')).toBeInTheDocument();
+      expect(screen.queryByTestId('skeleton-row')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('when an error occurred', () => {
+    it('should render the error state instead of the placeholder rows', () => {
+      render(
+        <DataTable
+          rows={[]}
+          columns={testColumns}
+          isLoading
+          error={new Error('Network error')}
+          renderErrorState={(error) => `Failed: ${error.message}`}
+          renderEmptyState={() => 'No movies'}
+        />
+      );
+
+      expect(screen.getByTestId('error-state')).toHaveTextContent(
+        'Failed: Network error'
+      );
+      expect(screen.queryByTestId('skeleton-row')).not.toBeInTheDocument();
+      expect(screen.queryByTestId('empty-state')).not.toBeInTheDocument();
+    });
+
+    it('should render the error state above the current rows', () => {
+      render(
+        <DataTable
+          {...baseProps}
+          error={new Error('Network error')}
+          renderErrorState={() => 'Could not refresh the movies'}
+        />
+      );
+
+      expect(screen.getByTestId('error-state')).toBeInTheDocument();
+      expect(screen.getByText('Parasite')).toBeInTheDocument();
+    });
+  });
+
+  describe('when navigating with the keyboard', () => {
+    const getCell = (rowIndex, columnKey) =>
+      screen.getByTestId(`cell-${rowIndex}-${columnKey}`).parentElement;
+
+    it('should render the table as a grid with a single tabbable cell', () => {
+      render(<DataTable {...baseProps} isKeyboardNavigable />);
+
+      expect(screen.getByRole('grid')).toHaveAttribute('aria-rowcount', '4');
+      expect(getCell(0, 'title')).toHaveAttribute('tabindex', '0');
+      expect(getCell(0, 'year')).toHaveAttribute('tabindex', '-1');
+      expect(screen.getByTestId('header-title')).toHaveAttribute(
+        'tabindex',
+        '-1'
+      );
+    });
+
+    it('should move the focus between the cells with the arrow keys', () => {
+      render(<DataTable {...baseProps} isKeyboardNavigable />);
+
+      getCell(0, 'title').focus();
+      fireEvent.keyDown(getCell(0, 'title'), { key: 'ArrowRight' });
+      expect(getCell(0, 'year')).toHaveFocus();
+      fireEvent.keyDown(getCell(0, 'year'), { key: 'ArrowDown' });
+      expect(getCell(1, 'year')).toHaveFocus();
+      expect(getCell(1, 'year')).toHaveAttribute('tabindex', '0');
+      expect(getCell(0, 'title')).toHaveAttribute('tabindex', '-1');
+      fireEvent.keyDown(getCell(1, 'year'), { key: 'Home', ctrlKey: true });
+      expect(getCell(0, 'title')).toHaveFocus();
+      fireEvent.keyDown(getCell(0, 'title'), { key: 'ArrowUp' });
+      expect(screen.getByTestId('header-title')).toHaveFocus();
+    });
+
+    it('should call onRowClick when pressing Enter on a cell', () => {
+      const rowClickEvent = jest.fn();
+      render(
+        <DataTable
+          {...baseProps}
+          isKeyboardNavigable
+          onRowClick={rowClickEvent}
+        />
+      );
+
+      fireEvent.keyDown(getCell(1, 'year'), { key: 'Enter' });
+      expect(rowClickEvent).toHaveBeenCalledWith(testRows[1], 1, 'year');
+    });
+
+    it('should focus the content of the cells which ignore the row click', () => {
+      const rowClickEvent = jest.fn();
+      render(
+        <DataTable
+          {...baseProps}
+          columns={[
+            ...testColumns,
+            {
+              key: 'actions',
+              label: 'Actions',
+              shouldIgnoreRowClick: true,
+              renderItem: (row) => (
+                <button type="button">Edit {row.title}</button>
+              ),
+            },
+          ]}
+          isKeyboardNavigable
+          onRowClick={rowClickEvent}
+        />
+      );
+
+      fireEvent.keyDown(getCell(0, 'actions'), { key: 'Enter' });
+      expect(rowClickEvent).not.toHaveBeenCalled();
+      expect(screen.getByText('Edit Parasite')).toHaveFocus();
+
+      fireEvent.keyDown(screen.getByText('Edit Parasite'), { key: 'Escape' });
+      expect(getCell(0, 'actions')).toHaveFocus();
+    });
+
+    it('should only reach the content of the cells with the Tab key while interacting with them', () => {
+      // the elements which can be reached with the Tab key, in the order of the document
+      const getTabStops = () =>
+        Array.from(
+          screen
+            .getByRole('grid')
+            .querySelectorAll('a[href], button, input, [tabindex]')
+        ).filter((element) => !element.disabled && element.tabIndex >= 0);
+      render(
+        <DataTable
+          {...baseProps}
+          columns={testColumns.map((column) => ({
+            ...column,
+            isSortable: true,
+          }))}
+          onSortChange={jest.fn()}
+          onSelectionChange={jest.fn()}
+          isKeyboardNavigable
+        />
+      );
+
+      const checkboxCell = screen
+        .getAllByLabelText('Select row')[0]
+        .closest('td');
+      expect(getTabStops()).toEqual([checkboxCell]);
+
+      act(() => {
+        checkboxCell.focus();
+      });
+      fireEvent.keyDown(checkboxCell, { key: 'Enter' });
+      expect(screen.getAllByLabelText('Select row')[0]).toHaveFocus();
+      expect(getTabStops()).toEqual([
+        checkboxCell,
+        screen.getAllByLabelText('Select row')[0],
+      ]);
+
+      fireEvent.keyDown(screen.getAllByLabelText('Select row')[0], {
+        key: 'Escape',
+      });
+      expect(getTabStops()).toEqual([checkboxCell]);
+    });
+  });
+
+  describe('when copying ranges of cells', () => {
+    const getCell = (rowIndex, columnKey) =>
+      screen.getByTestId(`cell-${rowIndex}-${columnKey}`).parentElement;
+    const copy = (element) => {
+      const clipboardData = { setData: jest.fn() };
+      fireEvent.copy(element, { clipboardData });
+      return clipboardData.setData;
+    };
+
+    it('should copy the cells selected with click and shift-click as tab-separated values', () => {
+      render(<DataTable {...baseProps} isCellRangeSelectable />);
+
+      fireEvent.mouseDown(getCell(0, 'title'));
+      fireEvent.mouseDown(getCell(1, 'year'), { shiftKey: true });
+      expect(copy(getCell(0, 'title'))).toHaveBeenCalledWith(
+        'text/plain',
+        'Parasite\t2019\nWoman At War\t2018'
+      );
+    });
+
+    it('should use the text serializer of the columns', () => {
+      render(
+        <DataTable
+          rows={testRows}
+          columns={[
+            {
+              key: 'title',
+              label: 'Title',
+              renderItem: (row) => <strong>{row.title}</strong>,
+              getTextValue: (row) => `${row.title} (${row.year})`,
+            },
+          ]}
+          isCellRangeSelectable
+        />
+      );
+
+      fireEvent.mouseDown(getCell(2, 'title'));
+      expect(copy(getCell(2, 'title'))).toHaveBeenCalledWith(
+        'text/plain',
+        'Uncut Gems (2019)'
+      );
+    });
+
+    it('should extend the selection with the keyboard', () => {
+      render(
+        <DataTable {...baseProps} isKeyboardNavigable isCellRangeSelectable />
+      );
+
+      act(() => {
+        getCell(0, 'year').focus();
+      });
+      fireEvent.mouseDown(getCell(0, 'year'));
+      fireEvent.keyDown(getCell(0, 'year'), {
+        key: 'ArrowDown',
+        shiftKey: true,
+      });
+      fireEvent.keyDown(getCell(1, 'year'), {
+        key: 'ArrowDown',
+        shiftKey: true,
+      });
+      expect(getCell(0, 'year')).toHaveAttribute('aria-selected', 'true');
+      expect(getCell(2, 'year')).toHaveAttribute('aria-selected', 'true');
+      expect(getCell(0, 'title')).toHaveAttribute('aria-selected', 'false');
+      expect(copy(getCell(2, 'year'))).toHaveBeenCalledWith(
+        'text/plain',
+        '2019\n2018\n2019'
+      );
+
+      // moving without holding Shift starts a new selection
+      fireEvent.keyDown(getCell(2, 'year'), { key: 'ArrowLeft' });
+      expect(getCell(0, 'year')).toHaveAttribute('aria-selected', 'false');
+      expect(getCell(2, 'title')).toHaveAttribute('aria-selected', 'true');
+    });
+
+    it('should not handle the copy events without selecting cells', () => {
+      render(<DataTable {...baseProps} />);
+
+      fireEvent.mouseDown(getCell(0, 'title'));
+      expect(copy(getCell(0, 'title'))).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('when editing cells', () => {
+    const getCell = (rowIndex, columnKey) =>
+      screen.getByTestId(`cell-${rowIndex}-${columnKey}`).parentElement;
+    const editableColumns = [
+      {
+        key: 'title',
+        label: 'Title',
+        renderEditor: (row, commit, cancel) => (
+          <input
+            aria-label="Edit title"
+            defaultValue={row.title}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') commit(event.target.value);
+            }}
+          />
+        ),
+      },
+      { key: 'year', label: 'Year' },
+    ];
+
+    it('should render the editor when double-clicking a cell', () => {
+      render(<DataTable {...baseProps} columns={editableColumns} />);
+
+      expect(screen.queryByLabelText('Edit title')).not.toBeInTheDocument();
+      fireEvent.doubleClick(getCell(1, 'title'));
+      expect(screen.getByLabelText('Edit title')).toHaveValue('Woman At War');
+      expect(screen.getByLabelText('Edit title')).toHaveFocus();
+    });
+
+    it('should call onCellEditCommit with the committed value', () => {
+      const onCellEditCommit = jest.fn();
+      render(
+        <DataTable
+          {...baseProps}
+          columns={editableColumns}
+          onCellEditCommit={onCellEditCommit}
+        />
+      );
+
+      fireEvent.doubleClick(getCell(0, 'title'));
+      fireEvent.change(screen.getByLabelText('Edit title'), {
+        target: { value: 'Parasite (2019)' },
+      });
+      fireEvent.keyDown(screen.getByLabelText('Edit title'), { key: 'Enter' });
+      expect(onCellEditCommit).toHaveBeenCalledWith(
+        testRows[0],
+        'title',
+        'Parasite (2019)'
+      );
+      expect(screen.queryByLabelText('Edit title')).not.toBeInTheDocument();
+      expect(getCell(0, 'title')).toHaveFocus();
+    });
+
+    it('should start editing with Enter and cancel with Escape', () => {
+      const onCellEditCommit = jest.fn();
+      render(
+        <DataTable
+          {...baseProps}
+          columns={editableColumns}
+          onCellEditCommit={onCellEditCommit}
+        />
+      );
+
+      expect(getCell(0, 'title')).toHaveAttribute('tabindex', '0');
+      expect(getCell(0, 'year')).not.toHaveAttribute('tabindex');
+      fireEvent.keyDown(getCell(0, 'title'), { key: 'Enter' });
+      expect(screen.getByLabelText('Edit title')).toHaveFocus();
+
+      fireEvent.keyDown(screen.getByLabelText('Edit title'), {
+        key: 'Escape',
+      });
+      expect(screen.queryByLabelText('Edit title')).not.toBeInTheDocument();
+      expect(getCell(0, 'title')).toHaveFocus();
+      expect(onCellEditCommit).not.toHaveBeenCalled();
+    });
+
+    it('should start editing instead of calling onRowClick in the keyboard navigation mode', () => {
+      const rowClickEvent = jest.fn();
+      render(
+        <DataTable
+          {...baseProps}
+          columns={editableColumns}
+          isKeyboardNavigable
+          onRowClick={rowClickEvent}
+        />
+      );
+
+      fireEvent.click(getCell(0, 'title'));
+      fireEvent.keyDown(getCell(0, 'title'), { key: 'Enter' });
+      expect(rowClickEvent).not.toHaveBeenCalled();
+      expect(screen.getByLabelText('Edit title')).toHaveFocus();
+
+      fireEvent.keyDown(getCell(0, 'year'), { key: 'Enter' });
+      expect(rowClickEvent).toHaveBeenCalledWith(testRows[0], 0, 'year');
+    });
+  });
+
+  describe('when selecting rows', () => {
+    it('should select a row when clicking its checkbox', () => {
+      const onSelectionChange = jest.fn();
+      render(
+        <DataTable {...baseProps} onSelectionChange={onSelectionChange} />
+      );
+
+      fireEvent.click(screen.getAllByLabelText('Select row')[1]);
+      expect(onSelectionChange).toHaveBeenCalledWith(['2-woman']);
+      expect(screen.getAllByLabelText('Select row')[1]).toBeChecked();
+      expect(
+        screen.getByLabelText('Select all rows on this page').indeterminate
+      ).toBe(true);
+    });
+
+    it('should select all the rows of the page from the header checkbox', () => {
+      const onSelectionChange = jest.fn();
+      render(
+        <DataTable
+          {...baseProps}
+          selectedRowIds={['2-woman']}
+          onSelectionChange={onSelectionChange}
+        />
+      );
+
+      fireEvent.click(screen.getByLabelText('Select all rows on this page'));
+      expect(onSelectionChange).toHaveBeenCalledWith([
+        '2-woman',
+        '1-parasite',
+        '3-gems',
+      ]);
+    });
+
+    it('should select a range of rows when shift-clicking', () => {
+      const onSelectionChange = jest.fn();
+      render(
+        <DataTable {...baseProps} onSelectionChange={onSelectionChange} />
+      );
+
+      fireEvent.click(screen.getAllByLabelText('Select row')[0]);
+      fireEvent.click(screen.getAllByLabelText('Select row')[2], {
+        shiftKey: true,
+      });
+      expect(onSelectionChange).toHaveBeenLastCalledWith([
+        '1-parasite',
+        '2-woman',
+        '3-gems',
+      ]);
+    });
+
+    it('should keep the selected rows of other pages', () => {
+      const onSelectionChange = jest.fn();
+      render(
+        <DataTable
+          {...baseProps}
+          selectedRowIds={['other-page-row', '1-parasite']}
+          onSelectionChange={onSelectionChange}
+        />
+      );
+
+      fireEvent.click(screen.getAllByLabelText('Select row')[0]);
+      expect(onSelectionChange).toHaveBeenCalledWith(['other-page-row']);
+    });
+
+    it('should not call onRowClick when selecting a row', () => {
+      const rowClickEvent = jest.fn();
+      render(
+        <DataTable
+          {...baseProps}
+          onSelectionChange={jest.fn()}
+          onRowClick={rowClickEvent}
+        />
+      );
+
+      fireEvent.click(screen.getAllByLabelText('Select row')[0]);
+      expect(rowClickEvent).not.toHaveBeenCalled();
+    });
+
+    it('should offer to select the rows of all the pages', () => {
+      const onAllRowsSelectionChange = jest.fn();
+      render(
+        <DataTable
+          {...baseProps}
+          selectedRowIds={testRows.map((row) => row.id)}
+          onSelectionChange={jest.fn()}
+          totalRowCount={30}
+          onAllRowsSelectionChange={onAllRowsSelectionChange}
+        />
+      );
+
+      expect(
+        screen.getByText('All 3 rows on this page are selected.')
+      ).toBeInTheDocument();
+      fireEvent.click(
+        screen.getByRole('button', { name: 'Select all 30 rows' })
+      );
+      expect(onAllRowsSelectionChange).toHaveBeenCalledWith(true);
+    });
+
+    it('should allow clearing the selection of all the pages', () => {
+      const onSelectionChange = jest.fn();
+      const onAllRowsSelectionChange = jest.fn();
+      render(
+        <DataTable
+          {...baseProps}
+          selectedRowIds={[]}
+          onSelectionChange={onSelectionChange}
+          totalRowCount={30}
+          areAllRowsSelected
+          onAllRowsSelectionChange={onAllRowsSelectionChange}
+        />
+      );
+
+      expect(screen.getAllByLabelText('Select row')[2]).toBeChecked();
+      expect(screen.getByText('All 30 rows are selected.')).toBeInTheDocument();
+      fireEvent.click(screen.getByRole('button', { name: 'Clear selection' }));
+      expect(onAllRowsSelectionChange).toHaveBeenCalledWith(false);
+      expect(onSelectionChange).toHaveBeenCalledWith([]);
+    });
+  });
+
+  describe('when virtualizing the rows', () => {
+    const manyRows = Array.from({ length: 1000 }, (_, index) => ({
+      id: `row-${index}`,
+      title: `Title ${index}`,
+      year: 2000 + (index % 20),
+    }));
+
+    it('should only render a window of the rows', () => {
+      render(
+        <DataTable
+          rows={manyRows}
+          columns={testColumns}
+          maxHeight={300}
+          isVirtualized
+          overscanRowCount={2}
+        />
+      );
+
+      expect(screen.getByText('Title 0')).toBeInTheDocument();
+      expect(screen.getByText('Title 2')).toBeInTheDocument();
+      expect(screen.queryByText('Title 3')).not.toBeInTheDocument();
+      expect(screen.queryByText('Title 999')).not.toBeInTheDocument();
+    });
+
+    it('should keep the row index when clicking a virtualized row', () => {
+      const rowClickEvent = jest.fn();
+      render(
+        <DataTable
+          rows={manyRows}
+          columns={testColumns}
+          maxHeight={300}
+          isVirtualized
+          onRowClick={rowClickEvent}
+        />
+      );
+
+      screen.getByText('Title 1').click();
+      expect(rowClickEvent).toHaveBeenLastCalledWith(manyRows[1], 1, 'title');
+    });
+
+    it('should render all the rows when "maxHeight" is not set', () => {
+      render(<DataTable rows={manyRows.slice(0, 50)} columns={testColumns} />);
+
+      expect(screen.getByText('Title 49')).toBeInTheDocument();
+    });
+  });
+
   describe('when passing a headerIcon on a column', () => {
     const testColumnsWithHeaderIcon = [
       ...testColumns,
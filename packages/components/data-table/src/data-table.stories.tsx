@@ -1,12 +1,17 @@
-import { useMemo, useState } from 'react';
+import { useMemo, useRef, useState } from 'react';
 import type { Meta, StoryFn } from '@storybook/react-vite';
-import DataTable, { type TColumn } from './data-table';
+import DataTable, { type TColumn, type TDataTableActions } from './data-table';
+import getDataTableExportText from './get-data-table-export-text';
 
 import CheckboxInput from '../../inputs/checkbox-input';
+import TextInput from '../../inputs/text-input';
+import NumberInput from '../../inputs/number-input';
 
 import IconButton from '../../buttons/icon-button';
+import SecondaryButton from '../../buttons/secondary-button';
 import { InformationIcon } from '../../icons';
 import Spacings from '@commercetools-uikit/spacings';
+import { useSorting } from '@commercetools-uikit/hooks';
 
 const meta: Meta<typeof DataTable> = {
   title: 'components/DataTable',
@@ -203,7 +208,6 @@ export const BasicExample: Story = (args) => {
           sortedBy={sort.key}
           sortDirection={sort.dir}
           onSortChange={onSortRequest}
-          // @ts-ignore
           onColumnResized={(sizes) => setColumnSizes([...sizes])}
         />
 
@@ -279,3 +283,786 @@ BasicExample.args = {
   ],
   footer: <div>Display any React component as footer.</div>,
 };
+
+const manyItems: FakeItem[] = Array.from({ length: 5000 }, (_, index) => ({
+  ...items[index % items.length],
+  id: `${items[index % items.length].id}-${index}`,
+  name: `${items[index % items.length].name} #${index + 1}`,
+}));
+
+/**
+ * This example renders 5000 rows, but only the rows visible in the scroll area
+ * of the table (plus a few overscan rows) are mounted.
+ */
+export const VirtualizedRows: Story = (args) => (
+  <DataTable {...args} rows={manyItems} />
+);
+
+VirtualizedRows.args = {
+  isVirtualized: true,
+  maxHeight: 480,
+  columns: [
+    { key: 'name', label: 'Name', width: '240px' },
+    { key: 'phone', label: 'Phone', width: '200px' },
+    { key: 'age', label: 'Age', width: '80px', align: 'center' },
+    {
+      key: 'about',
+      label: 'About',
+      width: 'minmax(200px, 1fr)',
+      isTruncated: true,
+    },
+  ],
+};
+
+const PAGE_SIZE = 30;
+
+/**
+ * This example loads the rows in pages of 30 rows from a fake cursor-based API,
+ * as the table is scrolled near the end of its scroll area.
+ */
+export const InfiniteScroll: Story = (args) => {
+  const [rows, setRows] = useState<FakeItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const hasMore = rows.length < 300;
+
+  const loadMore = () => {
+    setIsLoading(true);
+    setTimeout(() => {
+      setRows((currentRows) =>
+        manyItems.slice(0, currentRows.length + PAGE_SIZE)
+      );
+      setIsLoading(false);
+    }, 1000);
+  };
+
+  return (
+    <DataTable
+      {...args}
+      rows={rows}
+      isLoading={isLoading}
+      hasMore={hasMore}
+      onLoadMore={loadMore}
+    />
+  );
+};
+
+InfiniteScroll.args = {
+  maxHeight: 480,
+  columns: [
+    { key: 'name', label: 'Name', width: '240px' },
+    { key: 'phone', label: 'Phone', width: '200px' },
+    { key: 'age', label: 'Age', width: '80px', align: 'center' },
+  ],
+};
+
+/**
+ * This example renders the details of a row in a nested row, which is shown
+ * below the row when it is expanded through the toggle in the first column.
+ */
+export const NestedRows: Story = (args) => {
+  const [expandedRowIds, setExpandedRowIds] = useState<string[]>([]);
+
+  return (
+    <DataTable
+      {...args}
+      rows={items}
+      expandedRowIds={expandedRowIds}
+      onExpandedRowIdsChange={setExpandedRowIds}
+      renderNestedRow={(row) => (
+        <Spacings.Inset scale="m">
+          <Spacings.Stack scale="s">
+            <strong>About {(row as FakeItem).name}</strong>
+            <div>{(row as FakeItem).about}</div>
+          </Spacings.Stack>
+        </Spacings.Inset>
+      )}
+    />
+  );
+};
+
+NestedRows.args = {
+  maxExpandableHeight: 120,
+  columns: [
+    { key: 'name', label: 'Name' },
+    { key: 'phone', label: 'Phone' },
+    { key: 'age', label: 'Age', align: 'center' },
+  ],
+};
+
+type FakeCategory = {
+  id: string;
+  name: string;
+  productCount: number;
+  children?: FakeCategory[];
+};
+
+const categories: FakeCategory[] = [
+  {
+    id: 'clothing',
+    name: 'Clothing',
+    productCount: 120,
+    children: [
+      {
+        id: 'shirts',
+        name: 'Shirts',
+        productCount: 70,
+        children: [
+          { id: 'polos', name: 'Polos', productCount: 25 },
+          { id: 'dress-shirts', name: 'Dress shirts', productCount: 45 },
+        ],
+      },
+      { id: 'trousers', name: 'Trousers', productCount: 50 },
+    ],
+  },
+  { id: 'accessories', name: 'Accessories', productCount: 30 },
+  // the children of this category are loaded once it's expanded
+  { id: 'shoes', name: 'Shoes', productCount: 80 },
+];
+
+const lazyCategoryChildren: FakeCategory[] = [
+  { id: 'sneakers', name: 'Sneakers', productCount: 55 },
+  { id: 'boots', name: 'Boots', productCount: 25 },
+];
+
+// the rows are sorted within each level of the tree
+const sortCategories = (
+  rows: FakeCategory[],
+  sortedBy: keyof FakeCategory,
+  sortDirection: 'asc' | 'desc'
+): FakeCategory[] =>
+  [...rows]
+    .sort(
+      (a, b) =>
+        (a[sortedBy]! > b[sortedBy]! ? 1 : -1) *
+        (sortDirection === 'asc' ? 1 : -1)
+    )
+    .map((row) => ({
+      ...row,
+      children:
+        row.children && sortCategories(row.children, sortedBy, sortDirection),
+    }));
+
+export const TreeData: Story = (args) => {
+  const [rows, setRows] = useState(categories);
+  const [expandedRowIds, setExpandedRowIds] = useState<string[]>([]);
+  const [sorting, setSorting] = useState<{
+    sortedBy: keyof FakeCategory;
+    sortDirection: 'asc' | 'desc';
+  }>({ sortedBy: 'name', sortDirection: 'asc' });
+
+  const loadRowChildren = (row: FakeCategory) => {
+    setTimeout(() => {
+      setRows((currentRows) =>
+        currentRows.map((currentRow) =>
+          currentRow.id === row.id
+            ? { ...currentRow, children: lazyCategoryChildren }
+            : currentRow
+        )
+      );
+    }, 1000);
+  };
+
+  return (
+    <DataTable
+      {...args}
+      rows={sortCategories(rows, sorting.sortedBy, sorting.sortDirection)}
+      treeColumnKey="name"
+      getRowHasChildren={(row) =>
+        row.id === 'shoes' || Boolean((row as FakeCategory).children)
+      }
+      onLoadRowChildren={(row) => loadRowChildren(row as FakeCategory)}
+      expandedRowIds={expandedRowIds}
+      onExpandedRowIdsChange={setExpandedRowIds}
+      sortedBy={sorting.sortedBy}
+      sortDirection={sorting.sortDirection}
+      onSortChange={(sortedBy, sortDirection) =>
+        setSorting({ sortedBy: sortedBy as keyof FakeCategory, sortDirection })
+      }
+    />
+  );
+};
+
+TreeData.args = {
+  columns: [
+    { key: 'name', label: 'Name', isSortable: true },
+    {
+      key: 'productCount',
+      label: 'Products',
+      align: 'right',
+      isSortable: true,
+    },
+  ],
+};
+
+export const ActiveRowAndTones: Story = (args) => {
+  const [activeRowId, setActiveRowId] = useState<string>();
+  const activeItem = items.find((item) => item.id === activeRowId);
+
+  return (
+    <Spacings.Inline scale="m">
+      <DataTable
+        {...args}
+        rows={items}
+        activeRowId={activeRowId}
+        onRowClick={(row) => setActiveRowId(row.id)}
+        // the younger people are muted, and the older ones need attention
+        getRowTone={(row) => {
+          const { age } = row as FakeItem;
+          if (age < 25) return 'muted';
+          if (age > 35) return 'warning';
+          return undefined;
+        }}
+      />
+      <Spacings.Inset scale="m">
+        {activeItem ? (
+          <Spacings.Stack scale="s">
+            <strong>{activeItem.name}</strong>
+            <div>{activeItem.about}</div>
+          </Spacings.Stack>
+        ) : (
+          'Click a row to show its details.'
+        )}
+      </Spacings.Inset>
+    </Spacings.Inline>
+  );
+};
+
+ActiveRowAndTones.args = {
+  maxHeight: 400,
+  columns: [
+    { key: 'name', label: 'Name' },
+    { key: 'phone', label: 'Phone' },
+    { key: 'age', label: 'Age', align: 'center' },
+  ],
+};
+
+export const RowSelection: Story = (args) => {
+  const [selectedRowIds, setSelectedRowIds] = useState<string[]>([]);
+  const [areAllRowsSelected, setAreAllRowsSelected] = useState(false);
+
+  return (
+    <Spacings.Stack scale="m">
+      <div>
+        {areAllRowsSelected
+          ? `All ${args.totalRowCount} rows are selected`
+          : `Selected rows: ${selectedRowIds.join(', ') || 'none'}`}
+      </div>
+      <DataTable
+        {...args}
+        rows={items}
+        selectedRowIds={selectedRowIds}
+        onSelectionChange={setSelectedRowIds}
+        areAllRowsSelected={areAllRowsSelected}
+        onAllRowsSelectionChange={setAreAllRowsSelected}
+      />
+    </Spacings.Stack>
+  );
+};
+
+RowSelection.args = {
+  totalRowCount: 250,
+  columns: [
+    { key: 'name', label: 'Name' },
+    { key: 'phone', label: 'Phone' },
+    { key: 'age', label: 'Age', align: 'center' },
+  ],
+};
+
+const itemsWithTeam = items.map((item, index) => ({
+  ...item,
+  team: index % 3 === 0 ? 'Design' : 'Engineering',
+}));
+
+export const MultiColumnSorting: Story = (args) => {
+  const {
+    items: sortedItems,
+    sortDescriptors,
+    onSortChange,
+  } = useSorting(itemsWithTeam, [
+    { key: 'team', order: 'asc' },
+    { key: 'age', order: 'desc' },
+  ]);
+
+  return (
+    <Spacings.Stack scale="m">
+      <div>
+        Hold the Shift key while clicking a header to add it to the sorting.
+      </div>
+      <DataTable
+        {...args}
+        rows={sortedItems}
+        sortDescriptors={sortDescriptors}
+        onSortChange={onSortChange}
+      />
+    </Spacings.Stack>
+  );
+};
+
+MultiColumnSorting.args = {
+  columns: [
+    { key: 'name', label: 'Name', isSortable: true },
+    { key: 'team', label: 'Team', isSortable: true },
+    { key: 'age', label: 'Age', align: 'center', isSortable: true },
+  ],
+};
+
+export const PinnedColumns: Story = (args) => (
+  <DataTable {...args} rows={items} onSelectionChange={() => {}} />
+);
+
+PinnedColumns.args = {
+  maxWidth: 600,
+  maxHeight: 400,
+  columns: [
+    { key: 'name', label: 'Name', pin: 'left', width: '180px' },
+    { key: 'phone', label: 'Phone', width: '200px' },
+    { key: 'about', label: 'About', width: '400px', isTruncated: true },
+    { key: 'age', label: 'Age', align: 'center', width: '100px' },
+    {
+      key: 'actions',
+      label: 'Actions',
+      pin: 'right',
+      shouldIgnoreRowClick: true,
+      renderItem: () => (
+        <IconButton
+          icon={<InformationIcon />}
+          label="More information"
+          size="small"
+        />
+      ),
+    },
+  ],
+};
+
+export const GroupedColumns: Story = (args) => (
+  <DataTable {...args} rows={items} />
+);
+
+GroupedColumns.args = {
+  maxWidth: 800,
+  maxHeight: 400,
+  columns: [
+    { key: 'name', label: 'Name', pin: 'left', width: '180px' },
+    {
+      key: 'details',
+      label: 'Details',
+      children: [
+        { key: 'age', label: 'Age', align: 'center', width: '100px' },
+        {
+          key: 'contact',
+          label: 'Contact',
+          children: [
+            { key: 'phone', label: 'Phone', width: '200px' },
+            { key: 'about', label: 'About', width: '400px', isTruncated: true },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+export const RowGrouping: Story = (args) => {
+  // the groups follow the order of the rows, so the rows are sorted by the grouping value first
+  const rowsSortedByAge = useMemo(
+    () => [...items].sort((a, b) => a.age - b.age),
+    []
+  );
+
+  return (
+    <DataTable
+      {...args}
+      rows={rowsSortedByAge}
+      groupBy={(row) => `${Math.floor((row as FakeItem).age / 10) * 10}s`}
+    />
+  );
+};
+
+RowGrouping.args = {
+  maxHeight: 400,
+  columns: [
+    { key: 'name', label: 'Name' },
+    { key: 'phone', label: 'Phone' },
+    { key: 'age', label: 'Age', align: 'center' },
+  ],
+};
+
+export const AggregateFooter: Story = (args) => (
+  <DataTable {...args} rows={items} />
+);
+
+AggregateFooter.args = {
+  maxHeight: 300,
+  columns: [
+    {
+      key: 'name',
+      label: 'Name',
+      aggregate: 'count',
+      renderAggregate: (count) => `${count} people`,
+    },
+    { key: 'phone', label: 'Phone' },
+    {
+      key: 'age',
+      label: 'Average age',
+      align: 'right',
+      aggregate: 'average',
+    },
+    {
+      key: 'ageRange',
+      label: 'Age range',
+      align: 'right',
+      renderItem: (row) => (row as FakeItem).age,
+      aggregate: (rows) => {
+        const ages = rows.map((row) => (row as FakeItem).age);
+        return `${Math.min(...ages)} - ${Math.max(...ages)}`;
+      },
+    },
+  ],
+};
+
+export const LoadingAndEmptyStates: Story = (args) => {
+  const [rows, setRows] = useState<FakeItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error>();
+
+  const loadRows = (shouldFail: boolean) => {
+    setIsLoading(true);
+    setError(undefined);
+    setTimeout(() => {
+      setIsLoading(false);
+      if (shouldFail) {
+        setError(new Error('The server could not be reached.'));
+      } else {
+        setRows(items);
+      }
+    }, 1500);
+  };
+
+  return (
+    <Spacings.Stack scale="m">
+      <Spacings.Inline scale="s">
+        <SecondaryButton label="Load rows" onClick={() => loadRows(false)} />
+        <SecondaryButton
+          label="Load rows with an error"
+          onClick={() => loadRows(true)}
+        />
+        <SecondaryButton label="Clear rows" onClick={() => setRows([])} />
+      </Spacings.Inline>
+      <DataTable
+        {...args}
+        rows={rows}
+        isLoading={isLoading}
+        error={error}
+        renderEmptyState={() => 'There are no rows yet.'}
+        renderErrorState={(loadingError) =>
+          `The rows could not be loaded: ${loadingError.message}`
+        }
+      />
+    </Spacings.Stack>
+  );
+};
+
+LoadingAndEmptyStates.args = {
+  maxHeight: 400,
+  columns: [
+    { key: 'name', label: 'Name', width: '200px' },
+    { key: 'phone', label: 'Phone', width: '200px' },
+    { key: 'age', label: 'Age', align: 'center', width: '100px' },
+  ],
+};
+
+export const FitColumnsToContent: Story = (args) => {
+  const actionsRef = useRef<TDataTableActions>(null);
+
+  return (
+    <Spacings.Stack scale="m">
+      <div>
+        Double-click the resizer of a column header to fit the column to its
+        content. The resizers can also be focused, and moved with the arrow keys
+        (hold Shift to resize in larger steps).
+      </div>
+      <Spacings.Inline scale="s">
+        <SecondaryButton
+          label="Fit all columns"
+          onClick={() => actionsRef.current?.fitAllColumnsToContent()}
+        />
+      </Spacings.Inline>
+      <DataTable {...args} rows={items} actionsRef={actionsRef} />
+    </Spacings.Stack>
+  );
+};
+
+FitColumnsToContent.args = {
+  maxHeight: 400,
+  columns: [
+    { key: 'name', label: 'Name', width: '100px', isTruncated: true },
+    { key: 'phone', label: 'Phone', width: '100px', isTruncated: true },
+    { key: 'age', label: 'Age', align: 'center', width: '200px' },
+  ],
+};
+
+const reorderableColumns: TColumn<FakeItem>[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'age', label: 'Age', align: 'center' },
+];
+
+export const ColumnReordering: Story = (args) => {
+  const [columnKeys, setColumnKeys] = useState(
+    reorderableColumns.map((column) => column.key)
+  );
+  const orderedColumns = columnKeys.map(
+    (columnKey) =>
+      reorderableColumns.find((column) => column.key === columnKey)!
+  );
+
+  return (
+    <Spacings.Stack scale="m">
+      <div>Drag the column headers to reorder the columns.</div>
+      <DataTable
+        {...args}
+        rows={items}
+        columns={orderedColumns as TColumn[]}
+        onColumnReorder={setColumnKeys}
+      />
+    </Spacings.Stack>
+  );
+};
+
+export const RowReordering: Story = (args) => {
+  const [rows, setRows] = useState(items.slice(0, 10));
+
+  const reorderRows = (fromIndex: number, toIndex: number) => {
+    const reorderedRows = [...rows];
+    const [movedRow] = reorderedRows.splice(fromIndex, 1);
+    reorderedRows.splice(toIndex, 0, movedRow);
+    setRows(reorderedRows);
+  };
+
+  return (
+    <Spacings.Stack scale="m">
+      <div>
+        Drag the handles to reorder the rows, or focus a handle and press the up
+        and down arrow keys.
+      </div>
+      <DataTable
+        {...args}
+        rows={rows}
+        columns={reorderableColumns as TColumn[]}
+        onRowReorder={reorderRows}
+      />
+    </Spacings.Stack>
+  );
+};
+
+export const KeyboardNavigation: Story = (args) => {
+  const [clickedRowName, setClickedRowName] = useState<string>();
+
+  return (
+    <Spacings.Stack scale="m">
+      <div>
+        Use the arrow keys, Home, End, PageUp and PageDown to move between the
+        cells, and Enter to open a row.
+      </div>
+      <div>Last opened row: {clickedRowName || 'none'}</div>
+      <DataTable
+        {...args}
+        rows={items}
+        isKeyboardNavigable
+        onRowClick={(row) => setClickedRowName((row as FakeItem).name)}
+      />
+    </Spacings.Stack>
+  );
+};
+
+KeyboardNavigation.args = {
+  maxHeight: 300,
+  columns: [
+    { key: 'name', label: 'Name' },
+    { key: 'phone', label: 'Phone' },
+    { key: 'age', label: 'Age', align: 'center' },
+    {
+      key: 'actions',
+      label: 'Actions',
+      shouldIgnoreRowClick: true,
+      renderItem: () => (
+        <IconButton
+          icon={<InformationIcon />}
+          label="More information"
+          size="small"
+        />
+      ),
+    },
+  ],
+};
+
+type TCellEditorProps = {
+  value: string;
+  onCommit: (value: string) => void;
+  isNumber?: boolean;
+};
+
+const CellEditor = (props: TCellEditorProps) => {
+  const [value, setValue] = useState(props.value);
+  const Input = props.isNumber ? NumberInput : TextInput;
+
+  return (
+    <div
+      onKeyDown={(event) => {
+        if (event.key === 'Enter') props.onCommit(value);
+      }}
+    >
+      <Input
+        value={value}
+        onChange={(event) => setValue(event.target.value)}
+        onBlur={() => props.onCommit(value)}
+        isAutofocussed
+      />
+    </div>
+  );
+};
+
+export const InlineEditing: Story = (args) => {
+  const [rows, setRows] = useState(items);
+
+  return (
+    <Spacings.Stack scale="m">
+      <div>
+        Double-click a name or an age (or press Enter on it) to edit it, and
+        press Escape to cancel.
+      </div>
+      <DataTable
+        {...args}
+        rows={rows}
+        onCellEditCommit={(row, columnKey, value) =>
+          setRows((currentRows) =>
+            currentRows.map((currentRow) =>
+              currentRow.id === row.id
+                ? {
+                    ...currentRow,
+                    [columnKey]:
+                      columnKey === 'age' ? Number(value) : String(value),
+                  }
+                : currentRow
+            )
+          )
+        }
+      />
+    </Spacings.Stack>
+  );
+};
+
+InlineEditing.args = {
+  maxHeight: 300,
+  columns: [
+    {
+      key: 'name',
+      label: 'Name',
+      width: '250px',
+      renderEditor: (row, commit) => (
+        <CellEditor value={(row as FakeItem).name} onCommit={commit} />
+      ),
+    },
+    { key: 'phone', label: 'Phone' },
+    {
+      key: 'age',
+      label: 'Age',
+      width: '120px',
+      renderEditor: (row, commit) => (
+        <CellEditor
+          value={String((row as FakeItem).age)}
+          onCommit={commit}
+          isNumber
+        />
+      ),
+    },
+  ],
+};
+
+export const CopyCellRanges: Story = (args) => (
+  <Spacings.Stack scale="m">
+    <div>
+      Click a cell and shift-click another one (or hold Shift while moving the
+      focus with the arrow keys) to select a block of cells, then press Cmd/Ctrl
+      + C to copy them, and paste them into a spreadsheet.
+    </div>
+    <DataTable {...args} rows={items} />
+  </Spacings.Stack>
+);
+
+CopyCellRanges.args = {
+  isCellRangeSelectable: true,
+  isKeyboardNavigable: true,
+  maxHeight: 400,
+  columns: [
+    {
+      key: 'name',
+      label: 'Name',
+      renderItem: (row) => <strong>{(row as FakeItem).name}</strong>,
+      getTextValue: (row) => (row as FakeItem).name,
+    },
+    { key: 'phone', label: 'Phone' },
+    {
+      key: 'age',
+      label: 'Age',
+      align: 'center',
+      renderItem: (row) => `${(row as FakeItem).age} years`,
+      getTextValue: (row) => String((row as FakeItem).age),
+    },
+  ],
+};
+
+const exportableColumns: TColumn<FakeItem>[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'phone', label: 'Phone' },
+  {
+    key: 'age',
+    label: 'Age',
+    align: 'center',
+    renderItem: (row) => `${row.age} years`,
+  },
+];
+
+export const ExportRows: Story = (args) => {
+  const [exportedText, setExportedText] = useState('');
+
+  return (
+    <Spacings.Stack scale="m">
+      <Spacings.Inline scale="s">
+        <SecondaryButton
+          label="Export as CSV"
+          onClick={() =>
+            setExportedText(
+              getDataTableExportText({
+                rows: items,
+                columns: exportableColumns,
+                format: 'csv',
+              })
+            )
+          }
+        />
+        <SecondaryButton
+          label="Export as TSV"
+          onClick={() =>
+            setExportedText(
+              getDataTableExportText({
+                rows: items,
+                columns: exportableColumns,
+                format: 'tsv',
+              })
+            )
+          }
+        />
+      </Spacings.Inline>
+      <DataTable
+        {...args}
+        rows={items}
+        columns={exportableColumns as TColumn[]}
+      />
+      {exportedText && <pre>{exportedText}</pre>}
+    </Spacings.Stack>
+  );
+};
+
+ExportRows.args = {
+  maxHeight: 400,
+};
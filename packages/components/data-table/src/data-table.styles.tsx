@@ -77,6 +77,7 @@ type TTableGrid = {
   columns?: TDataTableProps['columns'];
   disableSelfContainment: boolean;
   maxHeight?: string | number;
+  isLoadingMore?: boolean;
 };
 
 const TableGrid = styled.table<TTableGrid>`
@@ -100,6 +101,16 @@ const TableGrid = styled.table<TTableGrid>`
     props.resizedTotalWidth ? `max-width: ${props.resizedTotalWidth}px;` : ''}
 
   ${getDisabledSelfContainmentStyles}
+
+  /* the stale rows are dimmed while new rows are being loaded,
+  unless the new rows are appended to them */
+  ${(props) =>
+    !props.isLoadingMore &&
+    `
+    &[aria-busy='true'] > tbody > tr[data-row-index] > td {
+      opacity: 0.5;
+      transition: opacity 150ms ease-in-out;
+    }`}
 `;
 
 const TableHeader = styled.thead`
@@ -127,6 +138,10 @@ const TableBody = styled.tbody`
   display: contents;
 `;
 
+const TableFooter = styled.tfoot`
+  display: contents;
+`;
+
 const TableRow = styled.tr<TGetClickableRowStyleProps>`
   display: contents;
   ${getClickableRowStyle}
@@ -135,6 +150,42 @@ const TableRow = styled.tr<TGetClickableRowStyleProps>`
       opacity: 1;
     }
   }
+
+  /* the rows can be reordered by dragging their handle onto another row */
+  &[data-is-dragged='true'] > td {
+    opacity: 0.5;
+  }
+  &[data-drop-position='before'] > td {
+    box-shadow: inset 0 ${designTokens.borderWidth2} 0
+      ${designTokens.colorPrimary};
+  }
+  &[data-drop-position='after'] > td {
+    box-shadow: inset 0 calc(-1 * ${designTokens.borderWidth2}) 0
+      ${designTokens.colorPrimary};
+  }
+`;
+
+type TVirtualSpacerCell = {
+  height: number;
+};
+
+/**
+ * Takes the place of the rows that are not rendered when the table is virtualized,
+ * so that the scrollable height of the table stays the same
+ */
+const VirtualSpacerCell = styled.td<TVirtualSpacerCell>`
+  grid-column: 1 / -1;
+  height: ${(props) => props.height}px;
+  padding: 0;
+  border: none;
 `;
 
-export { TableContainer, TableGrid, TableHeader, TableBody, TableRow };
+export {
+  TableContainer,
+  TableGrid,
+  TableHeader,
+  TableBody,
+  TableFooter,
+  TableRow,
+  VirtualSpacerCell,
+};
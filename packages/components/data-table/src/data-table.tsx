@@ -1,25 +1,71 @@
 import {
+  Fragment,
   useRef,
   useLayoutEffect,
+  useImperativeHandle,
   ReactNode,
   MouseEventHandler,
   Ref,
-  // useState,
+  type MouseEvent,
+  type ClipboardEvent,
 } from 'react';
+import { useIntl } from 'react-intl';
 import isEqual from 'lodash/isEqual';
 import { warning, filterDataAttributes } from '@commercetools-uikit/utils';
 import { usePrevious } from '@commercetools-uikit/hooks';
+import AccessibleHidden from '@commercetools-uikit/accessible-hidden';
 import {
   TableContainer,
   TableGrid,
   TableHeader,
   TableBody,
   TableRow,
+  VirtualSpacerCell,
 } from './data-table.styles';
+import { NestedRowCell, TableStateCell } from './cell.styles';
 import Footer from './footer';
+import AggregateRow from './aggregate-row';
+import SkeletonRows from './skeleton-rows';
+import LoadingMoreRow from './loading-more-row';
 import HeaderCell from './header-cell';
+import HeaderGroupCell from './header-group-cell';
 import DataRow from './data-row';
-import useManualColumnResizing from './use-manual-column-resizing-reducer';
+import useManualColumnResizing, {
+  type TRenderedColumnMeasurements,
+} from './use-manual-column-resizing-reducer';
+import useRowVirtualization from './use-row-virtualization';
+import useInfiniteScroll from './use-infinite-scroll';
+import useRowExpansion from './use-row-expansion';
+import RowExpansionToggle from './row-expansion-toggle';
+import useTreeRows from './use-tree-rows';
+import TreeCell from './tree-cell';
+import useRowGrouping from './use-row-grouping';
+import RowGroupHeader from './row-group-header';
+import useRowSelectionState from './use-row-selection-state';
+import usePinnedColumns, { sortColumnsByPin } from './use-pinned-columns';
+import useColumnReordering from './use-column-reordering';
+import useColumnGroups, {
+  getLeafColumns,
+  type THeaderGroupCell,
+} from './use-column-groups';
+import useCellEditing from './use-cell-editing';
+import useCellRangeSelection from './use-cell-range-selection';
+import useRowReordering from './use-row-reordering';
+import RowDragHandle from './row-drag-handle';
+import getDelimitedText, { getCellText } from './utils/get-delimited-text';
+import useKeyboardNavigation, {
+  getFirstFocusableElement,
+  getCellPosition,
+  type TCellPosition,
+} from './use-keyboard-navigation';
+import RowSelectionCheckbox from './row-selection-checkbox';
+import RowSelectionBanner from './row-selection-banner';
+import {
+  ROW_EXPANSION_COLUMN_KEY,
+  ROW_SELECTION_COLUMN_KEY,
+  ROW_REORDER_COLUMN_KEY,
+} from './constants';
+import messages from './messages';
 import ColumnResizingContext from './column-resizing-context';
 import { useDataTableManagerContext } from '@commercetools-uikit/data-table-manager/data-table-manager-provider';
 export interface TRow {
@@ -85,6 +131,13 @@ export type TColumn<Row extends TRow = TRow> = {
    * the default `itemRenderer` prop of the table.
    */
   renderItem?: (row: Row, isRowCollapsed: boolean) => ReactNode;
+  /**
+   * A callback function to get the plain text of the cells under this column, used when copying
+   * the selected cells (see `isCellRangeSelectable`).
+   * <br>
+   * By default, the value of the row for the column `key` is used when it's a string, a number or a boolean.
+   */
+  getTextValue?: (row: Row) => string;
   /**
    * Use this prop to place an `Icon` or `IconButton` on the left of the column label.
    * It is advised to place these types of components through this prop instead of `label`,
@@ -121,6 +174,85 @@ export type TColumn<Row extends TRow = TRow> = {
    * the row also has a defined `onRowClick`.
    */
   shouldIgnoreRowClick?: boolean;
+  /**
+   * Pins the column to the `left` or `right` side of the table, so that it stays in place
+   * while the other columns are scrolled horizontally.
+   * <br>
+   * Pinned columns are rendered before (`left`) or after (`right`) all the other columns, keeping
+   * their relative order. When at least one column is pinned to the left, the built-in columns
+   * (for selecting or expanding the rows) are pinned as well.
+   */
+  pin?: 'left' | 'right';
+  /**
+   * A callback function to render an editor (for example a `TextInput`, `NumberInput`, `MoneyInput` or `SelectInput`)
+   * in place of the content of a cell under this column, making its cells editable.
+   * <br>
+   * Editing starts when the cell is double-clicked, or when `Enter` is pressed on the focused cell, and it's
+   * cancelled with `Escape`. The editor should call `commit` with the new value (for example on blur,
+   * or when `Enter` is pressed), which is then passed to the `onCellEditCommit` callback of the table,
+   * or `cancel` to discard it.
+   * The cells of editable columns don't call `onRowClick`.
+   */
+  renderEditor?: (
+    row: Row,
+    commit: (value: unknown) => void,
+    cancel: () => void
+  ) => ReactNode;
+  /**
+   * The columns grouped under this column. When provided, the column is rendered as a header
+   * spanning all of its columns, in an additional header row above them, and its own
+   * properties (except `key`, `label` and `pin`) are ignored.
+   * <br>
+   * Groups can be nested, and their `pin` applies to all of their columns.
+   * The columns of a group can be resized individually, while the group can only be reordered as a whole.
+   */
+  children?: TColumn<Row>[];
+  /**
+   * The aggregate of the values of this column, rendered below the column in a summary row
+   * at the bottom of the table. The summary row is rendered when at least one column has an aggregate.
+   * <br>
+   * The built-in aggregates (`sum`, `average`, `min` and `max`) are computed from the numeric values
+   * of the column key of all the `rows`, while `count` counts the rows having a value. A function can be provided instead, to compute the aggregate
+   * value from the `rows` (for example, for money values).
+   */
+  aggregate?: TColumnAggregate | ((rows: Row[]) => unknown);
+  /**
+   * A callback function to render the aggregate value of this column in the summary row.
+   * By default, numbers are formatted according to the locale.
+   */
+  renderAggregate?: (aggregateValue: unknown, rows: Row[]) => ReactNode;
+};
+
+export type TColumnAggregate = 'sum' | 'average' | 'count' | 'min' | 'max';
+
+/**
+ * The styles applied to all the cells of a row: `highlighted` for the active row, `muted` for the rows
+ * which are less relevant (e.g. inactive items), and `warning` for the rows which need attention.
+ */
+export type TRowTone = 'highlighted' | 'muted' | 'warning';
+
+export type TSortDescriptor = {
+  key: string;
+  order: 'asc' | 'desc';
+};
+
+export type TRowGroup<Row extends TRow = TRow> = {
+  /**
+   * The value by which the rows of the group are grouped.
+   */
+  key: string;
+  /**
+   * The rows of the group, in the same order as in the `rows` of the table.
+   */
+  rows: Row[];
+  isCollapsed: boolean;
+};
+
+export type TDataTableActions = {
+  /**
+   * Sets the width of all the resizable columns to the width of their widest rendered content.
+   */
+  fitAllColumnsToContent: () => void;
 };
 
 export type TDataTableProps<Row extends TRow = TRow> = {
@@ -162,6 +294,18 @@ export type TDataTableProps<Row extends TRow = TRow> = {
    * A callback function, called when a user clicks on a row.
    */
   onRowClick?: (row: Row, rowIndex: number, columnKey: string) => void;
+  /**
+   * The id of the active row, such as the row whose details are shown next to the table,
+   * which is highlighted until another row becomes active.
+   */
+  activeRowId?: string;
+  /**
+   * A function returning the tone of a row, which styles all its cells.
+   * The active row (see `activeRowId`) is always `highlighted`.
+   * <br>
+   * The tones don't replace the styles of the hovered rows and of the selected cells.
+   */
+  getRowTone?: (row: Row) => TRowTone | undefined;
   /**
    * Set this to `true` to reduce the paddings of all cells, allowing the table to display
    * more data in less space.
@@ -172,7 +316,27 @@ export type TDataTableProps<Row extends TRow = TRow> = {
    * Use this callback to get the resized column widths and save them, to be able to restore the
    * value once the user comes back to the page.
    */
-  onColumnResized?: (args: TColumn<Row>[]) => void;
+  onColumnResized?: (args: TRenderedColumnMeasurements[]) => void;
+  /**
+   * A ref which is assigned the actions that can be performed on the table, like fitting all the
+   * columns to their content.
+   * <br>
+   * A single column can be fitted to its content by double-clicking its resizer. In both cases the
+   * new widths are reported through `onColumnResized`.
+   */
+  actionsRef?: Ref<TDataTableActions>;
+  /**
+   * A callback function, called when a column has been moved by dragging its header,
+   * with the keys of all the columns in their new order.
+   * <br>
+   * The column headers can only be dragged when this callback is provided, and each column
+   * can only be moved next to the columns pinned to the same side.
+   * When the columns are grouped, only the top-level columns (and groups) can be moved, and
+   * their keys are the ones passed to this callback.
+   * When the table is used within the `DataTableManagerProvider`, the visible columns of its
+   * column manager are updated as well.
+   */
+  onColumnReorder?: (columnKeys: string[]) => void;
   /**
    * Set this to `true` to take control of the containment of the table and doing it on a parent element.
    * This means that the table will grow in size without adding scrollbars on itself,
@@ -217,14 +381,30 @@ export type TDataTableProps<Row extends TRow = TRow> = {
   /**
    * A callback function, called when a sortable column's header is clicked.
    * It's required when the `isSortable` flag is set on at least one column.
+   * <br>
+   * `isMultiSort` is `true` when the header is clicked while holding the `Shift` key, meaning that
+   * the column should be added to the current sorting (or have its direction changed), instead of replacing it.
    */
-  onSortChange?: (columnKey: string, sortDirection: 'asc' | 'desc') => void;
+  onSortChange?: (
+    columnKey: string,
+    sortDirection: 'asc' | 'desc',
+    isMultiSort: boolean
+  ) => void;
   /**
    * The sorting direction.
    */
   sortDirection?: 'desc' | 'asc';
+  /**
+   * The ordered list of columns the data is currently sorted by, the first one having the highest priority.
+   * Use this instead of `sortedBy` and `sortDirection` to sort the data by multiple columns.
+   * When there is more than one item, the priority of each sorted column is shown in its header.
+   */
+  sortDescriptors?: TSortDescriptor[];
   /**
    * Custom row renderer for nested rows.
+   * <br>
+   * When provided, a column with a button to expand and collapse each row is added at the start of the table,
+   * and the content returned by this function is rendered in a full-width row below its expanded parent row.
    */
   renderNestedRow?: (row: Row) => ReactNode;
   /**
@@ -232,6 +412,216 @@ export type TDataTableProps<Row extends TRow = TRow> = {
    *  a scrollbar should make provision for the overflow.
    */
   maxExpandableHeight?: number;
+  /**
+   * The ids of the rows which are currently expanded.
+   * Use this, together with `onExpandedRowIdsChange`, to control the expanded rows from outside the table.
+   */
+  expandedRowIds?: string[];
+  /**
+   * The ids of the rows which are initially expanded, when the expanded rows are not controlled
+   * by the `expandedRowIds` prop.
+   */
+  defaultExpandedRowIds?: string[];
+  /**
+   * A callback function, called when a row is expanded or collapsed, with the ids of all the expanded rows.
+   */
+  onExpandedRowIdsChange?: (expandedRowIds: string[]) => void;
+  /**
+   * The key of the column in which the hierarchy of the rows is rendered.
+   * <br>
+   * When provided, the rows are rendered as a tree: only the top level `rows` are rendered initially,
+   * and the children of each row can be shown with the button rendered in this column, where the rows
+   * are indented according to their level. The expanded rows can be controlled with `expandedRowIds`.
+   * <br>
+   * Each row stays above its children, so sorting the `rows` (and the children of each row) with
+   * `onSortChange` sorts the rows within each level of the tree.
+   */
+  treeColumnKey?: string;
+  /**
+   * A function returning the children of a row, when rendering the rows as a tree (see `treeColumnKey`).
+   * By default, the `children` property of the rows is used.
+   * <br>
+   * Return `undefined` for the rows whose children are not loaded yet, together with `getRowHasChildren`.
+   */
+  getRowChildren?: (row: Row) => Row[] | undefined;
+  /**
+   * A function returning whether a row has children, when rendering the rows as a tree.
+   * By default, the rows with at least one child returned by `getRowChildren` have children.
+   * <br>
+   * Use this to load the children of the rows lazily: the rows which have children, but whose children
+   * are not returned by `getRowChildren`, call `onLoadRowChildren` once expanded.
+   */
+  getRowHasChildren?: (row: Row) => boolean;
+  /**
+   * A callback function, called with an expanded row whose children are not loaded yet (see `getRowHasChildren`).
+   * A loading indicator is rendered until `getRowChildren` returns the children of the row.
+   */
+  onLoadRowChildren?: (row: Row) => void;
+  /**
+   * A callback function, called when a row is moved to another position, with its current index
+   * within `rows` and the index it should be moved to.
+   * <br>
+   * When provided, a column with a handle to reorder each row is added at the start of the table.
+   * The handle can be dragged onto another row, or focused and moved one position up or down
+   * with the arrow keys. The table doesn't reorder the rows by itself: the `rows` prop is expected
+   * to be updated accordingly.
+   * When rendering the rows as a tree, only the top level rows can be reordered.
+   */
+  onRowReorder?: (fromIndex: number, toIndex: number) => void;
+  /**
+   * Set this to `true` to render the table following the [WAI-ARIA grid pattern](https://www.w3.org/WAI/ARIA/apg/patterns/grid/),
+   * so that it can be used with the keyboard.
+   * <br>
+   * Only one cell can be reached with the `Tab` key, and the focus is moved between the cells with
+   * the arrow keys, `Home` and `End` (the first and last cell of the row, or of the table when holding `Ctrl`),
+   * and `PageUp` and `PageDown`.
+   * Pressing `Enter` calls `onRowClick` for the focused cell, or focuses its interactive content when the row
+   * is not clickable or the column has `shouldIgnoreRowClick` set. On the cells of editable columns, it starts editing instead.
+   * Pressing `Escape` moves the focus back to the cell.
+   * The interactive content of the cells (e.g. the sort buttons and the checkboxes) is only reached with
+   * the `Tab` key while the focus is within its cell.
+   * Pressing `Ctrl + Enter` on a header cell moves the focus to its resizer.
+   */
+  isKeyboardNavigable?: boolean;
+  /**
+   * Set this to `true` to allow selecting a block of data cells, and copying their text to the clipboard
+   * as tab-separated values (which can be pasted into a spreadsheet) with `Cmd/Ctrl + C`.
+   * <br>
+   * Clicking a cell selects it, and shift-clicking another cell extends the selection up to it.
+   * When `isKeyboardNavigable` is `true`, the selection follows the focused cell, and it's extended
+   * by holding `Shift` while moving the focus.
+   * The text of the cells is provided by the `getTextValue` function of their column.
+   */
+  isCellRangeSelectable?: boolean;
+  /**
+   * Set this to `true` to only render the rows that are visible within the scroll area of the table
+   * (plus the amount of rows defined by `overscanRowCount`), instead of rendering all the `rows` at once.
+   * Use this for long lists of rows, which would otherwise make the page unresponsive.
+   * <br>
+   * This requires the `maxHeight` prop to be set, as the table needs its own scroll area.
+   * Since the width of columns without a fixed `width` depends on the rendered content, it is recommended
+   * to set a `width` for every column, so that it does not change while scrolling.
+   */
+  isVirtualized?: boolean;
+  /**
+   * The estimated height (in pixels) of a row, used when `isVirtualized` is `true` to reserve
+   * the space of the rows which have not been rendered yet.
+   */
+  estimatedRowHeight?: number;
+  /**
+   * The amount of rows to render above and below the visible area, when `isVirtualized` is `true`.
+   */
+  overscanRowCount?: number;
+  /**
+   * The ids of the rows which are currently selected.
+   * When this is not provided, the selected rows are kept internally by the table.
+   * <br>
+   * Selected rows which are not part of `rows` (for example, the rows selected on another page) are kept
+   * in the selection.
+   */
+  selectedRowIds?: string[];
+  /**
+   * A callback function, called when the selected rows change, with the ids of all the selected rows.
+   * <br>
+   * When provided, a column with checkboxes to select each row is added at the start of the table,
+   * together with a checkbox in its header to select all the rows of the page at once.
+   * Clicking on a row checkbox while holding the `Shift` key selects (or deselects) all the rows
+   * between it and the previously clicked one.
+   */
+  onSelectionChange?: (selectedRowIds: string[]) => void;
+  /**
+   * The total number of rows across all the pages, when the table is paginated.
+   * When it's bigger than the number of `rows` and `onAllRowsSelectionChange` is provided,
+   * selecting all the rows of the page offers to select the rows of all the pages.
+   */
+  totalRowCount?: number;
+  /**
+   * Set this to `true` when the rows of all the pages are selected.
+   * In this case, every row is rendered as selected, regardless of `selectedRowIds`.
+   */
+  areAllRowsSelected?: boolean;
+  /**
+   * A callback function, called when the rows of all the pages get selected, or when they stop being selected.
+   */
+  onAllRowsSelectionChange?: (areAllRowsSelected: boolean) => void;
+  /**
+   * A callback function, called when the editor of a cell commits a new value.
+   * The table doesn't update the `rows` itself, so the new value should be saved in the data passed to the table.
+   * <br>
+   * The cells can only be edited under the columns which have a `renderEditor` function.
+   */
+  onCellEditCommit?: (row: Row, columnKey: string, value: unknown) => void;
+  /**
+   * Groups the rows by the value of the given key, or by the value returned by the given function.
+   * Each group is rendered below a full-width header, which shows the value of the group, its amount
+   * of rows and a button to collapse the group.
+   * <br>
+   * The groups are ordered by their first row, so the rows should be sorted first by the grouping value
+   * for the groups to follow the sorting. The rows without a value for the given key are grouped under a "No value" header.
+   * Grouped rows can't be virtualized, so `isVirtualized` is ignored when this prop is provided.
+   */
+  groupBy?: string | ((row: Row) => string);
+  /**
+   * A callback function to render the content of the header of each group, next to the button
+   * to collapse it, instead of its value and amount of rows.
+   */
+  renderGroupHeader?: (rowGroup: TRowGroup<Row>) => ReactNode;
+  /**
+   * The keys of the groups which are currently collapsed.
+   * Use this, together with `onCollapsedGroupKeysChange`, to control the collapsed groups from outside the table.
+   */
+  collapsedGroupKeys?: string[];
+  /**
+   * The keys of the groups which are initially collapsed, when the collapsed groups are not controlled
+   * by the `collapsedGroupKeys` prop.
+   */
+  defaultCollapsedGroupKeys?: string[];
+  /**
+   * A callback function, called when a group is collapsed or expanded, with the keys of all the collapsed groups.
+   */
+  onCollapsedGroupKeysChange?: (collapsedGroupKeys: string[]) => void;
+  /**
+   * Set this to `true` while the rows are being loaded.
+   * When there are no `rows` yet, placeholder rows following the layout of the columns are rendered
+   * instead. Otherwise the current rows stay visible (dimmed) until the new ones are loaded.
+   */
+  isLoading?: boolean;
+  /**
+   * The amount of placeholder rows to render while loading the rows, when `isLoading` is `true`.
+   */
+  skeletonRowCount?: number;
+  /**
+   * A callback function to render the content shown within the table body when there are no `rows`
+   * and they are not being loaded.
+   */
+  renderEmptyState?: () => ReactNode;
+  /**
+   * The error which occurred while loading the rows, passed to `renderErrorState`.
+   */
+  error?: Error;
+  /**
+   * A callback function to render the content shown within the table body when an `error` is provided.
+   * It's rendered above the current rows, if there are any.
+   */
+  renderErrorState?: (error: Error) => ReactNode;
+  /**
+   * A callback function, called when more rows should be loaded and appended to the `rows`,
+   * as the table has been scrolled near the end of its scroll area (or the rows don't fill it yet).
+   * <br>
+   * It's only called when `hasMore` is `true` and the rows are not being loaded already. While
+   * `isLoading` is `true`, a loading row is rendered at the bottom of the rows.
+   * It requires the `maxHeight` prop to be set and `disableSelfContainment` to be `false`, as the
+   * scroll area of the table is observed.
+   */
+  onLoadMore?: () => void;
+  /**
+   * Set this to `true` when there are more rows to be loaded with `onLoadMore`.
+   */
+  hasMore?: boolean;
+  /**
+   * The distance (in pixels) from the end of the scroll area within which `onLoadMore` is called.
+   */
+  loadMoreThreshold?: number;
 };
 
 const DataTable = <Row extends TRow = TRow>({
@@ -241,12 +631,26 @@ const DataTable = <Row extends TRow = TRow>({
   verticalCellAlignment = 'top',
   horizontalCellAlignment = 'left',
   disableSelfContainment = false,
+  isVirtualized = false,
+  isKeyboardNavigable = false,
+  isCellRangeSelectable = false,
+  isLoading = false,
+  skeletonRowCount = 5,
+  hasMore = false,
+  loadMoreThreshold = 200,
+  estimatedRowHeight = 32,
+  overscanRowCount = 5,
   // @ts-ignore
   itemRenderer = (row, column) => row[column.key],
   ...props
 }: TDataTableProps<Row>) => {
-  const { columns: contextColumns, isCondensed: contextIsCondensed } =
-    useDataTableManagerContext();
+  const intl = useIntl();
+  const {
+    columns: contextColumns,
+    isCondensed: contextIsCondensed,
+    reorderColumns: contextReorderColumns,
+    resizeColumns: contextResizeColumns,
+  } = useDataTableManagerContext();
   const isValueFromProvider = Boolean(
     contextColumns && contextColumns.length !== 0
   );
@@ -256,27 +660,317 @@ const DataTable = <Row extends TRow = TRow>({
       ? contextIsCondensed
       : isCondensed;
 
-  //  TODO - initial poc for the nested rows
-  // const [openedItemIds, setOpenedItemIds] = useState<string[]>([]);
-  // const handleExpandRow = (row: Row) => {
-  //   const newOpenedItemIds = openedItemIds.includes(row.id)
-  //     ? openedItemIds.filter((id) => id !== row.id)
-  //     : [...openedItemIds, row.id];
-  //   setOpenedItemIds(newOpenedItemIds);
-  // };
+  const rowExpansion = useRowExpansion({
+    expandedRowIds: props.expandedRowIds,
+    defaultExpandedRowIds: props.defaultExpandedRowIds,
+    onExpandedRowIdsChange: props.onExpandedRowIdsChange,
+  });
+  const { renderNestedRow, treeColumnKey } = props;
+  const treeRows = useTreeRows({
+    rows: props.rows,
+    isEnabled: Boolean(treeColumnKey),
+    getRowChildren: props.getRowChildren,
+    getRowHasChildren: props.getRowHasChildren,
+    getIsRowExpanded: rowExpansion.getIsRowExpanded,
+    onLoadRowChildren: props.onLoadRowChildren,
+  });
+  const rowGrouping = useRowGrouping({
+    // the children of the expanded rows are rendered as any other row
+    rows: treeRows.rows,
+    groupBy: props.groupBy,
+    collapsedGroupKeys: props.collapsedGroupKeys,
+    defaultCollapsedGroupKeys: props.defaultCollapsedGroupKeys,
+    onCollapsedGroupKeysChange: props.onCollapsedGroupKeysChange,
+  });
+  // the rows of the collapsed groups are not part of the grid
+  const { visibleRows } = rowGrouping;
+  const rowSelection = useRowSelectionState({
+    rowIds: treeRows.rows.map((row) => row.id),
+    selectedRowIds: props.selectedRowIds,
+    onSelectionChange: props.onSelectionChange,
+    areAllRowsSelected: props.areAllRowsSelected,
+    onAllRowsSelectionChange: props.onAllRowsSelectionChange,
+  });
+  const isRowSelectionEnabled = Boolean(
+    props.onSelectionChange || props.selectedRowIds
+  );
+  const rowSelectionColumn: TColumn<Row> = {
+    key: ROW_SELECTION_COLUMN_KEY,
+    label: (
+      <RowSelectionCheckbox
+        isHeader
+        isChecked={rowSelection.areAllPageRowsSelected}
+        isIndeterminate={rowSelection.arePageRowsPartiallySelected}
+        onToggle={rowSelection.toggleAllPageRows}
+      />
+    ),
+    width: 'min-content',
+    align: 'center',
+    disableResizing: true,
+    shouldIgnoreRowClick: true,
+    renderItem: (row) => (
+      <RowSelectionCheckbox
+        isChecked={rowSelection.getIsRowSelected(row.id)}
+        onToggle={(isRangeSelection) =>
+          rowSelection.toggleRow(row.id, isRangeSelection)
+        }
+      />
+    ),
+  };
+  const rowExpansionColumn: TColumn<Row> = {
+    key: ROW_EXPANSION_COLUMN_KEY,
+    label: '',
+    width: 'min-content',
+    align: 'center',
+    disableResizing: true,
+    shouldIgnoreRowClick: true,
+    renderItem: (row) => (
+      <RowExpansionToggle
+        isExpanded={rowExpansion.getIsRowExpanded(row.id)}
+        onToggle={() => rowExpansion.toggleRow(row.id)}
+      />
+    ),
+  };
+  const rowReordering = useRowReordering({
+    rowIds: props.rows.map((row) => row.id),
+    onRowReorder: props.onRowReorder,
+  });
+  const rowReorderColumn: TColumn<Row> = {
+    key: ROW_REORDER_COLUMN_KEY,
+    label: '',
+    width: 'min-content',
+    align: 'center',
+    disableResizing: true,
+    shouldIgnoreRowClick: true,
+    // the children of the tree rows are not part of `rows`, so they can't be reordered
+    renderItem: (row) =>
+      (treeRows.getTreeRowInfo(row.id)?.depth ?? 0) > 0 ? null : (
+        <RowDragHandle
+          dragHandleProps={rowReordering.getDragHandleProps(row.id)}
+          onMove={(offset) => rowReordering.moveRow(row.id, offset)}
+          shouldFocus={rowReordering.movedRowId === row.id}
+          onFocused={rowReordering.clearMovedRow}
+        />
+      ),
+  };
+  // the hierarchy of the rows is rendered within the content of the tree column
+  const renderTreeCell = (column: TColumn<Row>): TColumn<Row> => ({
+    ...column,
+    renderItem: (row, isRowCollapsed) => {
+      const treeRowInfo = treeRows.getTreeRowInfo(row.id);
+      const content = column.renderItem
+        ? column.renderItem(row, isRowCollapsed)
+        : itemRenderer(row, column, isRowCollapsed);
+      return treeRowInfo ? (
+        <TreeCell
+          treeRowInfo={treeRowInfo}
+          isExpanded={rowExpansion.getIsRowExpanded(row.id)}
+          onToggle={() => rowExpansion.toggleRow(row.id)}
+        >
+          {content}
+        </TreeCell>
+      ) : (
+        content
+      );
+    },
+  });
+  // the columns of the groups are the ones rendered in the table
+  const leafColumns = getLeafColumns<TColumn<Row>>(columnsData).map((column) =>
+    column.key === treeColumnKey ? renderTreeCell(column) : column
+  );
+  const hasLeftPinnedColumns = leafColumns.some(
+    (column) => column.pin === 'left'
+  );
+  // the utility columns are rendered before the columns defined by the consumer
+  const renderedColumns: TColumn<Row>[] = sortColumnsByPin([
+    ...[
+      ...(props.onRowReorder ? [rowReorderColumn] : []),
+      ...(isRowSelectionEnabled ? [rowSelectionColumn] : []),
+      ...(renderNestedRow ? [rowExpansionColumn] : []),
+    ].map((column) => ({
+      ...column,
+      pin: hasLeftPinnedColumns ? ('left' as const) : undefined,
+    })),
+    ...leafColumns,
+  ]);
+
+  warning(
+    !treeColumnKey || !(renderNestedRow || props.groupBy),
+    `ui-kit/DataTable: "treeColumnKey" can't be combined with "renderNestedRow" or "groupBy", as the rows are either rendered as a tree, as expandable rows, or as groups.`
+  );
 
   warning(
     columnsData.length > 0,
     `ui-kit/DataTable: empty table "columns", expected at least one column. If you are using DataTableManager you need to pass the "columns" there and they will be injected into DataTable.`
   );
 
+  warning(
+    !isVirtualized || Boolean(props.maxHeight && !disableSelfContainment),
+    `ui-kit/DataTable: "isVirtualized" requires the "maxHeight" prop to be set and "disableSelfContainment" to be "false", otherwise all the rows are rendered.`
+  );
+
+  warning(
+    !props.onLoadMore || Boolean(props.maxHeight && !disableSelfContainment),
+    `ui-kit/DataTable: "onLoadMore" requires the "maxHeight" prop to be set and "disableSelfContainment" to be "false", otherwise it's never called.`
+  );
+
+  warning(
+    !isVirtualized || !props.groupBy,
+    `ui-kit/DataTable: "isVirtualized" is ignored when the rows are grouped with "groupBy", and all the rows are rendered.`
+  );
+
   const tableRef = useRef<HTMLTableElement>(null);
   const columnResizingReducer = useManualColumnResizing(tableRef);
+  const pinnedColumns = usePinnedColumns(tableRef, renderedColumns);
+  const { onColumnReorder } = props;
+  const columnReordering = useColumnReordering({
+    // the built-in columns can't be reordered, and the grouped columns are moved with their group
+    columns: sortColumnsByPin<TColumn<Row>>(columnsData),
+    onColumnReorder: onColumnReorder
+      ? (columnKeys) => {
+          onColumnReorder(columnKeys);
+          if (isValueFromProvider) contextReorderColumns?.(columnKeys);
+        }
+      : undefined,
+  });
+  const columnGroups = useColumnGroups<TColumn<Row>>(
+    tableRef,
+    columnsData,
+    renderedColumns
+  );
+  const headerRowCount = columnGroups.headerGroupRows.length + 1;
+  // the group is sticky on the side of its outermost column, and has the edge of its innermost one
+  const getHeaderGroupPinnedPosition = ({
+    columnStart,
+    columnSpan,
+  }: THeaderGroupCell<TColumn<Row>>) => {
+    const firstColumnPosition = pinnedColumns.getPinnedColumnPosition(
+      renderedColumns[columnStart].key
+    );
+    const lastColumnPosition = pinnedColumns.getPinnedColumnPosition(
+      renderedColumns[columnStart + columnSpan - 1].key
+    );
+    if (!firstColumnPosition || !lastColumnPosition) return undefined;
+    return firstColumnPosition.side === 'left'
+      ? { ...firstColumnPosition, isEdge: lastColumnPosition.isEdge }
+      : { ...lastColumnPosition, isEdge: firstColumnPosition.isEdge };
+  };
+  const virtualization = useRowVirtualization({
+    scrollElementRef: tableRef,
+    rowIds: visibleRows.map((row) => row.id),
+    isEnabled: Boolean(
+      isVirtualized &&
+        props.maxHeight &&
+        !disableSelfContainment &&
+        !props.groupBy
+    ),
+    estimatedRowHeight,
+    overscanRowCount,
+  });
+
+  useInfiniteScroll({
+    scrollElementRef: tableRef,
+    rowCount: props.rows.length,
+    // the rows are not loaded again after an error, until it's cleared
+    isEnabled: Boolean(
+      props.onLoadMore &&
+        hasMore &&
+        !props.error &&
+        props.maxHeight &&
+        !disableSelfContainment
+    ),
+    isLoading,
+    onLoadMore: props.onLoadMore,
+    loadMoreThreshold,
+  });
+
+  const cellEditing = useCellEditing();
+  const { onCellEditCommit } = props;
+  const commitCellEdit = (row: Row, columnKey: string, value: unknown) => {
+    cellEditing.stopEditing();
+    onCellEditCommit?.(row, columnKey, value);
+  };
+
+  const cellRangeSelection = useCellRangeSelection();
+  // only the data cells can be selected, not the header cells
+  const selectCell = (cellPosition: TCellPosition, isExtending: boolean) => {
+    if (cellPosition.rowIndex >= 0) {
+      cellRangeSelection.selectCell(cellPosition, isExtending);
+    }
+  };
+  const onCellRangeMouseDown = (event: MouseEvent<HTMLTableElement>) => {
+    const cell = (event.target as HTMLElement).closest('td');
+    const cellPosition =
+      event.button === 0 && cell && cell.closest('table') === tableRef.current
+        ? getCellPosition(cell)
+        : undefined;
+    if (!cellPosition) return;
+    // prevents the browser from selecting the text between the clicked cells
+    if (event.shiftKey) event.preventDefault();
+    selectCell(cellPosition, event.shiftKey);
+  };
+  const onCopyCellRange = (event: ClipboardEvent<HTMLTableElement>) => {
+    const { selectedCellRange } = cellRangeSelection;
+    const isTextSelected = window.getSelection()?.isCollapsed === false;
+    // the text selected by the user, or within the inputs of the cells, is copied as usual
+    if (
+      !selectedCellRange ||
+      isTextSelected ||
+      (event.target as HTMLElement).closest('input, textarea')
+    )
+      return;
+
+    const copiedColumns = renderedColumns
+      .slice(
+        selectedCellRange.firstColumnIndex,
+        selectedCellRange.lastColumnIndex + 1
+      )
+      // the built-in columns don't have any text to be copied
+      .filter(
+        (column) =>
+          column.key !== ROW_REORDER_COLUMN_KEY &&
+          column.key !== ROW_SELECTION_COLUMN_KEY &&
+          column.key !== ROW_EXPANSION_COLUMN_KEY
+      );
+    event.preventDefault();
+    event.clipboardData.setData(
+      'text/plain',
+      getDelimitedText(
+        visibleRows
+          .slice(
+            selectedCellRange.firstRowIndex,
+            selectedCellRange.lastRowIndex + 1
+          )
+          .map((row) =>
+            copiedColumns.map((column) => getCellText(row, column))
+          ),
+        'tsv'
+      )
+    );
+  };
+
+  const keyboardNavigation = useKeyboardNavigation({
+    tableRef,
+    isEnabled: isKeyboardNavigable,
+    rowCount: visibleRows.length,
+    columnCount: renderedColumns.length,
+    scrollToIndex: virtualization.scrollToIndex,
+    onSelectCell: isCellRangeSelectable ? selectCell : undefined,
+    onActivateCell: ({ rowIndex, columnIndex }, cell) => {
+      const column = renderedColumns[columnIndex];
+      const isHeaderCell = rowIndex < 0;
+      if (!isHeaderCell && props.onRowClick && !column.shouldIgnoreRowClick) {
+        props.onRowClick(visibleRows[rowIndex], rowIndex, column.key);
+      } else {
+        getFirstFocusableElement(cell)?.focus();
+      }
+    },
+  });
 
   // if the table columns have been measured
   // and if the list of columns, their width field, or the isCondensed prop has changed
   // then we need to reset the resized column widths
-  const columnsInfo = getColumnsLayoutInfo(columnsData);
+  const columnsInfo = getColumnsLayoutInfo(renderedColumns);
   const prevLayout = usePrevious({
     columns: columnsInfo,
     isCondensed: condensedValue,
@@ -292,6 +986,39 @@ const DataTable = <Row extends TRow = TRow>({
     }
   }, [columnResizingReducer, hasLayoutChanged]);
 
+  // the DataTableManagerProvider keeps the widths of the resized columns only,
+  // so that the other columns keep their flexible widths
+  const onColumnResized = (
+    columnSizes: TRenderedColumnMeasurements[],
+    resizedColumnKeys: string[]
+  ) => {
+    props.onColumnResized?.(columnSizes);
+    if (isValueFromProvider) {
+      contextResizeColumns?.(
+        Object.fromEntries(
+          columnSizes
+            .filter((columnSize) => resizedColumnKeys.includes(columnSize.key))
+            .map((columnSize) => [columnSize.key, columnSize.width])
+        )
+      );
+    }
+  };
+
+  useImperativeHandle(props.actionsRef, () => ({
+    fitAllColumnsToContent: () => {
+      const resizableColumns = renderedColumns.filter(
+        (column) => !column.disableResizing
+      );
+      const finalSizes = columnResizingReducer.fitColumnsToContent(
+        resizableColumns.map((column) => renderedColumns.indexOf(column))
+      );
+      onColumnResized(
+        finalSizes,
+        resizableColumns.map((column) => column.key)
+      );
+    },
+  }));
+
   const hasTableBeenResized = columnResizingReducer.getHasTableBeenResized();
   const resizedTotalWidth =
     hasTableBeenResized && tableRef.current
@@ -300,6 +1027,103 @@ const DataTable = <Row extends TRow = TRow>({
         (tableRef.current.offsetWidth - tableRef.current.clientWidth)
       : undefined;
 
+  const getColumnSortingProps = (columnKey: string) => {
+    if (!props.sortDescriptors) {
+      return { sortedBy: props.sortedBy, sortDirection: props.sortDirection };
+    }
+    const sortIndex = props.sortDescriptors.findIndex(
+      (sortDescriptor) => sortDescriptor.key === columnKey
+    );
+    if (sortIndex === -1) return {};
+    return {
+      sortedBy: columnKey,
+      sortDirection: props.sortDescriptors[sortIndex].order,
+      sortPriority:
+        props.sortDescriptors.length > 1 ? sortIndex + 1 : undefined,
+    };
+  };
+
+  const totalRowCount = props.totalRowCount ?? props.rows.length;
+  const shouldRenderRowSelectionBanner =
+    isRowSelectionEnabled &&
+    Boolean(props.onAllRowsSelectionChange) &&
+    totalRowCount > props.rows.length &&
+    (rowSelection.areAllPageRowsSelected || Boolean(props.areAllRowsSelected));
+
+  const hasErrorState = Boolean(props.error && props.renderErrorState);
+  const shouldRenderLoadingMoreRow =
+    isLoading && hasMore && Boolean(props.onLoadMore) && props.rows.length > 0;
+  const shouldRenderSkeletonRows =
+    isLoading && props.rows.length === 0 && !hasErrorState;
+  const shouldRenderEmptyState =
+    !isLoading &&
+    props.rows.length === 0 &&
+    !hasErrorState &&
+    Boolean(props.renderEmptyState);
+
+  const renderRow = (row: Row, rowIndex: number) => (
+    <Fragment key={row.id}>
+      <DataRow<Row>
+        {...props}
+        itemRenderer={itemRenderer}
+        isCondensed={condensedValue}
+        verticalCellAlignment={verticalCellAlignment}
+        horizontalCellAlignment={horizontalCellAlignment}
+        columns={renderedColumns}
+        getPinnedColumnPosition={pinnedColumns.getPinnedColumnPosition}
+        getCellTabIndex={keyboardNavigation.getCellTabIndex}
+        getIsCellSelected={
+          isCellRangeSelectable
+            ? cellRangeSelection.getIsCellSelected
+            : undefined
+        }
+        getIsCellBeingEdited={cellEditing.getIsCellBeingEdited}
+        onStartCellEditing={cellEditing.startEditing}
+        onCommitCellEdit={commitCellEdit}
+        onCancelCellEdit={cellEditing.stopEditing}
+        isKeyboardNavigable={isKeyboardNavigable}
+        headerRowCount={headerRowCount}
+        row={row}
+        rowIndex={rowIndex}
+        rowReorderingProps={rowReordering.getRowReorderingProps(row.id)}
+        shouldClipContent={
+          columnResizingReducer.getIsAnyColumnBeingResized() ||
+          Boolean(hasTableBeenResized)
+        }
+        shouldRenderBottomBorder={shouldRenderRowBottomBorder(
+          rowIndex,
+          visibleRows.length,
+          props.footer
+        )}
+      />
+      {renderNestedRow && rowExpansion.getIsRowExpanded(row.id) && (
+        <TableRow isRowClickable={false}>
+          <NestedRowCell
+            data-testid={`nested-row-${rowIndex}`}
+            maxHeight={props.maxExpandableHeight}
+          >
+            {renderNestedRow(row)}
+          </NestedRowCell>
+        </TableRow>
+      )}
+    </Fragment>
+  );
+
+  const renderRowGroups = (rowGroups: TRowGroup<Row>[]) => {
+    let rowIndex = 0;
+    return rowGroups.map((rowGroup) => (
+      <Fragment key={`row-group-${rowGroup.key}`}>
+        <RowGroupHeader<Row>
+          rowGroup={rowGroup}
+          onToggle={() => rowGrouping.toggleGroup(rowGroup.key)}
+          renderGroupHeader={props.renderGroupHeader}
+        />
+        {!rowGroup.isCollapsed &&
+          rowGroup.rows.map((row) => renderRow(row, rowIndex++))}
+      </Fragment>
+    ));
+  };
+
   return (
     <TableContainer
       maxWidth={props.maxWidth}
@@ -307,6 +1131,16 @@ const DataTable = <Row extends TRow = TRow>({
       isBeingResized={columnResizingReducer.getIsAnyColumnBeingResized()}
       disableSelfContainment={!!disableSelfContainment}
     >
+      {shouldRenderRowSelectionBanner && (
+        <RowSelectionBanner
+          pageRowCount={props.rows.length}
+          totalRowCount={totalRowCount}
+          areAllRowsSelected={Boolean(props.areAllRowsSelected)}
+          onSelectAllRows={rowSelection.selectAllRowsAcrossPages}
+          onClearSelection={rowSelection.clearSelection}
+          resizedTotalWidth={resizedTotalWidth}
+        />
+      )}
       <TableGrid
         ref={tableRef as Ref<HTMLTableElement>}
         {...filterDataAttributes({
@@ -315,23 +1149,87 @@ const DataTable = <Row extends TRow = TRow>({
           verticalCellAlignment,
           horizontalCellAlignment,
           disableSelfContainment,
+          isVirtualized,
+          isKeyboardNavigable,
+          isLoading,
           ...props,
         })}
-        columns={columnsData as TColumn<TRow>[]}
+        columns={renderedColumns as TColumn<TRow>[]}
+        aria-busy={isLoading}
+        isLoadingMore={shouldRenderLoadingMoreRow}
+        {...(isKeyboardNavigable && {
+          role: 'grid',
+          'aria-rowcount': visibleRows.length + headerRowCount,
+          'aria-colcount': renderedColumns.length,
+          onKeyDown: keyboardNavigation.onKeyDown,
+          onFocus: keyboardNavigation.onFocus,
+          onBlur: keyboardNavigation.onBlur,
+          'aria-multiselectable': isCellRangeSelectable || undefined,
+        })}
+        {...(isCellRangeSelectable && {
+          // the table receives the focus when clicking the cells, to receive the copy events
+          tabIndex: -1,
+          onMouseDown: onCellRangeMouseDown,
+          onCopy: onCopyCellRange,
+        })}
         maxHeight={props.maxHeight}
         disableSelfContainment={!!disableSelfContainment}
         resizedTotalWidth={resizedTotalWidth}
       >
         <ColumnResizingContext.Provider value={columnResizingReducer}>
           <TableHeader>
-            <TableRow isRowClickable={false}>
-              {columnsData.map((column) => (
+            {columnGroups.headerGroupRows.map((headerGroupRow, level) => (
+              <TableRow
+                key={level}
+                isRowClickable={false}
+                {...(isKeyboardNavigable && {
+                  role: 'row',
+                  'aria-rowindex': level + 1,
+                })}
+              >
+                {headerGroupRow.map((headerGroupCell) => (
+                  <HeaderGroupCell
+                    key={
+                      headerGroupCell.column?.key ??
+                      `placeholder-${headerGroupCell.columnStart}`
+                    }
+                    columnKey={headerGroupCell.column?.key}
+                    columnSpan={headerGroupCell.columnSpan}
+                    shouldWrap={wrapHeaderLabels}
+                    isCondensed={condensedValue}
+                    disableHeaderStickiness={Boolean(
+                      props.disableHeaderStickiness
+                    )}
+                    pinnedPosition={getHeaderGroupPinnedPosition(
+                      headerGroupCell
+                    )}
+                    columnReorderingProps={
+                      headerGroupCell.column &&
+                      columnReordering.getColumnReorderingProps(
+                        headerGroupCell.column.key
+                      )
+                    }
+                    stickyOffset={columnGroups.getHeaderRowOffset(level)}
+                  >
+                    {headerGroupCell.column?.label}
+                  </HeaderGroupCell>
+                ))}
+              </TableRow>
+            ))}
+            <TableRow
+              isRowClickable={false}
+              {...(isKeyboardNavigable && {
+                role: 'row',
+                'aria-rowindex': headerRowCount,
+              })}
+            >
+              {renderedColumns.map((column, columnIndex) => (
                 <HeaderCell
                   key={column.key}
                   shouldWrap={wrapHeaderLabels}
                   isCondensed={condensedValue}
                   iconComponent={column.headerIcon}
-                  onColumnResized={props.onColumnResized}
+                  onColumnResized={onColumnResized}
                   disableResizing={column.disableResizing}
                   horizontalCellAlignment={
                     column.align ? column.align : horizontalCellAlignment
@@ -342,10 +1240,22 @@ const DataTable = <Row extends TRow = TRow>({
                   columnWidth={column.width}
                   /* Sorting Props */
                   onClick={props.onSortChange && props.onSortChange}
-                  sortedBy={props.sortedBy}
                   columnKey={column.key}
                   isSortable={column.isSortable}
-                  sortDirection={props.sortDirection}
+                  {...getColumnSortingProps(column.key)}
+                  pinnedPosition={pinnedColumns.getPinnedColumnPosition(
+                    column.key
+                  )}
+                  columnReorderingProps={columnReordering.getColumnReorderingProps(
+                    column.key
+                  )}
+                  tabIndex={keyboardNavigation.getCellTabIndex({
+                    rowIndex: -1,
+                    columnIndex,
+                  })}
+                  stickyOffset={columnGroups.getHeaderRowOffset(
+                    headerRowCount - 1
+                  )}
                 >
                   {column.label}
                 </HeaderCell>
@@ -353,59 +1263,65 @@ const DataTable = <Row extends TRow = TRow>({
             </TableRow>
           </TableHeader>
           <TableBody>
-            {/* TODO - initial poc for the nested rows - comment this out to visualize the onclick from the data-table-manager*/}
-            {/* {props.rows.map((row, rowIndex) => (
-              <td key={row.id}>
-                <DataRow<Row>
-                  {...props}
-                  isCondensed={condensedValue}
-                  columns={columnsData}
-                  row={row}
-                  key={row.id}
-                  rowIndex={rowIndex}
-                  shouldClipContent={
-                    columnResizingReducer.getIsAnyColumnBeingResized() ||
-                    hasTableBeenResized
-                  }
-                  shouldRenderBottomBorder={shouldRenderRowBottomBorder(
-                    rowIndex,
-                    props.rows.length,
-                    props.footer
-                  )}
-                   onRowClick={() => handleExpandRow(row)}
-                />
-                <div
-                  style={{
-                    display: openedItemIds.includes(row.id) ? 'block' : 'none',
-                  }}
-                >
-                  {props.renderNestedRow && props.renderNestedRow(row)}
-                </div>
-              </td >
-            ))} */}
-            {props.rows.map((row, rowIndex) => (
-              <DataRow<Row>
-                {...props}
-                itemRenderer={itemRenderer}
+            {hasErrorState && (
+              <TableRow isRowClickable={false}>
+                <TableStateCell data-testid="error-state">
+                  {props.renderErrorState?.(props.error as Error)}
+                </TableStateCell>
+              </TableRow>
+            )}
+            {shouldRenderSkeletonRows && (
+              <SkeletonRows<Row>
+                rowCount={skeletonRowCount}
+                columns={renderedColumns}
                 isCondensed={condensedValue}
-                verticalCellAlignment={verticalCellAlignment}
-                horizontalCellAlignment={horizontalCellAlignment}
-                columns={columnsData}
-                row={row}
-                key={row.id}
-                rowIndex={rowIndex}
-                shouldClipContent={
-                  columnResizingReducer.getIsAnyColumnBeingResized() ||
-                  Boolean(hasTableBeenResized)
-                }
-                shouldRenderBottomBorder={shouldRenderRowBottomBorder(
-                  rowIndex,
-                  props.rows.length,
-                  props.footer
-                )}
+                getPinnedColumnPosition={pinnedColumns.getPinnedColumnPosition}
               />
-            ))}
+            )}
+            {shouldRenderEmptyState && (
+              <TableRow isRowClickable={false}>
+                <TableStateCell data-testid="empty-state">
+                  {props.renderEmptyState?.()}
+                </TableStateCell>
+              </TableRow>
+            )}
+            {virtualization.paddingTop > 0 && (
+              <TableRow
+                isRowClickable={false}
+                aria-hidden="true"
+                data-virtual-spacer
+              >
+                <VirtualSpacerCell height={virtualization.paddingTop} />
+              </TableRow>
+            )}
+            {rowGrouping.rowGroups
+              ? renderRowGroups(rowGrouping.rowGroups)
+              : visibleRows
+                  .slice(virtualization.startIndex, virtualization.endIndex + 1)
+                  .map((row, index) =>
+                    renderRow(row, virtualization.startIndex + index)
+                  )}
+            {virtualization.paddingBottom > 0 && (
+              <TableRow
+                isRowClickable={false}
+                aria-hidden="true"
+                data-virtual-spacer
+              >
+                <VirtualSpacerCell height={virtualization.paddingBottom} />
+              </TableRow>
+            )}
+            {shouldRenderLoadingMoreRow && <LoadingMoreRow />}
           </TableBody>
+          {renderedColumns.some((column) => column.aggregate) && (
+            <AggregateRow<Row>
+              rows={props.rows}
+              columns={renderedColumns}
+              isCondensed={condensedValue}
+              verticalCellAlignment={verticalCellAlignment}
+              horizontalCellAlignment={horizontalCellAlignment}
+              getPinnedColumnPosition={pinnedColumns.getPinnedColumnPosition}
+            />
+          )}
         </ColumnResizingContext.Provider>
       </TableGrid>
       {props.footer && (
@@ -418,6 +1334,18 @@ const DataTable = <Row extends TRow = TRow>({
           {props.footer}
         </Footer>
       )}
+      {props.onRowReorder && (
+        <AccessibleHidden>
+          {/* announces the new position of the rows moved with the keyboard */}
+          <div aria-live="polite" data-testid="row-reorder-announcement">
+            {rowReordering.movedRowIndex !== undefined &&
+              intl.formatMessage(messages.rowMoved, {
+                position: rowReordering.movedRowIndex + 1,
+                count: props.rows.length,
+              })}
+          </div>
+        </AccessibleHidden>
+      )}
     </TableContainer>
   );
 };
@@ -1 +1,13 @@
-export type { TRow, TColumn, TDataTableProps } from './data-table';
+export type {
+  TRow,
+  TColumn,
+  TDataTableProps,
+  TDataTableActions,
+  TSortDescriptor,
+  TRowGroup,
+  TRowTone,
+  TColumnAggregate,
+} from './data-table';
+export type { TRenderedColumnMeasurements } from './use-manual-column-resizing-reducer';
+export type { TDataTableExportOptions } from './get-data-table-export-text';
+export type { TDelimitedTextFormat } from './utils/get-delimited-text';
@@ -0,0 +1,73 @@
+import getDataTableExportText from './get-data-table-export-text';
+
+const rows = [
+  { id: '1', title: 'Parasite', year: 2019, country: 'South Korea' },
+  { id: '2', title: 'Woman At "War"', year: 2018, country: 'Iceland, Ukraine' },
+];
+
+const columns = [
+  { key: 'title', label: 'Title' },
+  {
+    key: 'details',
+    label: 'Details',
+    children: [
+      { key: 'year', label: 'Year' },
+      { key: 'country', label: <span>Country</span> },
+    ],
+  },
+];
+
+describe('getDataTableExportText', () => {
+  it('should export the rows as CSV, with the labels of the leaf columns as header', () => {
+    expect(getDataTableExportText({ rows, columns })).toBe(
+      [
+        'Title,Year,country',
+        'Parasite,2019,South Korea',
+        '"Woman At ""War""",2018,"Iceland, Ukraine"',
+      ].join('\r\n')
+    );
+  });
+
+  it('should export the visible columns in their order', () => {
+    expect(
+      getDataTableExportText({
+        rows,
+        columns,
+        visibleColumnKeys: ['year', 'title'],
+        format: 'tsv',
+        shouldIncludeHeader: false,
+      })
+    ).toBe('2019\tParasite\n2018\t"Woman At ""War"""');
+  });
+
+  it('should export all the columns of the visible column groups', () => {
+    expect(
+      getDataTableExportText({
+        rows,
+        columns,
+        visibleColumnKeys: ['details', 'title'],
+        format: 'tsv',
+      })
+    ).toBe(
+      [
+        'Year\tcountry\tTitle',
+        '2019\tSouth Korea\tParasite',
+        '2018\tIceland, Ukraine\t"Woman At ""War"""',
+      ].join('\n')
+    );
+  });
+
+  it('should use the value extractors, or the text value of the columns', () => {
+    expect(
+      getDataTableExportText({
+        rows: [rows[0]],
+        columns: [
+          { key: 'title', label: 'Title', getTextValue: (row) => row.id },
+          { key: 'year', label: 'Year' },
+        ],
+        valueExtractors: { year: (row) => row.year + 1 },
+        shouldIncludeHeader: false,
+      })
+    ).toBe('1,2020');
+  });
+});
@@ -0,0 +1,91 @@
+import type { TColumn, TRow } from './data-table';
+import { getLeafColumns, getColumnGroupsByLeafKey } from './use-column-groups';
+import getDelimitedText, {
+  getCellText,
+  getValueText,
+  type TDelimitedTextFormat,
+} from './utils/get-delimited-text';
+
+export type TDataTableExportOptions<Row extends TRow = TRow> = {
+  /**
+   * The rows to be exported, usually the ones passed to the `DataTable`.
+   */
+  rows: Row[];
+  /**
+   * The column definitions of the `DataTable`. The columns of the column groups are exported as well.
+   */
+  columns: TColumn<Row>[];
+  /**
+   * The keys of the columns to be exported, in the order in which they are exported, such as the
+   * `visibleColumnKeys` of the `DataTableManager`. The keys of the column groups stand for all the columns
+   * of the groups. By default, all the columns are exported.
+   */
+  visibleColumnKeys?: string[];
+  /**
+   * Whether to produce comma-separated values, or tab-separated values which can be pasted into a spreadsheet.
+   */
+  format?: TDelimitedTextFormat;
+  /**
+   * Whether the first line contains the labels of the columns. The columns whose label is not
+   * plain text are named after their key.
+   */
+  shouldIncludeHeader?: boolean;
+  /**
+   * The functions extracting the exported value of each row, by column key.
+   * By default, the `getTextValue` function of the column is used, or the value of the row for the column key.
+   */
+  valueExtractors?: Record<string, (row: Row) => unknown>;
+};
+
+const getColumnHeaderText = <Row extends TRow = TRow>(column: TColumn<Row>) =>
+  getValueText(column.label) || column.key;
+
+/**
+ * Returns the rows as CSV or TSV text, with one column for each column of the `DataTable`
+ * (or each visible column of the `DataTableManager`), so that they can be exported as they are displayed.
+ * The values containing delimiters, line breaks or quotes are quoted.
+ */
+const getDataTableExportText = <Row extends TRow = TRow>({
+  rows,
+  columns,
+  visibleColumnKeys,
+  format = 'csv',
+  shouldIncludeHeader = true,
+  valueExtractors = {},
+}: TDataTableExportOptions<Row>) => {
+  const leafColumns = getLeafColumns(columns);
+  const groupsByLeafKey = getColumnGroupsByLeafKey(columns);
+  // the visible keys of the column groups stand for all the columns of the groups
+  const exportedColumns = visibleColumnKeys
+    ? visibleColumnKeys.flatMap((columnKey) =>
+        leafColumns.filter(
+          (column) =>
+            column.key === columnKey ||
+            groupsByLeafKey[column.key]?.some(
+              (group) => group.key === columnKey
+            )
+        )
+      )
+    : leafColumns;
+
+  const getExportedValue = (row: Row, column: TColumn<Row>) => {
+    const valueExtractor = valueExtractors[column.key];
+    return valueExtractor
+      ? getValueText(valueExtractor(row))
+      : getCellText(row, column);
+  };
+
+  return getDelimitedText(
+    [
+      ...(shouldIncludeHeader
+        ? [exportedColumns.map(getColumnHeaderText)]
+        : []),
+      ...rows.map((row) =>
+        exportedColumns.map((column) => getExportedValue(row, column))
+      ),
+    ],
+    format
+  );
+};
+
+export default getDataTableExportText;
@@ -1,8 +1,9 @@
 import { css, keyframes } from '@emotion/react';
 import styled from '@emotion/styled';
-import { getCellInnerStyles } from './cell.styles';
+import { getCellInnerStyles, getPinnedCellStyles } from './cell.styles';
 import { designTokens } from '@commercetools-uikit/design-system';
 import type { THeaderCell } from './header-cell';
+import type { TPinnedColumnPosition } from './use-pinned-columns';
 
 const getButtonStyle = () => css`
   cursor: pointer;
@@ -132,9 +133,30 @@ const HeaderCellInner = styled.div<THeaderCellInner>`
   ${(props) => (props.shouldWrap ? '' : 'white-space: nowrap')}
 `;
 
+/* When the table is sorted by multiple columns,
+ * the priority of each sorted column is shown next to its sorting icon
+ */
+const SortPriorityIndicator = styled.span`
+  display: inline-flex;
+  align-items: center;
+  justify-content: center;
+  flex-shrink: 0;
+  min-width: ${designTokens.spacing30};
+  height: ${designTokens.spacing30};
+  margin-left: ${designTokens.spacing10};
+  border-radius: ${designTokens.borderRadius20};
+  background-color: ${designTokens.colorNeutral90};
+  color: ${designTokens.colorNeutral40};
+  font-size: ${designTokens.fontSize10};
+  line-height: 1;
+`;
+
 type TBaseHeaderCell = {
   disableHeaderStickiness?: boolean;
   shouldClipContent?: boolean;
+  pinnedPosition?: TPinnedColumnPosition;
+  stickyOffset?: number;
+  columnSpan?: number;
 };
 const BaseHeaderCell = styled.th<TBaseHeaderCell>`
   color: ${designTokens.colorNeutral40};
@@ -142,8 +164,12 @@ const BaseHeaderCell = styled.th<TBaseHeaderCell>`
 
   position: ${(props) =>
     props.disableHeaderStickiness ? 'relative' : 'sticky'};
-  top: 0;
-  z-index: 1;
+  /* the header rows of the column groups are stacked above the header of the columns */
+  top: ${(props) => props.stickyOffset ?? 0}px;
+  ${(props) =>
+    props.columnSpan ? `grid-column: span ${props.columnSpan};` : ''}
+  /* keeps the header above the pinned data cells */
+  z-index: 2;
   line-height: ${designTokens.lineHeight40};
 
   /* remove user-agent styles */
@@ -169,12 +195,48 @@ const BaseHeaderCell = styled.th<TBaseHeaderCell>`
   it remains above the rest of the headers, preventing accidental hovers/flickering */
   :hover,
   :active {
-    z-index: 2;
+    z-index: 3;
   }
 
+  ${getPinnedCellStyles}
+  ${(props) =>
+    props.pinnedPosition
+      ? `
+    /* keeps the pinned headers above the scrolling ones */
+    z-index: 4;
+    ${props.disableHeaderStickiness ? 'top: auto;' : ''}
+    :hover,
+    :active {
+      z-index: 4;
+    }
+  `
+      : ''}
+
   ${HeaderCellInner} {
     ${(props) => (props.shouldClipContent ? 'overflow: hidden;' : '')}
   }
+
+  /* the header cells are focusable when the table can be navigated with the keyboard */
+  :focus-visible {
+    outline: ${designTokens.borderWidth2} solid ${designTokens.colorPrimary};
+    outline-offset: calc(-1 * ${designTokens.borderWidth2});
+  }
+
+  /* the columns can be reordered by dragging their headers */
+  &[draggable='true'] {
+    cursor: grab;
+  }
+  &[data-is-dragged='true'] {
+    opacity: 0.5;
+  }
+  &[data-drop-position='before'] {
+    box-shadow: inset ${designTokens.borderWidth2} 0 0
+      ${designTokens.colorPrimary};
+  }
+  &[data-drop-position='after'] {
+    box-shadow: inset calc(-1 * ${designTokens.borderWidth2}) 0 0
+      ${designTokens.colorPrimary};
+  }
 `;
 
 const HeaderLabelWrapper = styled.div`
@@ -210,4 +272,5 @@ export {
   HeaderLabelWrapper,
   HeaderLabelTextWrapper,
   HeaderIconWrapper,
+  SortPriorityIndicator,
 };
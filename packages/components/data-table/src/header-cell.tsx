@@ -3,9 +3,12 @@ import {
   useRef,
   type ReactNode,
   type ReactElement,
+  type AriaAttributes,
   type MouseEvent,
+  type KeyboardEvent,
   type RefObject,
 } from 'react';
+import { useIntl } from 'react-intl';
 import {
   AngleUpDownIcon,
   ArrowDownIcon,
@@ -18,12 +21,20 @@ import {
   HeaderIconWrapper,
   HeaderLabelTextWrapper,
   HeaderLabelWrapper,
+  SortPriorityIndicator,
 } from './header-cell.styles';
 import Resizer from './column-resizer';
 import ColumnResizingContext from './column-resizing-context';
 import isFixedWidthValue from './utils/is-fixed-width-value';
 import { warning } from '@commercetools-uikit/utils';
-import type { TColumn } from './data-table';
+import type { TPinnedColumnPosition } from './use-pinned-columns';
+import type { TColumnReorderingProps } from './use-column-reordering';
+import type { TRenderedColumnMeasurements } from './use-manual-column-resizing-reducer';
+import messages from './messages';
+
+// the amount of pixels by which a column is resized with the arrow keys (with and without the Shift key)
+const KEYBOARD_RESIZING_STEP = 10;
+const KEYBOARD_RESIZING_LARGE_STEP = 50;
 
 type THeaderRef = {
   cellIndex: string;
@@ -33,7 +44,15 @@ type TColumnResizingReducer = {
   startResizing: (headerRef: RefObject<THeaderRef>, event: MouseEvent) => void;
   onDrag: EventListenerOrEventListenerObject;
   onDragResizing: (event: globalThis.MouseEvent, cellIndex?: string) => void;
-  finishResizing: () => TColumn[];
+  finishResizing: () => TRenderedColumnMeasurements[];
+  fitColumnsToContent: (
+    columnIndexes: number[]
+  ) => TRenderedColumnMeasurements[];
+  resizeColumnBy: (
+    columnIndex: number,
+    widthChange: number
+  ) => TRenderedColumnMeasurements[];
+  getSizes: () => TRenderedColumnMeasurements[] | undefined;
   getIsColumnBeingResized: (cellIndex?: string) => {};
   getHasTableBeenResized: () => boolean;
   getIsAnyColumnBeingResized: () => boolean;
@@ -48,14 +67,23 @@ const HeaderCellWrapper = (
     | 'disableResizing'
     | 'disableHeaderStickiness'
     | 'onColumnResized'
-  >
+    | 'pinnedPosition'
+    | 'columnReorderingProps'
+    | 'tabIndex'
+    | 'stickyOffset'
+  > & {
+    ariaSort?: AriaAttributes['aria-sort'];
+  }
 ) => {
   const columnResizingReducer = useContext(
     ColumnResizingContext
   ) as TColumnResizingReducer;
   const headerRef = useRef<THeaderRef>(null);
+  const intl = useIntl();
 
   const onStartResizing = (event: MouseEvent) => {
+    // prevents the header from being dragged when the columns can be reordered
+    event.preventDefault();
     if (headerRef?.current) {
       columnResizingReducer.startResizing(
         headerRef as RefObject<THeaderRef>,
@@ -71,13 +99,74 @@ const HeaderCellWrapper = (
     const finalSizes = columnResizingReducer.finishResizing();
 
     if (props.onColumnResized) {
-      props.onColumnResized(finalSizes);
+      props.onColumnResized(finalSizes, [props.columnKey]);
     }
 
     window.removeEventListener('mousemove', onDrag);
     window.removeEventListener('mouseup', onDragEnd);
   };
 
+  // like in spreadsheets, double-clicking the resizer fits the column to its content
+  const onFitToContent = (event: MouseEvent) => {
+    event.stopPropagation();
+    if (!headerRef.current) return;
+    const finalSizes = columnResizingReducer.fitColumnsToContent([
+      Number(headerRef.current.cellIndex),
+    ]);
+
+    if (props.onColumnResized) {
+      props.onColumnResized(finalSizes, [props.columnKey]);
+    }
+  };
+
+  const onKeyboardResizing = (event: KeyboardEvent) => {
+    const direction =
+      event.key === 'ArrowLeft' ? -1 : event.key === 'ArrowRight' ? 1 : 0;
+    if (!direction || !headerRef.current) return;
+    // prevents the keyboard navigation of the table from moving the focus to another cell
+    event.preventDefault();
+    const step = event.shiftKey
+      ? KEYBOARD_RESIZING_LARGE_STEP
+      : KEYBOARD_RESIZING_STEP;
+    const finalSizes = columnResizingReducer.resizeColumnBy(
+      Number(headerRef.current.cellIndex),
+      direction * step
+    );
+
+    if (props.onColumnResized) {
+      props.onColumnResized(finalSizes, [props.columnKey]);
+    }
+  };
+
+  // in the keyboard navigation mode, the resizer is not part of the tab sequence,
+  // and it's reached by pressing Ctrl+Enter on the header cell instead
+  const isKeyboardNavigable = props.tabIndex !== undefined;
+  const onMoveFocusToResizer = (event: KeyboardEvent<HTMLElement>) => {
+    if (
+      event.target !== event.currentTarget ||
+      event.key !== 'Enter' ||
+      !(event.ctrlKey || event.metaKey)
+    )
+      return;
+    const resizer = event.currentTarget.querySelector<HTMLElement>(
+      ':scope > [role="separator"]'
+    );
+    if (!resizer) return;
+    // prevents the keyboard navigation of the table from activating the cell
+    event.preventDefault();
+    resizer.focus();
+  };
+
+  // the width of the column once measured, or its width when it's set in pixels
+  const measuredColumnWidth = columnResizingReducer
+    .getSizes()
+    ?.find((size) => size.key === props.columnKey)?.width;
+  const columnWidth =
+    measuredColumnWidth ??
+    (props.columnWidth?.endsWith('px')
+      ? parseFloat(props.columnWidth)
+      : undefined);
+
   if (
     columnResizingReducer.getIsColumnBeingResized(headerRef.current?.cellIndex)
   ) {
@@ -101,17 +190,41 @@ const HeaderCellWrapper = (
       data-id={props.columnKey}
       shouldClipContent={shouldClipContent}
       disableHeaderStickiness={props.disableHeaderStickiness}
+      pinnedPosition={props.pinnedPosition}
+      stickyOffset={props.stickyOffset}
+      tabIndex={props.tabIndex}
+      aria-sort={props.ariaSort}
+      onKeyDown={
+        isKeyboardNavigable && !props.disableResizing
+          ? onMoveFocusToResizer
+          : undefined
+      }
+      {...props.columnReorderingProps}
     >
       {props.children}
-      {!props.disableResizing && <Resizer onMouseDown={onStartResizing} />}
+      {!props.disableResizing && (
+        <Resizer
+          label={intl.formatMessage(messages.resizeColumn)}
+          columnWidth={columnWidth}
+          tabIndex={isKeyboardNavigable ? -1 : 0}
+          onMouseDown={onStartResizing}
+          onDoubleClick={onFitToContent}
+          onKeyDown={onKeyboardResizing}
+        />
+      )}
     </BaseHeaderCell>
   );
 };
 HeaderCellWrapper.displayName = 'HeaderCellWrapper';
 
 export type THeaderCell = {
-  onClick?: (columnKey: string, sortDirection: 'asc' | 'desc') => void;
+  onClick?: (
+    columnKey: string,
+    sortDirection: 'asc' | 'desc',
+    isMultiSort: boolean
+  ) => void;
   sortedBy?: string;
+  sortPriority?: number;
   children: ReactNode;
   columnKey: string;
   columnWidth?: string;
@@ -120,10 +233,18 @@ export type THeaderCell = {
   isCondensed?: boolean;
   sortDirection?: 'desc' | 'asc';
   disableResizing?: boolean;
-  onColumnResized?: (args: TColumn[]) => void;
+  // the keys of the columns whose width has been changed are passed along with the widths of all the columns
+  onColumnResized?: (
+    args: TRenderedColumnMeasurements[],
+    resizedColumnKeys: string[]
+  ) => void;
   disableHeaderStickiness?: boolean;
   horizontalCellAlignment?: 'left' | 'center' | 'right';
   iconComponent?: ReactNode | (() => ReactElement<TIconProps>);
+  pinnedPosition?: TPinnedColumnPosition;
+  columnReorderingProps?: TColumnReorderingProps;
+  tabIndex?: number;
+  stickyOffset?: number;
 };
 
 const HeaderCell = ({
@@ -134,18 +255,24 @@ const HeaderCell = ({
 }: THeaderCell) => {
   let sortableHeaderProps = {};
   let SortingIcon!: typeof ArrowDownIcon;
+  let ariaSort: AriaAttributes['aria-sort'];
 
   if (props.isSortable) {
     const isActive = props.sortedBy === props.columnKey;
     const nextSortDirection =
       !isActive || sortDirection === 'desc' ? 'asc' : 'desc';
     SortingIcon = sortDirection === 'desc' ? ArrowDownIcon : ArrowUpIcon;
+    if (isActive) {
+      ariaSort = sortDirection === 'desc' ? 'descending' : 'ascending';
+    }
 
     sortableHeaderProps = {
       as: 'button',
       label: sortDirection,
-      onClick: () =>
-        props.onClick && props.onClick(props.columnKey, nextSortDirection),
+      // holding the shift key adds the column to the existing sorting, instead of replacing it
+      onClick: (event: MouseEvent) =>
+        props.onClick &&
+        props.onClick(props.columnKey, nextSortDirection, event.shiftKey),
       isActive,
       isSortable: true,
     };
@@ -163,6 +290,11 @@ const HeaderCell = ({
       onColumnResized={props.onColumnResized}
       disableResizing={props.disableResizing}
       disableHeaderStickiness={disableHeaderStickiness}
+      pinnedPosition={props.pinnedPosition}
+      columnReorderingProps={props.columnReorderingProps}
+      tabIndex={props.tabIndex}
+      stickyOffset={props.stickyOffset}
+      ariaSort={ariaSort}
     >
       <HeaderCellInner
         shouldWrap={props.shouldWrap}
@@ -196,6 +328,13 @@ const HeaderCell = ({
               color="surface"
               data-icon-state="active"
             />
+            {props.sortPriority && (
+              <SortPriorityIndicator
+                data-testid={`sort-priority-${props.columnKey}`}
+              >
+                {props.sortPriority}
+              </SortPriorityIndicator>
+            )}
           </>
         )}
       </HeaderCellInner>
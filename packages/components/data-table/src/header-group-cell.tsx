@@ -0,0 +1,58 @@
+import type { ReactNode } from 'react';
+import {
+  BaseHeaderCell,
+  HeaderCellInner,
+  HeaderLabelTextWrapper,
+  HeaderLabelWrapper,
+} from './header-cell.styles';
+import type { TPinnedColumnPosition } from './use-pinned-columns';
+import type { TColumnReorderingProps } from './use-column-reordering';
+
+export type THeaderGroupCell = {
+  children?: ReactNode;
+  columnKey?: string;
+  columnSpan: number;
+  shouldWrap?: boolean;
+  isCondensed?: boolean;
+  disableHeaderStickiness?: boolean;
+  pinnedPosition?: TPinnedColumnPosition;
+  columnReorderingProps?: TColumnReorderingProps;
+  stickyOffset?: number;
+};
+
+/**
+ * The header cell of a group of columns, spanning all of its columns.
+ * Without a `columnKey`, it's rendered as an empty placeholder above a column which
+ * doesn't belong to any group at this level.
+ */
+const HeaderGroupCell = ({
+  disableHeaderStickiness = false,
+  ...props
+}: THeaderGroupCell) => (
+  <BaseHeaderCell
+    data-testid={props.columnKey && `header-group-${props.columnKey}`}
+    data-id={props.columnKey}
+    colSpan={props.columnSpan}
+    columnSpan={props.columnSpan}
+    disableHeaderStickiness={disableHeaderStickiness}
+    pinnedPosition={props.pinnedPosition}
+    stickyOffset={props.stickyOffset}
+    shouldClipContent
+    {...props.columnReorderingProps}
+  >
+    {props.columnKey && (
+      <HeaderCellInner
+        shouldWrap={props.shouldWrap}
+        isCondensed={props.isCondensed}
+        horizontalCellAlignment="center"
+      >
+        <HeaderLabelWrapper>
+          <HeaderLabelTextWrapper>{props.children}</HeaderLabelTextWrapper>
+        </HeaderLabelWrapper>
+      </HeaderCellInner>
+    )}
+  </BaseHeaderCell>
+);
+HeaderGroupCell.displayName = 'HeaderGroupCell';
+
+export default HeaderGroupCell;
@@ -1,4 +1,5 @@
 export { default } from './data-table';
 export { useRowSelection, useSorting } from '@commercetools-uikit/hooks';
+export { default as getDataTableExportText } from './get-data-table-export-text';
 export { default as version } from './version';
 export * from './export-types';
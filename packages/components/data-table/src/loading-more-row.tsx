@@ -0,0 +1,25 @@
+import { useIntl } from 'react-intl';
+import LoadingSpinner from '@commercetools-uikit/loading-spinner';
+import { TableRow } from './data-table.styles';
+import { LoadingMoreCell } from './cell.styles';
+import messages from './messages';
+
+/**
+ * The row rendered at the bottom of the table while more rows are being loaded.
+ */
+const LoadingMoreRow = () => {
+  const intl = useIntl();
+
+  return (
+    <TableRow isRowClickable={false} data-testid="loading-more-row">
+      <LoadingMoreCell>
+        <LoadingSpinner scale="s" maxDelayDuration={0}>
+          {intl.formatMessage(messages.loadingMoreRows)}
+        </LoadingSpinner>
+      </LoadingMoreCell>
+    </TableRow>
+  );
+};
+LoadingMoreRow.displayName = 'LoadingMoreRow';
+
+export default LoadingMoreRow;
@@ -0,0 +1,97 @@
+import { defineMessages } from 'react-intl';
+
+export default defineMessages({
+  expandRow: {
+    id: 'UIKit.DataTable.expandRow',
+    description: 'Label for the button to show the nested content of a row.',
+    defaultMessage: 'Expand row',
+  },
+  collapseRow: {
+    id: 'UIKit.DataTable.collapseRow',
+    description: 'Label for the button to hide the nested content of a row.',
+    defaultMessage: 'Collapse row',
+  },
+  selectRow: {
+    id: 'UIKit.DataTable.selectRow',
+    description: 'Label for the checkbox to select a row.',
+    defaultMessage: 'Select row',
+  },
+  selectAllPageRows: {
+    id: 'UIKit.DataTable.selectAllPageRows',
+    description: 'Label for the checkbox to select all the rows of the page.',
+    defaultMessage: 'Select all rows on this page',
+  },
+  allPageRowsSelected: {
+    id: 'UIKit.DataTable.allPageRowsSelected',
+    description:
+      'Message shown when all the rows of the current page are selected.',
+    defaultMessage:
+      'All {count, plural, one {# row} other {# rows}} on this page are selected.',
+  },
+  selectAllRows: {
+    id: 'UIKit.DataTable.selectAllRows',
+    description: 'Label for the button to select the rows of all the pages.',
+    defaultMessage: 'Select all {total} rows',
+  },
+  allRowsSelected: {
+    id: 'UIKit.DataTable.allRowsSelected',
+    description: 'Message shown when the rows of all the pages are selected.',
+    defaultMessage: 'All {total} rows are selected.',
+  },
+  clearSelection: {
+    id: 'UIKit.DataTable.clearSelection',
+    description: 'Label for the button to deselect all the rows.',
+    defaultMessage: 'Clear selection',
+  },
+  expandGroup: {
+    id: 'UIKit.DataTable.expandGroup',
+    description: 'Label for the button to show the rows of a group.',
+    defaultMessage: 'Expand group',
+  },
+  collapseGroup: {
+    id: 'UIKit.DataTable.collapseGroup',
+    description: 'Label for the button to hide the rows of a group.',
+    defaultMessage: 'Collapse group',
+  },
+  noValueGroup: {
+    id: 'UIKit.DataTable.noValueGroup',
+    description:
+      'Shown in the header of the group of the rows without a value for the grouping key.',
+    defaultMessage: 'No value',
+  },
+  groupRowCount: {
+    id: 'UIKit.DataTable.groupRowCount',
+    description: 'The number of rows of a group, shown in its header.',
+    defaultMessage: '{count, plural, one {# row} other {# rows}}',
+  },
+  resizeColumn: {
+    id: 'UIKit.DataTable.resizeColumn',
+    description:
+      'Label for the handle to resize a column, which can be moved with the arrow keys.',
+    defaultMessage: 'Resize column',
+  },
+  loadingMoreRows: {
+    id: 'UIKit.DataTable.loadingMoreRows',
+    description:
+      'Message shown at the bottom of the table while more rows are being loaded.',
+    defaultMessage: 'Loading more rows',
+  },
+  loadingChildRows: {
+    id: 'UIKit.DataTable.loadingChildRows',
+    description:
+      'Label of the indicator shown while the children of an expanded row are being loaded.',
+    defaultMessage: 'Loading child rows',
+  },
+  reorderRow: {
+    id: 'UIKit.DataTable.reorderRow',
+    description:
+      'Label for the handle to reorder a row, which can be dragged or moved with the arrow keys.',
+    defaultMessage: 'Reorder row',
+  },
+  rowMoved: {
+    id: 'UIKit.DataTable.rowMoved',
+    description:
+      'Message announced to screen readers when a row has been moved with the keyboard.',
+    defaultMessage: 'Row moved to position {position} of {count}',
+  },
+});
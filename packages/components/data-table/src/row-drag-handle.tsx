@@ -0,0 +1,57 @@
+import { useRef, useLayoutEffect, type KeyboardEvent } from 'react';
+import { useIntl } from 'react-intl';
+import { DragIcon } from '@commercetools-uikit/icons';
+import { RowDragHandle as RowDragHandleWrapper } from './cell.styles';
+import type { TRowDragHandleProps } from './use-row-reordering';
+import messages from './messages';
+
+type TRowDragHandle = {
+  dragHandleProps: TRowDragHandleProps;
+  onMove: (offset: number) => void;
+  shouldFocus: boolean;
+  onFocused: () => void;
+};
+
+/**
+ * The handle to reorder a row, which can be dragged onto another row,
+ * or moved one position up or down with the arrow keys once focused.
+ */
+const RowDragHandle = (props: TRowDragHandle) => {
+  const intl = useIntl();
+  const handleRef = useRef<HTMLDivElement>(null);
+  const { shouldFocus, onFocused } = props;
+
+  // the handle keeps the focus once its row has been moved with the keyboard
+  useLayoutEffect(() => {
+    if (!shouldFocus) return;
+    handleRef.current?.focus();
+    onFocused();
+  }, [shouldFocus, onFocused]);
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    const offset =
+      event.key === 'ArrowUp' ? -1 : event.key === 'ArrowDown' ? 1 : 0;
+    if (!offset) return;
+    // prevents the table from being scrolled
+    event.preventDefault();
+    props.onMove(offset);
+  };
+
+  return (
+    <RowDragHandleWrapper
+      ref={handleRef}
+      role="button"
+      tabIndex={0}
+      aria-label={intl.formatMessage(messages.reorderRow)}
+      aria-keyshortcuts="ArrowUp ArrowDown"
+      onKeyDown={handleKeyDown}
+      onClick={(event) => event.stopPropagation()}
+      {...props.dragHandleProps}
+    >
+      <DragIcon size="medium" color="neutral60" />
+    </RowDragHandleWrapper>
+  );
+};
+RowDragHandle.displayName = 'RowDragHandle';
+
+export default RowDragHandle;
@@ -0,0 +1,31 @@
+import { useIntl } from 'react-intl';
+import SecondaryIconButton from '@commercetools-uikit/secondary-icon-button';
+import { AngleDownIcon, AngleRightIcon } from '@commercetools-uikit/icons';
+import messages from './messages';
+
+type TRowExpansionToggle = {
+  isExpanded: boolean;
+  onToggle: () => void;
+};
+
+const RowExpansionToggle = (props: TRowExpansionToggle) => {
+  const intl = useIntl();
+
+  return (
+    <SecondaryIconButton
+      size="20"
+      icon={props.isExpanded ? <AngleDownIcon /> : <AngleRightIcon />}
+      label={intl.formatMessage(
+        props.isExpanded ? messages.collapseRow : messages.expandRow
+      )}
+      aria-expanded={props.isExpanded}
+      onClick={(event) => {
+        event.stopPropagation();
+        props.onToggle();
+      }}
+    />
+  );
+};
+RowExpansionToggle.displayName = 'RowExpansionToggle';
+
+export default RowExpansionToggle;
@@ -0,0 +1,65 @@
+import type { ReactNode } from 'react';
+import { useIntl } from 'react-intl';
+import SecondaryIconButton from '@commercetools-uikit/secondary-icon-button';
+import { AngleDownIcon, AngleRightIcon } from '@commercetools-uikit/icons';
+import { TableRow } from './data-table.styles';
+import {
+  RowGroupHeaderCell,
+  RowGroupHeaderContent,
+  RowGroupRowCount,
+} from './cell.styles';
+import type { TRow, TRowGroup } from './data-table';
+import { NO_VALUE_GROUP_KEY } from './use-row-grouping';
+import messages from './messages';
+
+type TRowGroupHeader<Row extends TRow = TRow> = {
+  rowGroup: TRowGroup<Row>;
+  onToggle: () => void;
+  renderGroupHeader?: (rowGroup: TRowGroup<Row>) => ReactNode;
+};
+
+const RowGroupHeader = <Row extends TRow = TRow>(
+  props: TRowGroupHeader<Row>
+) => {
+  const intl = useIntl();
+  const { rowGroup } = props;
+
+  return (
+    <TableRow isRowClickable={false}>
+      <RowGroupHeaderCell data-testid={`row-group-${rowGroup.key}`}>
+        <RowGroupHeaderContent>
+          <SecondaryIconButton
+            size="20"
+            icon={rowGroup.isCollapsed ? <AngleRightIcon /> : <AngleDownIcon />}
+            label={intl.formatMessage(
+              rowGroup.isCollapsed
+                ? messages.expandGroup
+                : messages.collapseGroup
+            )}
+            aria-expanded={!rowGroup.isCollapsed}
+            onClick={props.onToggle}
+          />
+          {props.renderGroupHeader ? (
+            props.renderGroupHeader(rowGroup)
+          ) : (
+            <>
+              <span>
+                {rowGroup.key === NO_VALUE_GROUP_KEY
+                  ? intl.formatMessage(messages.noValueGroup)
+                  : rowGroup.key}
+              </span>
+              <RowGroupRowCount>
+                {intl.formatMessage(messages.groupRowCount, {
+                  count: rowGroup.rows.length,
+                })}
+              </RowGroupRowCount>
+            </>
+          )}
+        </RowGroupHeaderContent>
+      </RowGroupHeaderCell>
+    </TableRow>
+  );
+};
+RowGroupHeader.displayName = 'RowGroupHeader';
+
+export default RowGroupHeader;
@@ -0,0 +1,78 @@
+import { useIntl } from 'react-intl';
+import styled from '@emotion/styled';
+import { designTokens } from '@commercetools-uikit/design-system';
+import FlatButton from '@commercetools-uikit/flat-button';
+import messages from './messages';
+
+type TRowSelectionBanner = {
+  pageRowCount: number;
+  totalRowCount: number;
+  areAllRowsSelected: boolean;
+  onSelectAllRows: () => void;
+  onClearSelection: () => void;
+  resizedTotalWidth?: number;
+};
+
+const RowSelectionBannerEl = styled.div<
+  Pick<TRowSelectionBanner, 'resizedTotalWidth'>
+>`
+  box-sizing: border-box;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  gap: ${designTokens.spacing20};
+  padding: ${designTokens.spacing20} ${designTokens.spacing30};
+  background-color: ${designTokens.colorPrimary95};
+  border-bottom: 1px solid ${designTokens.colorNeutral90};
+  font-size: ${designTokens.fontSize20};
+  width: 100%;
+  ${(props) =>
+    props.resizedTotalWidth ? `max-width: ${props.resizedTotalWidth}px;` : ''}
+`;
+
+/**
+ * Offers to extend the selection to the rows of all the pages,
+ * once all the rows of the current page have been selected.
+ */
+const RowSelectionBanner = (props: TRowSelectionBanner) => {
+  const intl = useIntl();
+
+  return (
+    <RowSelectionBannerEl
+      role="status"
+      data-testid="row-selection-banner"
+      resizedTotalWidth={props.resizedTotalWidth}
+    >
+      {props.areAllRowsSelected ? (
+        <>
+          <span>
+            {intl.formatMessage(messages.allRowsSelected, {
+              total: props.totalRowCount,
+            })}
+          </span>
+          <FlatButton
+            label={intl.formatMessage(messages.clearSelection)}
+            onClick={props.onClearSelection}
+          />
+        </>
+      ) : (
+        <>
+          <span>
+            {intl.formatMessage(messages.allPageRowsSelected, {
+              count: props.pageRowCount,
+            })}
+          </span>
+          <FlatButton
+            label={intl.formatMessage(messages.selectAllRows, {
+              total: props.totalRowCount,
+            })}
+            onClick={props.onSelectAllRows}
+          />
+        </>
+      )}
+    </RowSelectionBannerEl>
+  );
+};
+RowSelectionBanner.displayName = 'RowSelectionBanner';
+
+export default RowSelectionBanner;
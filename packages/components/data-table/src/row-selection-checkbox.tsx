@@ -0,0 +1,32 @@
+import type { ChangeEvent } from 'react';
+import { useIntl } from 'react-intl';
+import CheckboxInput from '@commercetools-uikit/checkbox-input';
+import messages from './messages';
+
+type TRowSelectionCheckbox = {
+  isChecked: boolean;
+  isIndeterminate?: boolean;
+  isHeader?: boolean;
+  onToggle: (isRangeSelection: boolean) => void;
+};
+
+const RowSelectionCheckbox = (props: TRowSelectionCheckbox) => {
+  const intl = useIntl();
+
+  return (
+    <CheckboxInput
+      isChecked={props.isChecked}
+      isIndeterminate={props.isIndeterminate}
+      aria-label={intl.formatMessage(
+        props.isHeader ? messages.selectAllPageRows : messages.selectRow
+      )}
+      onChange={(event: ChangeEvent<HTMLInputElement>) => {
+        // the change of a checkbox is triggered by a click, which holds the state of the modifier keys
+        props.onToggle(Boolean((event.nativeEvent as MouseEvent).shiftKey));
+      }}
+    />
+  );
+};
+RowSelectionCheckbox.displayName = 'RowSelectionCheckbox';
+
+export default RowSelectionCheckbox;
@@ -0,0 +1,55 @@
+import { TableRow } from './data-table.styles';
+import { BaseCell, CellInner, SkeletonBlock } from './cell.styles';
+import type { TColumn, TRow } from './data-table';
+import type { TPinnedColumnPosition } from './use-pinned-columns';
+
+type TSkeletonRows<Row extends TRow = TRow> = {
+  rowCount: number;
+  columns: TColumn<Row>[];
+  isCondensed?: boolean;
+  getPinnedColumnPosition?: (
+    columnKey: string
+  ) => TPinnedColumnPosition | undefined;
+};
+
+// the placeholders have different widths, so that they resemble the text of the cells
+const SKELETON_WIDTHS = ['80%', '55%', '70%', '45%'];
+
+/**
+ * Placeholder rows rendered while the rows of the table are being loaded,
+ * with a cell for each column so that they follow the layout of the table.
+ */
+const SkeletonRows = <Row extends TRow = TRow>(props: TSkeletonRows<Row>) => (
+  <>
+    {Array.from({ length: props.rowCount }, (_, rowIndex) => (
+      <TableRow
+        key={rowIndex}
+        isRowClickable={false}
+        aria-hidden="true"
+        data-testid="skeleton-row"
+      >
+        {props.columns.map((column, columnIndex) => (
+          <BaseCell
+            key={column.key}
+            shouldIgnoreRowClick
+            shouldRenderBottomBorder
+            pinnedPosition={props.getPinnedColumnPosition?.(column.key)}
+          >
+            <CellInner isCondensed={props.isCondensed}>
+              <SkeletonBlock
+                width={
+                  SKELETON_WIDTHS[
+                    (rowIndex + columnIndex) % SKELETON_WIDTHS.length
+                  ]
+                }
+              />
+            </CellInner>
+          </BaseCell>
+        ))}
+      </TableRow>
+    ))}
+  </>
+);
+SkeletonRows.displayName = 'SkeletonRows';
+
+export default SkeletonRows;
@@ -0,0 +1,50 @@
+import { type ReactNode } from 'react';
+import { useIntl } from 'react-intl';
+import LoadingSpinner from '@commercetools-uikit/loading-spinner';
+import { TreeCellContent, TreeRowToggleSlot } from './cell.styles';
+import RowExpansionToggle from './row-expansion-toggle';
+import type { TTreeRowInfo } from './use-tree-rows';
+import messages from './messages';
+
+type TTreeCell = {
+  treeRowInfo: TTreeRowInfo;
+  isExpanded: boolean;
+  onToggle: () => void;
+  children: ReactNode;
+};
+
+/**
+ * The content of the tree column, indented according to the level of the row, and
+ * preceded by the control to expand and collapse its children.
+ */
+const TreeCell = (props: TTreeCell) => {
+  const intl = useIntl();
+  const { depth, hasChildren, isLoadingChildren } = props.treeRowInfo;
+
+  return (
+    <TreeCellContent depth={depth}>
+      <TreeRowToggleSlot>
+        {isLoadingChildren ? (
+          <span
+            role="status"
+            aria-label={intl.formatMessage(messages.loadingChildRows)}
+            data-testid="tree-row-loading"
+          >
+            <LoadingSpinner scale="s" maxDelayDuration={0} />
+          </span>
+        ) : (
+          hasChildren && (
+            <RowExpansionToggle
+              isExpanded={props.isExpanded}
+              onToggle={props.onToggle}
+            />
+          )
+        )}
+      </TreeRowToggleSlot>
+      <div>{props.children}</div>
+    </TreeCellContent>
+  );
+};
+TreeCell.displayName = 'TreeCell';
+
+export default TreeCell;
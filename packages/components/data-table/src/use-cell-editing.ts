@@ -0,0 +1,40 @@
+import { useState, useCallback, useDebugValue } from 'react';
+
+export type TEditingCell = {
+  rowId: string;
+  columnKey: string;
+};
+
+/**
+ * Keeps track of the cell which is currently being edited.
+ * Only one cell of the table can be edited at a time, so starting to edit a cell
+ * stops the editing of the previous one.
+ */
+const useCellEditing = () => {
+  const [editingCell, setEditingCell] = useState<TEditingCell>();
+
+  useDebugValue(editingCell);
+
+  const getIsCellBeingEdited = useCallback(
+    (rowId: string, columnKey: string) =>
+      editingCell?.rowId === rowId && editingCell.columnKey === columnKey,
+    [editingCell]
+  );
+
+  const startEditing = useCallback((rowId: string, columnKey: string) => {
+    setEditingCell({ rowId, columnKey });
+  }, []);
+
+  const stopEditing = useCallback(() => {
+    setEditingCell(undefined);
+  }, []);
+
+  return {
+    editingCell,
+    getIsCellBeingEdited,
+    startEditing,
+    stopEditing,
+  };
+};
+
+export default useCellEditing;
@@ -0,0 +1,82 @@
+import { renderHook, act } from '@testing-library/react';
+import useCellRangeSelection, {
+  normalizeCellRange,
+} from './use-cell-range-selection';
+
+describe('normalizeCellRange', () => {
+  it('should return the boundaries of the range in any direction', () => {
+    expect(
+      normalizeCellRange({
+        start: { rowIndex: 4, columnIndex: 1 },
+        end: { rowIndex: 2, columnIndex: 3 },
+      })
+    ).toEqual({
+      firstRowIndex: 2,
+      lastRowIndex: 4,
+      firstColumnIndex: 1,
+      lastColumnIndex: 3,
+    });
+  });
+});
+
+describe('useCellRangeSelection', () => {
+  it('should select a single cell', () => {
+    const { result } = renderHook(() => useCellRangeSelection());
+    expect(result.current.selectedCellRange).toBeUndefined();
+
+    act(() => {
+      result.current.selectCell({ rowIndex: 1, columnIndex: 2 }, false);
+    });
+    expect(
+      result.current.getIsCellSelected({ rowIndex: 1, columnIndex: 2 })
+    ).toBe(true);
+    expect(
+      result.current.getIsCellSelected({ rowIndex: 1, columnIndex: 1 })
+    ).toBe(false);
+  });
+
+  it('should extend the selection from the start of the range', () => {
+    const { result } = renderHook(() => useCellRangeSelection());
+
+    act(() => {
+      result.current.selectCell({ rowIndex: 1, columnIndex: 2 }, false);
+    });
+    act(() => {
+      result.current.selectCell({ rowIndex: 3, columnIndex: 0 }, true);
+    });
+    act(() => {
+      result.current.selectCell({ rowIndex: 0, columnIndex: 0 }, true);
+    });
+    expect(result.current.selectedCellRange).toEqual({
+      firstRowIndex: 0,
+      lastRowIndex: 1,
+      firstColumnIndex: 0,
+      lastColumnIndex: 2,
+    });
+    expect(
+      result.current.getIsCellSelected({ rowIndex: 0, columnIndex: 1 })
+    ).toBe(true);
+  });
+
+  it('should start a new range when not extending the selection', () => {
+    const { result } = renderHook(() => useCellRangeSelection());
+
+    act(() => {
+      result.current.selectCell({ rowIndex: 1, columnIndex: 2 }, false);
+    });
+    act(() => {
+      result.current.selectCell({ rowIndex: 3, columnIndex: 0 }, false);
+    });
+    expect(result.current.selectedCellRange).toEqual({
+      firstRowIndex: 3,
+      lastRowIndex: 3,
+      firstColumnIndex: 0,
+      lastColumnIndex: 0,
+    });
+
+    act(() => {
+      result.current.clearSelection();
+    });
+    expect(result.current.selectedCellRange).toBeUndefined();
+  });
+});
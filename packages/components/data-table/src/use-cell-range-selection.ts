@@ -0,0 +1,72 @@
+import { useState, useCallback, useDebugValue } from 'react';
+import type { TCellPosition } from './use-keyboard-navigation';
+
+/**
+ * A block of cells, from the cell where the selection started to the cell where it ended.
+ */
+export type TCellRange = {
+  start: TCellPosition;
+  end: TCellPosition;
+};
+
+export type TNormalizedCellRange = {
+  firstRowIndex: number;
+  lastRowIndex: number;
+  firstColumnIndex: number;
+  lastColumnIndex: number;
+};
+
+// the selection can be extended in any direction, so the start might come after the end
+export const normalizeCellRange = ({
+  start,
+  end,
+}: TCellRange): TNormalizedCellRange => ({
+  firstRowIndex: Math.min(start.rowIndex, end.rowIndex),
+  lastRowIndex: Math.max(start.rowIndex, end.rowIndex),
+  firstColumnIndex: Math.min(start.columnIndex, end.columnIndex),
+  lastColumnIndex: Math.max(start.columnIndex, end.columnIndex),
+});
+
+/**
+ * Keeps track of the block of data cells selected by the user.
+ * Selecting a cell starts a new range, unless the selection is extended from the start of
+ * the current range (e.g. with shift-click).
+ */
+const useCellRangeSelection = () => {
+  const [cellRange, setCellRange] = useState<TCellRange>();
+
+  useDebugValue(cellRange);
+
+  const selectCell = useCallback(
+    (cellPosition: TCellPosition, isExtendingSelection: boolean) => {
+      setCellRange((currentCellRange) =>
+        isExtendingSelection && currentCellRange
+          ? { start: currentCellRange.start, end: cellPosition }
+          : { start: cellPosition, end: cellPosition }
+      );
+    },
+    []
+  );
+
+  const clearSelection = useCallback(() => setCellRange(undefined), []);
+
+  const normalizedCellRange = cellRange && normalizeCellRange(cellRange);
+
+  const getIsCellSelected = ({ rowIndex, columnIndex }: TCellPosition) =>
+    Boolean(
+      normalizedCellRange &&
+        rowIndex >= normalizedCellRange.firstRowIndex &&
+        rowIndex <= normalizedCellRange.lastRowIndex &&
+        columnIndex >= normalizedCellRange.firstColumnIndex &&
+        columnIndex <= normalizedCellRange.lastColumnIndex
+    );
+
+  return {
+    selectedCellRange: normalizedCellRange,
+    selectCell,
+    clearSelection,
+    getIsCellSelected,
+  };
+};
+
+export default useCellRangeSelection;
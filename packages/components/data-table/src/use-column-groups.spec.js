@@ -0,0 +1,89 @@
+import { getHeaderGroupRows, getLeafColumns } from './use-column-groups';
+
+const columns = [
+  { key: 'name' },
+  {
+    key: 'price',
+    pin: 'right',
+    children: [
+      { key: 'net', pin: 'left' },
+      { key: 'gross' },
+      {
+        key: 'details',
+        children: [{ key: 'currency' }, { key: 'taxRate' }],
+      },
+    ],
+  },
+  { key: 'stock' },
+];
+
+describe('getLeafColumns', () => {
+  it('should return the columns of the groups, pinned together with their group', () => {
+    expect(getLeafColumns(columns)).toEqual([
+      { key: 'name' },
+      { key: 'net', pin: 'right' },
+      { key: 'gross', pin: 'right' },
+      { key: 'currency', pin: 'right' },
+      { key: 'taxRate', pin: 'right' },
+      { key: 'stock' },
+    ]);
+  });
+  it('should return the same columns when none of them is grouped', () => {
+    const flatColumns = [{ key: 'name' }, { key: 'stock' }];
+
+    expect(getLeafColumns(flatColumns)).toEqual(flatColumns);
+  });
+});
+
+describe('getHeaderGroupRows', () => {
+  it('should return a header row for each level of the groups', () => {
+    const headerGroupRows = getHeaderGroupRows(
+      columns,
+      getLeafColumns(columns)
+    );
+
+    expect(
+      headerGroupRows.map((headerGroupRow) =>
+        headerGroupRow.map(({ column, columnStart, columnSpan }) => [
+          column?.key,
+          columnStart,
+          columnSpan,
+        ])
+      )
+    ).toEqual([
+      [
+        [undefined, 0, 1],
+        ['price', 1, 4],
+        [undefined, 5, 1],
+      ],
+      [
+        [undefined, 0, 1],
+        [undefined, 1, 1],
+        [undefined, 2, 1],
+        ['details', 3, 2],
+        [undefined, 5, 1],
+      ],
+    ]);
+  });
+  it('should follow the order of the rendered columns', () => {
+    const leafColumns = [
+      { key: 'utility' },
+      ...getLeafColumns(columns.slice(0, 2)),
+    ];
+
+    expect(
+      getHeaderGroupRows(columns, leafColumns)[0].map(
+        ({ column, columnSpan }) => [column?.key, columnSpan]
+      )
+    ).toEqual([
+      [undefined, 1],
+      [undefined, 1],
+      ['price', 4],
+    ]);
+  });
+  it('should not return any header row when none of the columns is grouped', () => {
+    const flatColumns = [{ key: 'name' }, { key: 'stock' }];
+
+    expect(getHeaderGroupRows(flatColumns, flatColumns)).toEqual([]);
+  });
+});
@@ -0,0 +1,151 @@
+import {
+  useState,
+  useCallback,
+  useLayoutEffect,
+  useDebugValue,
+  type RefObject,
+} from 'react';
+import isEqual from 'lodash/isEqual';
+import type { TColumn } from './data-table';
+
+type TTableRef = RefObject<HTMLTableElement | undefined | null>;
+
+type TGroupableColumn = Pick<TColumn, 'key' | 'pin'> & {
+  children?: TGroupableColumn[];
+};
+
+/**
+ * A cell of the header rows rendered above the header of the leaf columns.
+ * When the leaf column at `columnStart` doesn't belong to a group at this level,
+ * the cell is a placeholder without a `column`.
+ */
+export type THeaderGroupCell<Column extends TGroupableColumn> = {
+  column?: Column;
+  columnStart: number;
+  columnSpan: number;
+};
+
+const getIsColumnGroup = (column: TGroupableColumn) =>
+  Boolean(column.children && column.children.length > 0);
+
+// the columns of a group are pinned together with the group, so that they are kept next to each other
+export const getLeafColumns = <Column extends TGroupableColumn>(
+  columns: Column[]
+): Column[] =>
+  columns.flatMap((column) =>
+    getIsColumnGroup(column)
+      ? getLeafColumns(column.children as Column[]).map((leafColumn) => ({
+          ...leafColumn,
+          pin: column.pin,
+        }))
+      : [column]
+  );
+
+// the groups containing each leaf column, starting from the outermost one
+export const getColumnGroupsByLeafKey = <Column extends TGroupableColumn>(
+  columns: Column[],
+  parentGroups: Column[] = []
+): Record<string, Column[]> =>
+  columns.reduce<Record<string, Column[]>>((groupsByLeafKey, column) => {
+    if (!getIsColumnGroup(column)) {
+      return { ...groupsByLeafKey, [column.key]: parentGroups };
+    }
+    return {
+      ...groupsByLeafKey,
+      ...getColumnGroupsByLeafKey(column.children as Column[], [
+        ...parentGroups,
+        column,
+      ]),
+    };
+  }, {});
+
+/**
+ * Returns the header rows of the column groups, ordered from the outermost groups.
+ * Each row covers all the `leafColumns` (in the order they are rendered), and consecutive
+ * leaf columns belonging to the same group are covered by a single cell.
+ */
+export const getHeaderGroupRows = <Column extends TGroupableColumn>(
+  columns: Column[],
+  leafColumns: Pick<TGroupableColumn, 'key'>[]
+): THeaderGroupCell<Column>[][] => {
+  const groupsByLeafKey = getColumnGroupsByLeafKey(columns);
+  const depth = Math.max(
+    0,
+    ...Object.values(groupsByLeafKey).map((groups) => groups.length)
+  );
+
+  return Array.from({ length: depth }, (_, level) =>
+    leafColumns.reduce<THeaderGroupCell<Column>[]>(
+      (cells, leafColumn, columnIndex) => {
+        const group = groupsByLeafKey[leafColumn.key]?.[level];
+        const previousCell = cells[cells.length - 1];
+        if (group && previousCell?.column?.key === group.key) {
+          previousCell.columnSpan += 1;
+          return cells;
+        }
+        return [
+          ...cells,
+          { column: group, columnStart: columnIndex, columnSpan: 1 },
+        ];
+      },
+      []
+    )
+  );
+};
+
+const measureHeaderRowHeights = (table: HTMLTableElement) =>
+  Array.from(table.querySelectorAll(':scope > thead > tr')).map(
+    (headerRow) =>
+      headerRow.firstElementChild?.getBoundingClientRect().height ?? 0
+  );
+
+/**
+ * Computes the header rows of the column groups, together with the sticky offsets
+ * of the header rows, which depend on the rendered heights of the rows above them.
+ */
+const useColumnGroups = <Column extends TGroupableColumn>(
+  tableRef: TTableRef,
+  columns: Column[],
+  leafColumns: Pick<TGroupableColumn, 'key'>[]
+) => {
+  const [headerRowHeights, setHeaderRowHeights] = useState<number[]>([]);
+  const headerGroupRows = getHeaderGroupRows(columns, leafColumns);
+  const hasColumnGroups = headerGroupRows.length > 0;
+
+  const updateHeaderRowHeights = useCallback(() => {
+    if (!tableRef.current) return;
+    const measuredHeaderRowHeights = measureHeaderRowHeights(tableRef.current);
+    setHeaderRowHeights((currentHeaderRowHeights) =>
+      isEqual(currentHeaderRowHeights, measuredHeaderRowHeights)
+        ? currentHeaderRowHeights
+        : measuredHeaderRowHeights
+    );
+  }, [tableRef]);
+
+  // measure the header rows after every render, as their content might have changed
+  useLayoutEffect(() => {
+    if (hasColumnGroups) updateHeaderRowHeights();
+  });
+
+  useLayoutEffect(() => {
+    if (!hasColumnGroups || !tableRef.current) return;
+
+    const resizeObserver = new ResizeObserver(updateHeaderRowHeights);
+    tableRef.current
+      .querySelectorAll(':scope > thead > tr > th:first-child')
+      .forEach((header) => resizeObserver.observe(header));
+    return () => resizeObserver.disconnect();
+  }, [hasColumnGroups, tableRef, updateHeaderRowHeights]);
+
+  useDebugValue(headerRowHeights);
+
+  return {
+    headerGroupRows,
+    getHeaderRowOffset: (headerRowIndex: number) =>
+      headerRowHeights
+        .slice(0, headerRowIndex)
+        .reduce((offset, height) => offset + height, 0),
+  };
+};
+
+export default useColumnGroups;
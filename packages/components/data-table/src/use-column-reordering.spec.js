@@ -0,0 +1,30 @@
+import { getReorderedColumnKeys } from './use-column-reordering';
+
+describe('getReorderedColumnKeys', () => {
+  const columnKeys = ['name', 'sku', 'price', 'stock'];
+
+  it('should move the column before the target', () => {
+    expect(
+      getReorderedColumnKeys(columnKeys, 'stock', {
+        columnKey: 'sku',
+        position: 'before',
+      })
+    ).toEqual(['name', 'stock', 'sku', 'price']);
+  });
+  it('should move the column after the target', () => {
+    expect(
+      getReorderedColumnKeys(columnKeys, 'name', {
+        columnKey: 'price',
+        position: 'after',
+      })
+    ).toEqual(['sku', 'price', 'name', 'stock']);
+  });
+  it('should keep the order when the target is unknown', () => {
+    expect(
+      getReorderedColumnKeys(columnKeys, 'name', {
+        columnKey: 'unknown',
+        position: 'after',
+      })
+    ).toEqual(columnKeys);
+  });
+});
@@ -0,0 +1,138 @@
+import { useState, useDebugValue, type DragEvent } from 'react';
+import isEqual from 'lodash/isEqual';
+import type { TColumn } from './data-table';
+
+type TReorderableColumn = Pick<TColumn, 'key' | 'pin'>;
+
+export type TDropPosition = 'before' | 'after';
+
+export type TColumnReorderingProps = {
+  draggable: boolean;
+  'data-drop-position'?: TDropPosition;
+  'data-is-dragged'?: boolean;
+  onDragStart: (event: DragEvent<HTMLElement>) => void;
+  onDragOver: (event: DragEvent<HTMLElement>) => void;
+  onDragLeave: () => void;
+  onDrop: (event: DragEvent<HTMLElement>) => void;
+  onDragEnd: () => void;
+};
+
+type TDropTarget = {
+  columnKey: string;
+  position: TDropPosition;
+};
+
+export const getReorderedColumnKeys = (
+  columnKeys: string[],
+  draggedColumnKey: string,
+  dropTarget: TDropTarget
+) => {
+  const remainingColumnKeys = columnKeys.filter(
+    (columnKey) => columnKey !== draggedColumnKey
+  );
+  const targetIndex = remainingColumnKeys.indexOf(dropTarget.columnKey);
+  if (targetIndex === -1 || remainingColumnKeys.length === columnKeys.length) {
+    return columnKeys;
+  }
+
+  remainingColumnKeys.splice(
+    dropTarget.position === 'before' ? targetIndex : targetIndex + 1,
+    0,
+    draggedColumnKey
+  );
+  return remainingColumnKeys;
+};
+
+// the column is dropped before or after the target, depending on which half of the target is hovered
+const getDropPosition = (event: DragEvent<HTMLElement>): TDropPosition => {
+  const { left, width } = event.currentTarget.getBoundingClientRect();
+  return event.clientX < left + width / 2 ? 'before' : 'after';
+};
+
+/**
+ * Handles the reordering of the columns by dragging their headers.
+ * Columns can only be dropped next to the columns pinned to the same side,
+ * and only the given columns can be reordered (the built-in ones are kept in place).
+ */
+const useColumnReordering = ({
+  columns,
+  onColumnReorder,
+}: {
+  columns: TReorderableColumn[];
+  onColumnReorder?: (columnKeys: string[]) => void;
+}) => {
+  const [draggedColumnKey, setDraggedColumnKey] = useState<string>();
+  const [dropTarget, setDropTarget] = useState<TDropTarget>();
+
+  useDebugValue({ draggedColumnKey, dropTarget });
+
+  const draggedColumn = columns.find(
+    (column) => column.key === draggedColumnKey
+  );
+
+  const resetDragState = () => {
+    setDraggedColumnKey(undefined);
+    setDropTarget(undefined);
+  };
+
+  const getColumnReorderingProps = (
+    columnKey: string
+  ): TColumnReorderingProps | undefined => {
+    const column = columns.find(({ key }) => key === columnKey);
+    if (!onColumnReorder || !column) return undefined;
+
+    const canBeDropTarget = Boolean(
+      draggedColumn &&
+        draggedColumn.key !== column.key &&
+        draggedColumn.pin === column.pin
+    );
+
+    return {
+      draggable: true,
+      'data-drop-position':
+        dropTarget?.columnKey === columnKey ? dropTarget.position : undefined,
+      'data-is-dragged': draggedColumnKey === columnKey || undefined,
+      onDragStart: (event) => {
+        event.dataTransfer.effectAllowed = 'move';
+        event.dataTransfer.setData('text/plain', columnKey);
+        setDraggedColumnKey(columnKey);
+      },
+      onDragOver: (event) => {
+        if (!canBeDropTarget) return;
+        // allows dropping on this header
+        event.preventDefault();
+        event.dataTransfer.dropEffect = 'move';
+        const position = getDropPosition(event);
+        if (
+          dropTarget?.columnKey !== columnKey ||
+          dropTarget.position !== position
+        ) {
+          setDropTarget({ columnKey, position });
+        }
+      },
+      onDragLeave: () => {
+        if (dropTarget?.columnKey === columnKey) setDropTarget(undefined);
+      },
+      onDrop: (event) => {
+        event.preventDefault();
+        if (canBeDropTarget && draggedColumnKey) {
+          const columnKeys = columns.map(({ key }) => key);
+          const reorderedColumnKeys = getReorderedColumnKeys(
+            columnKeys,
+            draggedColumnKey,
+            { columnKey, position: getDropPosition(event) }
+          );
+          if (!isEqual(reorderedColumnKeys, columnKeys)) {
+            onColumnReorder(reorderedColumnKeys);
+          }
+        }
+        resetDragState();
+      },
+      onDragEnd: resetDragState,
+    };
+  };
+
+  return { getColumnReorderingProps };
+};
+
+export default useColumnReordering;
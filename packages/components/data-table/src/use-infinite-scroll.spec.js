@@ -0,0 +1,164 @@
+import { renderHook, act } from '@testing-library/react';
+import useInfiniteScroll, { getIsNearScrollEnd } from './use-infinite-scroll';
+
+const createMockedScrollElementRef = (scrollPosition) => {
+  const scrollListeners = [];
+  return {
+    current: {
+      ...scrollPosition,
+      addEventListener: (_, listener) => scrollListeners.push(listener),
+      removeEventListener: (_, listener) =>
+        scrollListeners.splice(scrollListeners.indexOf(listener), 1),
+      scroll(scrollTop) {
+        this.scrollTop = scrollTop;
+        scrollListeners.forEach((listener) => listener());
+      },
+    },
+  };
+};
+
+describe('getIsNearScrollEnd', () => {
+  it('should be near the end within the threshold', () => {
+    expect(
+      getIsNearScrollEnd(
+        { scrollTop: 600, scrollHeight: 1000, clientHeight: 300 },
+        100
+      )
+    ).toBe(true);
+    expect(
+      getIsNearScrollEnd(
+        { scrollTop: 500, scrollHeight: 1000, clientHeight: 300 },
+        100
+      )
+    ).toBe(false);
+  });
+
+  it('should be near the end when the content does not fill the scroll area', () => {
+    expect(
+      getIsNearScrollEnd(
+        { scrollTop: 0, scrollHeight: 200, clientHeight: 300 },
+        0
+      )
+    ).toBe(true);
+  });
+});
+
+describe('useInfiniteScroll', () => {
+  beforeAll(() => {
+    jest
+      .spyOn(window, 'requestAnimationFrame')
+      .mockImplementation((cb) => cb());
+  });
+
+  const defaultOptions = {
+    rowCount: 20,
+    isEnabled: true,
+    isLoading: false,
+    loadMoreThreshold: 100,
+  };
+
+  it('should load more rows when scrolling near the end', () => {
+    const onLoadMore = jest.fn();
+    const scrollElementRef = createMockedScrollElementRef({
+      scrollTop: 0,
+      scrollHeight: 1000,
+      clientHeight: 300,
+    });
+    renderHook(() =>
+      useInfiniteScroll({ ...defaultOptions, scrollElementRef, onLoadMore })
+    );
+    expect(onLoadMore).not.toHaveBeenCalled();
+
+    act(() => {
+      scrollElementRef.current.scroll(650);
+    });
+    expect(onLoadMore).toHaveBeenCalledTimes(1);
+
+    // the same rows are not requested again
+    act(() => {
+      scrollElementRef.current.scroll(700);
+    });
+    expect(onLoadMore).toHaveBeenCalledTimes(1);
+  });
+
+  it('should load more rows when they do not fill the scroll area', () => {
+    const onLoadMore = jest.fn();
+    const scrollElementRef = createMockedScrollElementRef({
+      scrollTop: 0,
+      scrollHeight: 300,
+      clientHeight: 300,
+    });
+    const { rerender } = renderHook(
+      (options) =>
+        useInfiniteScroll({
+          ...defaultOptions,
+          scrollElementRef,
+          onLoadMore,
+          ...options,
+        }),
+      { initialProps: { isLoading: false, rowCount: 10 } }
+    );
+    expect(onLoadMore).toHaveBeenCalledTimes(1);
+
+    rerender({ isLoading: true, rowCount: 10 });
+    rerender({ isLoading: false, rowCount: 20 });
+    expect(onLoadMore).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not load more rows while loading or when disabled', () => {
+    const onLoadMore = jest.fn();
+    const scrollElementRef = createMockedScrollElementRef({
+      scrollTop: 0,
+      scrollHeight: 300,
+      clientHeight: 300,
+    });
+    const { rerender } = renderHook(
+      (options) =>
+        useInfiniteScroll({
+          ...defaultOptions,
+          scrollElementRef,
+          onLoadMore,
+          ...options,
+        }),
+      { initialProps: { isLoading: true, isEnabled: true } }
+    );
+    rerender({ isLoading: false, isEnabled: false });
+    expect(onLoadMore).not.toHaveBeenCalled();
+  });
+
+  it('should check the scroll position once per frame, and not after being unmounted', () => {
+    const frameCallbacks = [];
+    window.requestAnimationFrame.mockImplementation((cb) =>
+      frameCallbacks.push(cb)
+    );
+    const cancelAnimationFrame = jest
+      .spyOn(window, 'cancelAnimationFrame')
+      .mockImplementation(() => {});
+    const onLoadMore = jest.fn();
+    const scrollElementRef = createMockedScrollElementRef({
+      scrollTop: 0,
+      scrollHeight: 1000,
+      clientHeight: 300,
+    });
+    const { unmount } = renderHook(() =>
+      useInfiniteScroll({ ...defaultOptions, scrollElementRef, onLoadMore })
+    );
+
+    act(() => {
+      scrollElementRef.current.scroll(650);
+      scrollElementRef.current.scroll(700);
+    });
+    expect(frameCallbacks).toHaveLength(1);
+
+    unmount();
+    expect(cancelAnimationFrame).toHaveBeenCalledWith(1);
+    expect(onLoadMore).not.toHaveBeenCalled();
+
+    cancelAnimationFrame.mockRestore();
+    window.requestAnimationFrame.mockImplementation((cb) => cb());
+  });
+
+  afterAll(() => {
+    window.requestAnimationFrame.mockRestore();
+  });
+});
@@ -0,0 +1,92 @@
+import {
+  useRef,
+  useEffect,
+  useCallback,
+  useDebugValue,
+  type RefObject,
+} from 'react';
+
+type TScrollElementRef = RefObject<HTMLElement | undefined | null>;
+
+export type TInfiniteScrollOptions = {
+  scrollElementRef: TScrollElementRef;
+  rowCount: number;
+  isEnabled: boolean;
+  isLoading: boolean;
+  onLoadMore?: () => void;
+  loadMoreThreshold: number;
+};
+
+type TScrollPosition = Pick<
+  HTMLElement,
+  'scrollTop' | 'scrollHeight' | 'clientHeight'
+>;
+
+// the remaining scrollable distance is within the threshold, or the content doesn't fill the scroll area
+export const getIsNearScrollEnd = (
+  { scrollTop, scrollHeight, clientHeight }: TScrollPosition,
+  loadMoreThreshold: number
+) => scrollHeight - scrollTop - clientHeight <= loadMoreThreshold;
+
+/**
+ * Calls `onLoadMore` when the table is scrolled within `loadMoreThreshold` pixels from the
+ * end of its scroll area, or when the rows don't fill the scroll area yet.
+ * Once called, it's not called again until the rows have changed, or the loading has finished,
+ * so that the same rows are not requested multiple times.
+ */
+const useInfiniteScroll = ({
+  scrollElementRef,
+  rowCount,
+  isEnabled,
+  isLoading,
+  onLoadMore,
+  loadMoreThreshold,
+}: TInfiniteScrollOptions) => {
+  const isLoadMorePending = useRef(false);
+  // the scroll listener reads the latest callback, without being added again on every render
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  const loadMoreIfNeeded = useCallback(() => {
+    const scrollElement = scrollElementRef.current;
+    if (!isEnabled || isLoading || !scrollElement || isLoadMorePending.current)
+      return;
+
+    if (getIsNearScrollEnd(scrollElement, loadMoreThreshold)) {
+      isLoadMorePending.current = true;
+      onLoadMoreRef.current?.();
+    }
+  }, [isEnabled, isLoading, scrollElementRef, loadMoreThreshold]);
+
+  useEffect(() => {
+    if (isLoading) return;
+    isLoadMorePending.current = false;
+    // the new rows might still not fill the scroll area, which then can't be scrolled to load more
+    loadMoreIfNeeded();
+  }, [rowCount, isLoading, loadMoreIfNeeded]);
+
+  useEffect(() => {
+    const scrollElement = scrollElementRef.current;
+    if (!isEnabled || !scrollElement) return;
+
+    let animationFrame: number | undefined;
+    const handleScroll = () => {
+      // throttle and sync the checks with the screen refresh rate
+      if (animationFrame !== undefined) return;
+      animationFrame = requestAnimationFrame(() => {
+        animationFrame = undefined;
+        loadMoreIfNeeded();
+      });
+    };
+
+    scrollElement.addEventListener('scroll', handleScroll, { passive: true });
+    return () => {
+      scrollElement.removeEventListener('scroll', handleScroll);
+      if (animationFrame !== undefined) cancelAnimationFrame(animationFrame);
+    };
+  }, [isEnabled, scrollElementRef, loadMoreIfNeeded]);
+
+  useDebugValue(isLoadMorePending.current);
+};
+
+export default useInfiniteScroll;
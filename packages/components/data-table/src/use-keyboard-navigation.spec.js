@@ -0,0 +1,69 @@
+import { getNextCellPosition } from './use-keyboard-navigation';
+
+const gridSize = {
+  rowCount: 20,
+  columnCount: 4,
+  pageSize: 5,
+  isCtrlKeyPressed: false,
+};
+
+describe('getNextCellPosition', () => {
+  it('should move the focus with the arrow keys, within the grid', () => {
+    const cellPosition = { rowIndex: 0, columnIndex: 3 };
+
+    expect(getNextCellPosition('ArrowDown', cellPosition, gridSize)).toEqual({
+      rowIndex: 1,
+      columnIndex: 3,
+    });
+    expect(getNextCellPosition('ArrowLeft', cellPosition, gridSize)).toEqual({
+      rowIndex: 0,
+      columnIndex: 2,
+    });
+    expect(getNextCellPosition('ArrowRight', cellPosition, gridSize)).toEqual(
+      cellPosition
+    );
+  });
+  it('should move the focus to the header row', () => {
+    expect(
+      getNextCellPosition('ArrowUp', { rowIndex: 0, columnIndex: 1 }, gridSize)
+    ).toEqual({ rowIndex: -1, columnIndex: 1 });
+    expect(
+      getNextCellPosition('ArrowUp', { rowIndex: -1, columnIndex: 1 }, gridSize)
+    ).toEqual({ rowIndex: -1, columnIndex: 1 });
+  });
+  it('should move the focus to the first and last cells', () => {
+    const cellPosition = { rowIndex: 4, columnIndex: 2 };
+
+    expect(getNextCellPosition('Home', cellPosition, gridSize)).toEqual({
+      rowIndex: 4,
+      columnIndex: 0,
+    });
+    expect(getNextCellPosition('End', cellPosition, gridSize)).toEqual({
+      rowIndex: 4,
+      columnIndex: 3,
+    });
+    expect(
+      getNextCellPosition('End', cellPosition, {
+        ...gridSize,
+        isCtrlKeyPressed: true,
+      })
+    ).toEqual({ rowIndex: 19, columnIndex: 3 });
+  });
+  it('should move the focus by a page of rows', () => {
+    expect(
+      getNextCellPosition(
+        'PageDown',
+        { rowIndex: 17, columnIndex: 0 },
+        gridSize
+      )
+    ).toEqual({ rowIndex: 19, columnIndex: 0 });
+    expect(
+      getNextCellPosition('PageUp', { rowIndex: 3, columnIndex: 0 }, gridSize)
+    ).toEqual({ rowIndex: 0, columnIndex: 0 });
+  });
+  it('should ignore the other keys', () => {
+    expect(
+      getNextCellPosition('a', { rowIndex: 3, columnIndex: 0 }, gridSize)
+    ).toBeUndefined();
+  });
+});
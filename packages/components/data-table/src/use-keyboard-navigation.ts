@@ -0,0 +1,351 @@
+import {
+  useState,
+  useRef,
+  useEffect,
+  useLayoutEffect,
+  useDebugValue,
+  type RefObject,
+  type KeyboardEvent,
+  type FocusEvent,
+} from 'react';
+
+type TTableRef = RefObject<HTMLTableElement | undefined | null>;
+
+/**
+ * The position of a cell within the grid.
+ * The header row has the `rowIndex` of `-1`, and the data rows start at `0`.
+ */
+export type TCellPosition = {
+  rowIndex: number;
+  columnIndex: number;
+};
+
+export type TKeyboardNavigationOptions = {
+  tableRef: TTableRef;
+  isEnabled: boolean;
+  rowCount: number;
+  columnCount: number;
+  onActivateCell: (cellPosition: TCellPosition, cell: HTMLElement) => void;
+  // called when the focus is moved with the keyboard, to select the newly focused cell
+  onSelectCell?: (
+    cellPosition: TCellPosition,
+    isExtendingSelection: boolean
+  ) => void;
+  scrollToIndex?: (rowIndex: number) => void;
+};
+
+const HEADER_ROW_INDEX = -1;
+const DEFAULT_PAGE_SIZE = 10;
+const FOCUSABLE_ELEMENTS_SELECTOR = [
+  'a[href]',
+  'button:not([disabled])',
+  'input:not([disabled])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])',
+].join(',');
+// keeps the tabindex of the content of the cells, while it's removed from the tab sequence
+const ORIGINAL_TAB_INDEX_ATTRIBUTE = 'data-original-tabindex';
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+
+export const getCellElement = (
+  table: HTMLTableElement,
+  { rowIndex, columnIndex }: TCellPosition
+) =>
+  table.querySelector<HTMLElement>(
+    rowIndex === HEADER_ROW_INDEX
+      ? `:scope > thead > tr:last-child > th:nth-child(${columnIndex + 1})`
+      : `:scope > tbody > tr[data-row-index="${rowIndex}"] > td:nth-child(${
+          columnIndex + 1
+        })`
+  );
+
+export const getCellPosition = (cell: Element): TCellPosition | undefined => {
+  const row = cell.parentElement;
+  if (!row) return undefined;
+  const columnIndex = Array.from(row.children).indexOf(cell);
+  if (cell.tagName === 'TH') {
+    // the header rows of the column groups can't be navigated
+    if (row !== row.parentElement?.lastElementChild) return undefined;
+    return { rowIndex: HEADER_ROW_INDEX, columnIndex };
+  }
+  if (!row.hasAttribute('data-row-index')) return undefined;
+  return {
+    rowIndex: Number(row.getAttribute('data-row-index')),
+    columnIndex,
+  };
+};
+
+export const getFirstFocusableElement = (cell: HTMLElement) =>
+  cell.querySelector<HTMLElement>(
+    `${FOCUSABLE_ELEMENTS_SELECTOR},[${ORIGINAL_TAB_INDEX_ATTRIBUTE}]`
+  );
+
+const isSameCellPosition = (
+  cellPosition: TCellPosition,
+  otherCellPosition?: TCellPosition
+) =>
+  cellPosition.rowIndex === otherCellPosition?.rowIndex &&
+  cellPosition.columnIndex === otherCellPosition?.columnIndex;
+
+const restoreTabIndex = (element: HTMLElement) => {
+  const tabIndex = element.getAttribute(ORIGINAL_TAB_INDEX_ATTRIBUTE);
+  if (tabIndex === null) return;
+  if (tabIndex) {
+    element.setAttribute('tabindex', tabIndex);
+  } else {
+    element.removeAttribute('tabindex');
+  }
+  element.removeAttribute(ORIGINAL_TAB_INDEX_ATTRIBUTE);
+};
+
+// the interactive content of the cells (e.g. buttons and checkboxes) can only be reached with the Tab key
+// while interacting with the cell it belongs to, otherwise it's only reached by pressing Enter on the cell
+export const updateCellContentTabIndexes = (
+  table: HTMLTableElement,
+  interactiveCellPosition?: TCellPosition
+) => {
+  table
+    .querySelectorAll<HTMLElement>(
+      `${FOCUSABLE_ELEMENTS_SELECTOR},[${ORIGINAL_TAB_INDEX_ATTRIBUTE}]`
+    )
+    .forEach((element) => {
+      const cell = element.parentElement?.closest('th, td');
+      // ignores the cells themselves, and the content of nested tables
+      if (!cell || cell.closest('table') !== table) return;
+      const cellPosition = getCellPosition(cell);
+      if (!cellPosition) return;
+
+      if (isSameCellPosition(cellPosition, interactiveCellPosition)) {
+        restoreTabIndex(element);
+      } else if (!element.hasAttribute(ORIGINAL_TAB_INDEX_ATTRIBUTE)) {
+        element.setAttribute(
+          ORIGINAL_TAB_INDEX_ATTRIBUTE,
+          element.getAttribute('tabindex') ?? ''
+        );
+        element.setAttribute('tabindex', '-1');
+      }
+    });
+};
+
+// the amount of rows moved by PageUp and PageDown, based on the rows which fit in the visible area
+const getPageSize = (table: HTMLTableElement, cell: HTMLElement) => {
+  const cellHeight = cell.getBoundingClientRect().height;
+  const headerHeight =
+    table.querySelector(':scope > thead')?.getBoundingClientRect().height ?? 0;
+  const visibleHeight = table.clientHeight - headerHeight;
+  if (!cellHeight || visibleHeight <= 0) return DEFAULT_PAGE_SIZE;
+  return Math.max(1, Math.floor(visibleHeight / cellHeight));
+};
+
+export const getNextCellPosition = (
+  key: string,
+  cellPosition: TCellPosition,
+  {
+    rowCount,
+    columnCount,
+    pageSize,
+    isCtrlKeyPressed,
+  }: {
+    rowCount: number;
+    columnCount: number;
+    pageSize: number;
+    isCtrlKeyPressed: boolean;
+  }
+): TCellPosition | undefined => {
+  const { rowIndex, columnIndex } = cellPosition;
+  const lastRowIndex = rowCount - 1;
+  const lastColumnIndex = columnCount - 1;
+  const moveToRow = (nextRowIndex: number) => ({
+    rowIndex: clamp(nextRowIndex, HEADER_ROW_INDEX, lastRowIndex),
+    columnIndex,
+  });
+
+  switch (key) {
+    case 'ArrowUp':
+      return moveToRow(rowIndex - 1);
+    case 'ArrowDown':
+      return moveToRow(rowIndex + 1);
+    case 'ArrowLeft':
+      return { rowIndex, columnIndex: Math.max(columnIndex - 1, 0) };
+    case 'ArrowRight':
+      return {
+        rowIndex,
+        columnIndex: Math.min(columnIndex + 1, lastColumnIndex),
+      };
+    case 'Home':
+      return isCtrlKeyPressed
+        ? { rowIndex: Math.min(0, lastRowIndex), columnIndex: 0 }
+        : { rowIndex, columnIndex: 0 };
+    case 'End':
+      return isCtrlKeyPressed
+        ? { rowIndex: lastRowIndex, columnIndex: lastColumnIndex }
+        : { rowIndex, columnIndex: lastColumnIndex };
+    case 'PageUp':
+      // the header row is only reached when moving one row at a time
+      return moveToRow(
+        rowIndex === HEADER_ROW_INDEX
+          ? rowIndex
+          : Math.max(rowIndex - pageSize, 0)
+      );
+    case 'PageDown':
+      return moveToRow(rowIndex + pageSize);
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Implements the keyboard interactions of the WAI-ARIA grid pattern, using a roving tabindex:
+ * only one cell of the table can be reached with the Tab key, and the arrow keys (together with
+ * Home, End, PageUp and PageDown) move the focus between the cells.
+ * Pressing Enter activates the focused cell, and pressing Escape within the content of a cell
+ * moves the focus back to the cell. The content of the cells is removed from the tab sequence,
+ * except for the content of the cell which is being interacted with.
+ * The cells reached with the keyboard are passed to `onSelectCell`, together with whether
+ * the Shift key was held.
+ */
+const useKeyboardNavigation = ({
+  tableRef,
+  isEnabled,
+  rowCount,
+  columnCount,
+  onActivateCell,
+  onSelectCell,
+  scrollToIndex,
+}: TKeyboardNavigationOptions) => {
+  const [activeCellPosition, setActiveCellPosition] = useState<TCellPosition>({
+    rowIndex: rowCount > 0 ? 0 : HEADER_ROW_INDEX,
+    columnIndex: 0,
+  });
+  // the cell whose content has the focus
+  const [interactiveCellPosition, setInteractiveCellPosition] =
+    useState<TCellPosition>();
+  // the focus is only moved after a keyboard interaction, not when the table is rendered
+  const shouldFocusActiveCell = useRef(false);
+
+  // keep the active cell within the grid, in case rows or columns have been removed
+  const currentCellPosition: TCellPosition = {
+    rowIndex: clamp(
+      activeCellPosition.rowIndex,
+      HEADER_ROW_INDEX,
+      rowCount - 1
+    ),
+    columnIndex: clamp(activeCellPosition.columnIndex, 0, columnCount - 1),
+  };
+
+  useDebugValue(currentCellPosition);
+
+  useEffect(() => {
+    if (!isEnabled || !shouldFocusActiveCell.current || !tableRef.current)
+      return;
+    shouldFocusActiveCell.current = false;
+    getCellElement(tableRef.current, activeCellPosition)?.focus();
+  }, [isEnabled, tableRef, activeCellPosition]);
+
+  // the content of the cells is updated after every render, as new content might have been rendered
+  useLayoutEffect(() => {
+    const table = tableRef.current;
+    if (!table) return;
+    if (isEnabled) {
+      updateCellContentTabIndexes(table, interactiveCellPosition);
+    } else {
+      table
+        .querySelectorAll<HTMLElement>(`[${ORIGINAL_TAB_INDEX_ATTRIBUTE}]`)
+        .forEach(restoreTabIndex);
+    }
+  });
+
+  const moveToCell = (cellPosition: TCellPosition) => {
+    shouldFocusActiveCell.current = true;
+    if (cellPosition.rowIndex !== HEADER_ROW_INDEX) {
+      // rows which are not rendered (when virtualized) need to be scrolled into view first
+      scrollToIndex?.(cellPosition.rowIndex);
+    }
+    setActiveCellPosition(cellPosition);
+  };
+
+  const onKeyDown = (event: KeyboardEvent<HTMLElement>) => {
+    const table = tableRef.current;
+    const target = event.target as HTMLElement;
+    const cell = target.closest<HTMLElement>('th, td');
+    // ignores the events of nested tables
+    if (!isEnabled || !table || !cell || cell.closest('table') !== table)
+      return;
+    // ignores the events which have already been handled by the cell (e.g. to start editing it)
+    if (event.defaultPrevented) return;
+    const cellPosition = getCellPosition(cell);
+    if (!cellPosition) return;
+
+    // the interactive content of the cells handles its own keyboard events
+    if (target !== cell) {
+      if (event.key === 'Escape') {
+        event.preventDefault();
+        cell.focus();
+      }
+      return;
+    }
+
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      onActivateCell(cellPosition, cell);
+      return;
+    }
+
+    const nextCellPosition = getNextCellPosition(event.key, cellPosition, {
+      rowCount,
+      columnCount,
+      pageSize: getPageSize(table, cell),
+      isCtrlKeyPressed: event.ctrlKey || event.metaKey,
+    });
+    if (nextCellPosition) {
+      event.preventDefault();
+      moveToCell(nextCellPosition);
+      onSelectCell?.(nextCellPosition, event.shiftKey);
+    }
+  };
+
+  // keeps the active cell in sync when a cell (or its content) gets focused with the mouse
+  const onFocus = (event: FocusEvent<HTMLElement>) => {
+    if (!isEnabled) return;
+    const cell = (event.target as HTMLElement).closest('th, td');
+    const cellPosition =
+      cell && cell.closest('table') === tableRef.current
+        ? getCellPosition(cell)
+        : undefined;
+    if (!cellPosition) return;
+    if (!isSameCellPosition(cellPosition, activeCellPosition)) {
+      setActiveCellPosition(cellPosition);
+    }
+    const isInteractingWithCell = event.target !== cell;
+    if (
+      isInteractingWithCell !==
+      isSameCellPosition(cellPosition, interactiveCellPosition)
+    ) {
+      setInteractiveCellPosition(
+        isInteractingWithCell ? cellPosition : undefined
+      );
+    }
+  };
+
+  // the interaction with the cell ends once the focus leaves the table
+  const onBlur = (event: FocusEvent<HTMLElement>) => {
+    if (
+      interactiveCellPosition &&
+      !tableRef.current?.contains(event.relatedTarget as Node | null)
+    ) {
+      setInteractiveCellPosition(undefined);
+    }
+  };
+
+  const getCellTabIndex = (cellPosition: TCellPosition) => {
+    if (!isEnabled) return undefined;
+    return isSameCellPosition(cellPosition, currentCellPosition) ? 0 : -1;
+  };
+
+  return { onKeyDown, onFocus, onBlur, getCellTabIndex };
+};
+
+export default useKeyboardNavigation;
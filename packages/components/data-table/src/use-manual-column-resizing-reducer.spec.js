@@ -19,6 +19,27 @@ const createMockedTableRef = (headersWidths) => {
   };
 };
 
+// the headers are as wide as their content when their column is sized to its content
+const createMockedTableRefWithContent = (headersWidths, contentWidths) => {
+  const table = {
+    querySelectorAll: () => {
+      return headersWidths.map((item, index) => ({
+        getAttribute: () => index,
+        getBoundingClientRect: () => ({
+          width:
+            table.style.gridTemplateColumns.split(' ')[index] === 'max-content'
+              ? contentWidths[index]
+              : item,
+        }),
+      }));
+    },
+    style: {
+      gridTemplateColumns: '',
+    },
+  };
+  return { current: table };
+};
+
 const createMockedHeaderRef = (headerWidth, index) => ({
   current: {
     clientWidth: headerWidth,
@@ -47,6 +68,8 @@ describe('useManualColumnResizing', () => {
     expect(result.current.startResizing).toBeDefined();
     expect(result.current.onDragResizing).toBeDefined();
     expect(result.current.finishResizing).toBeDefined();
+    expect(result.current.fitColumnsToContent).toBeDefined();
+    expect(result.current.resizeColumnBy).toBeDefined();
     expect(result.current.getHasTableBeenResized).toBeDefined();
     expect(result.current.getIsColumnBeingResized).toBeDefined();
     expect(result.current.getIsAnyColumnBeingResized).toBeDefined();
@@ -206,6 +229,56 @@ describe('useManualColumnResizing', () => {
     ]);
   });
 
+  it('should fit the columns to their content', () => {
+    const tableRef = createMockedTableRefWithContent(
+      [50, 100, 200],
+      [10, 150.2, 300]
+    );
+    const { result } = renderHook(() => useManualColumnResizing(tableRef));
+
+    let sizes;
+    act(() => {
+      sizes = result.current
+        .fitColumnsToContent([0, 1])
+        .map((size) => size.width);
+    });
+
+    // assert the fitted columns are rounded up and not smaller than the minimum size,
+    // while the other columns are untouched
+    expect(sizes).toStrictEqual([32, 151, 200]);
+    expect(result.current.getSizes().map((size) => size.width)).toStrictEqual(
+      sizes
+    );
+    expect(tableRef.current.style.gridTemplateColumns).toBe('32px 151px 200px');
+
+    // assert table has been resized
+    expect(result.current.getHasTableBeenResized()).toBe(true);
+    expect(result.current.getTotalResizedTableWidth()).toEqual(32 + 151 + 200);
+  });
+
+  it('should resize a column by the given amount of pixels', () => {
+    const tableRef = createMockedTableRef([50, 100, 200]);
+    const { result } = renderHook(() => useManualColumnResizing(tableRef));
+
+    act(() => {
+      result.current.resizeColumnBy(1, 20);
+    });
+
+    expect(result.current.getSizes().map((size) => size.width)).toStrictEqual([
+      50, 120, 200,
+    ]);
+    expect(tableRef.current.style.gridTemplateColumns).toBe('50px 120px 200px');
+    expect(result.current.getHasTableBeenResized()).toBe(true);
+
+    let sizes;
+    act(() => {
+      sizes = result.current.resizeColumnBy(0, -100).map((size) => size.width);
+    });
+
+    // assert the column is not smaller than the minimum size
+    expect(sizes).toStrictEqual([32, 120, 200]);
+  });
+
   afterAll(() => {
     window.requestAnimationFrame.mockRestore();
   });
@@ -13,7 +13,7 @@ type TState = {
 };
 
 export type TRenderedColumnMeasurements = {
-  key: string | null;
+  key: string;
   width: number;
 };
 
@@ -31,9 +31,10 @@ type TAction =
   | { type: 'reset' }
   | { type: 'registerColumnMeasurements'; payload: TRegisterColumnMeasurements }
   | { type: 'startResizing'; payload: TStartResizingPayload }
-  | { type: 'finishResizing' };
+  | { type: 'finishResizing' }
+  | { type: 'updateColumnSizes'; payload: TRegisterColumnMeasurements };
 
-const MINIMUM_COLUMN_SIZE = 32;
+export const MINIMUM_COLUMN_SIZE = 32;
 
 // calculates size on mouse-drag and enforces a minimum size
 const calculateNewSize = (
@@ -63,6 +64,39 @@ const setColumnWidth = (
 const getGridTemplateColumnsStyle = (columns: TColumn['width'][]) =>
   `${columns.map((width) => `${width || 0}px`).join(' ')}`;
 
+const measureRenderedColumns = (table: HTMLTableElement) => {
+  const renderedColumnMeasurements: TRenderedColumnMeasurements[] = [];
+  table
+    .querySelectorAll(':scope > thead > tr:last-child > th')
+    .forEach((header) => {
+      renderedColumnMeasurements.push({
+        key: header.getAttribute('data-id') ?? '',
+        width: header.getBoundingClientRect().width,
+      });
+    });
+  return renderedColumnMeasurements;
+};
+
+// measures the width of the widest rendered content of each given column,
+// by temporarily letting the grid size these columns to their content
+const measureColumnContentWidths = (
+  table: HTMLTableElement,
+  columns: TRenderedColumnMeasurements[],
+  columnIndexes: number[]
+) => {
+  table.style.gridTemplateColumns = columns
+    .map((column, index) =>
+      columnIndexes.includes(index) ? 'max-content' : `${column.width}px`
+    )
+    .join(' ');
+  const headers = table.querySelectorAll(':scope > thead > tr:last-child > th');
+
+  return columnIndexes.map((columnIndex) =>
+    // rounding up prevents the content from being truncated because of subpixel widths
+    Math.ceil(headers[columnIndex]?.getBoundingClientRect().width ?? 0)
+  );
+};
+
 const initialState = (tableRef?: TTableRef) => ({
   initialColWidth: undefined,
   initialMousePosition: undefined,
@@ -100,6 +134,12 @@ function reducer(state: TState, action: TAction) {
         columnBeingResized: undefined,
         hasBeenResized: true,
       };
+    case 'updateColumnSizes':
+      return {
+        ...state,
+        sizes: action.payload.sizes,
+        hasBeenResized: true,
+      };
     default:
       return state;
   }
@@ -123,20 +163,10 @@ const useManualColumnResizing = (tableRef?: TTableRef) => {
 
   // if the table element has been rendered and we haven't yet measured the columns
   if (state.tableRef?.current && !state.sizes) {
-    const renderedColumnMeasurements: TRenderedColumnMeasurements[] = [];
-    state.tableRef.current
-      .querySelectorAll(':scope > thead > tr > th')
-      .forEach((header) => {
-        renderedColumnMeasurements.push({
-          key: header.getAttribute('data-id'),
-          width: header.getBoundingClientRect().width,
-        });
-      });
-
     dispatch({
       type: 'registerColumnMeasurements',
       payload: {
-        sizes: renderedColumnMeasurements,
+        sizes: measureRenderedColumns(state.tableRef.current),
       },
     });
   }
@@ -177,10 +207,74 @@ const useManualColumnResizing = (tableRef?: TTableRef) => {
         );
     });
   };
-  const finishResizing = () => {
+  const finishResizing = (): TRenderedColumnMeasurements[] => {
     dispatch({ type: 'finishResizing' });
 
-    return state.sizes;
+    return state.sizes ?? [];
+  };
+
+  // the columns might not have been measured yet, when the table has been rendered only once
+  const getMeasuredSizes = (table: HTMLTableElement) =>
+    state.sizes ?? measureRenderedColumns(table);
+
+  const updateColumnSizes = (
+    table: HTMLTableElement,
+    newColumnsSizes: TRenderedColumnMeasurements[]
+  ) => {
+    table.style.gridTemplateColumns = getGridTemplateColumnsStyle(
+      newColumnsSizes.map((newColumnsSize) => newColumnsSize.width.toString())
+    );
+    dispatch({
+      type: 'updateColumnSizes',
+      payload: { sizes: newColumnsSizes },
+    });
+
+    return newColumnsSizes;
+  };
+
+  // sets the width of the given columns to the width of their widest rendered content
+  const fitColumnsToContent = (
+    columnIndexes: number[]
+  ): TRenderedColumnMeasurements[] => {
+    if (!state.tableRef?.current) return state.sizes ?? [];
+
+    const sizes = getMeasuredSizes(state.tableRef.current);
+    const contentWidths = measureColumnContentWidths(
+      state.tableRef.current,
+      sizes,
+      columnIndexes
+    );
+    const newColumnsSizes = sizes.map((size, index) =>
+      columnIndexes.includes(index)
+        ? {
+            ...size,
+            width: Math.max(
+              MINIMUM_COLUMN_SIZE,
+              contentWidths[columnIndexes.indexOf(index)]
+            ),
+          }
+        : size
+    );
+    return updateColumnSizes(state.tableRef.current, newColumnsSizes);
+  };
+
+  // changes the width of a column by the given amount of pixels, used when resizing with the keyboard
+  const resizeColumnBy = (
+    columnIndex: number,
+    widthChange: number
+  ): TRenderedColumnMeasurements[] => {
+    if (!state.tableRef?.current) return state.sizes ?? [];
+
+    const sizes = getMeasuredSizes(state.tableRef.current);
+    const newColumnsSizes = sizes.map((size, index) =>
+      index === columnIndex
+        ? {
+            ...size,
+            width: Math.max(MINIMUM_COLUMN_SIZE, size.width + widthChange),
+          }
+        : size
+    );
+    return updateColumnSizes(state.tableRef.current, newColumnsSizes);
   };
 
   const getIsColumnBeingResized = (columnIndex: number) =>
@@ -219,6 +313,8 @@ const useManualColumnResizing = (tableRef?: TTableRef) => {
     startResizing,
     onDragResizing,
     finishResizing,
+    fitColumnsToContent,
+    resizeColumnBy,
     getHasTableBeenResized,
     getIsColumnBeingResized,
     getIsAnyColumnBeingResized,
@@ -0,0 +1,48 @@
+import {
+  getPinnedColumnPositions,
+  sortColumnsByPin,
+} from './use-pinned-columns';
+
+describe('sortColumnsByPin', () => {
+  it('should move the pinned columns to their side, keeping their order', () => {
+    const columns = [
+      { key: 'actions', pin: 'right' },
+      { key: 'description' },
+      { key: 'name', pin: 'left' },
+      { key: 'price' },
+      { key: 'sku', pin: 'left' },
+    ];
+
+    expect(sortColumnsByPin(columns).map((column) => column.key)).toEqual([
+      'name',
+      'sku',
+      'description',
+      'price',
+      'actions',
+    ]);
+  });
+});
+
+describe('getPinnedColumnPositions', () => {
+  it('should compute the offset of each pinned column from its side', () => {
+    const columns = [
+      { key: 'name', pin: 'left' },
+      { key: 'sku', pin: 'left' },
+      { key: 'description' },
+      { key: 'price', pin: 'right' },
+      { key: 'actions', pin: 'right' },
+    ];
+
+    expect(getPinnedColumnPositions(columns, [200, 100, 400, 80, 40])).toEqual({
+      name: { side: 'left', offset: 0, isEdge: false },
+      sku: { side: 'left', offset: 200, isEdge: true },
+      price: { side: 'right', offset: 40, isEdge: true },
+      actions: { side: 'right', offset: 0, isEdge: false },
+    });
+  });
+  it('should not return a position for the columns which are not pinned', () => {
+    expect(
+      getPinnedColumnPositions([{ key: 'name' }, { key: 'sku' }], [200, 100])
+    ).toEqual({});
+  });
+});
@@ -0,0 +1,125 @@
+import {
+  useState,
+  useLayoutEffect,
+  useCallback,
+  useDebugValue,
+  type RefObject,
+} from 'react';
+import isEqual from 'lodash/isEqual';
+import type { TColumn } from './data-table';
+
+type TTableRef = RefObject<HTMLTableElement | undefined | null>;
+
+type TPinnableColumn = Pick<TColumn, 'key' | 'pin'>;
+
+export type TPinnedColumnPosition = {
+  side: 'left' | 'right';
+  /**
+   * The distance (in pixels) between the column and its side of the table.
+   */
+  offset: number;
+  /**
+   * Whether the column is the innermost pinned column of its side,
+   * which separates the pinned columns from the scrolling ones.
+   */
+  isEdge: boolean;
+};
+
+// the columns pinned to the left are moved to the start, and the ones pinned to the right to the end
+export const sortColumnsByPin = <Column extends TPinnableColumn>(
+  columns: Column[]
+) => [
+  ...columns.filter((column) => column.pin === 'left'),
+  ...columns.filter((column) => !column.pin),
+  ...columns.filter((column) => column.pin === 'right'),
+];
+
+export const getPinnedColumnPositions = (
+  columns: TPinnableColumn[],
+  columnWidths: number[]
+) => {
+  const positions: Record<string, TPinnedColumnPosition> = {};
+  const lastLeftIndex = columns.map((column) => column.pin).lastIndexOf('left');
+  const firstRightIndex = columns.map((column) => column.pin).indexOf('right');
+
+  let leftOffset = 0;
+  columns.forEach((column, columnIndex) => {
+    if (column.pin !== 'left') return;
+    positions[column.key] = {
+      side: 'left',
+      offset: leftOffset,
+      isEdge: columnIndex === lastLeftIndex,
+    };
+    leftOffset += columnWidths[columnIndex] ?? 0;
+  });
+
+  let rightOffset = 0;
+  for (let columnIndex = columns.length - 1; columnIndex >= 0; columnIndex--) {
+    const column = columns[columnIndex];
+    if (column.pin !== 'right') continue;
+    positions[column.key] = {
+      side: 'right',
+      offset: rightOffset,
+      isEdge: columnIndex === firstRightIndex,
+    };
+    rightOffset += columnWidths[columnIndex] ?? 0;
+  }
+
+  return positions;
+};
+
+const measureColumnWidths = (table: HTMLTableElement) =>
+  Array.from(table.querySelectorAll(':scope > thead > tr:last-child > th')).map(
+    (header) => header.getBoundingClientRect().width
+  );
+
+/**
+ * Computes the sticky offsets of the pinned columns, which depend on the rendered
+ * widths of the other pinned columns of the same side.
+ * The widths are measured again whenever a pinned column changes its size,
+ * for instance while it is being manually resized.
+ */
+const usePinnedColumns = (tableRef: TTableRef, columns: TPinnableColumn[]) => {
+  const [columnWidths, setColumnWidths] = useState<number[]>([]);
+  const hasPinnedColumns = columns.some((column) => column.pin);
+  const columnKeys = columns.map((column) => column.key).join(',');
+
+  const updateColumnWidths = useCallback(() => {
+    if (!tableRef.current) return;
+    const measuredColumnWidths = measureColumnWidths(tableRef.current);
+    setColumnWidths((currentColumnWidths) =>
+      isEqual(currentColumnWidths, measuredColumnWidths)
+        ? currentColumnWidths
+        : measuredColumnWidths
+    );
+  }, [tableRef]);
+
+  // measure the columns after every render, as their content might have changed
+  useLayoutEffect(() => {
+    if (hasPinnedColumns) updateColumnWidths();
+  });
+
+  // the header cells are observed again when the columns change
+  useLayoutEffect(() => {
+    if (!hasPinnedColumns || !tableRef.current) return;
+
+    const resizeObserver = new ResizeObserver(updateColumnWidths);
+    tableRef.current
+      .querySelectorAll(':scope > thead > tr:last-child > th')
+      .forEach((header) => resizeObserver.observe(header));
+    return () => resizeObserver.disconnect();
+  }, [hasPinnedColumns, tableRef, updateColumnWidths, columnKeys]);
+
+  useDebugValue(columnWidths);
+
+  const positions = hasPinnedColumns
+    ? getPinnedColumnPositions(columns, columnWidths)
+    : {};
+
+  return {
+    getPinnedColumnPosition: (columnKey: string) =>
+      positions[columnKey] as TPinnedColumnPosition | undefined,
+  };
+};
+
+export default usePinnedColumns;
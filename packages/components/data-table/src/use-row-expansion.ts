@@ -0,0 +1,53 @@
+import { useState, useCallback, useDebugValue } from 'react';
+
+export type TRowExpansionOptions = {
+  expandedRowIds?: string[];
+  defaultExpandedRowIds?: string[];
+  onExpandedRowIdsChange?: (expandedRowIds: string[]) => void;
+};
+
+/**
+ * Keeps track of the expanded rows of the table.
+ * The state is controlled when `expandedRowIds` is provided, otherwise it's
+ * initialized with `defaultExpandedRowIds` and kept internally.
+ */
+const useRowExpansion = ({
+  expandedRowIds,
+  defaultExpandedRowIds = [],
+  onExpandedRowIdsChange,
+}: TRowExpansionOptions) => {
+  const [uncontrolledExpandedRowIds, setUncontrolledExpandedRowIds] = useState<
+    string[]
+  >(defaultExpandedRowIds);
+  const isControlled = expandedRowIds !== undefined;
+  const currentExpandedRowIds = isControlled
+    ? expandedRowIds
+    : uncontrolledExpandedRowIds;
+
+  useDebugValue(currentExpandedRowIds);
+
+  const getIsRowExpanded = useCallback(
+    (rowId: string) => currentExpandedRowIds.includes(rowId),
+    [currentExpandedRowIds]
+  );
+
+  const toggleRow = useCallback(
+    (rowId: string) => {
+      const nextExpandedRowIds = currentExpandedRowIds.includes(rowId)
+        ? currentExpandedRowIds.filter((id) => id !== rowId)
+        : [...currentExpandedRowIds, rowId];
+
+      if (!isControlled) setUncontrolledExpandedRowIds(nextExpandedRowIds);
+      onExpandedRowIdsChange?.(nextExpandedRowIds);
+    },
+    [currentExpandedRowIds, isControlled, onExpandedRowIdsChange]
+  );
+
+  return {
+    expandedRowIds: currentExpandedRowIds,
+    getIsRowExpanded,
+    toggleRow,
+  };
+};
+
+export default useRowExpansion;
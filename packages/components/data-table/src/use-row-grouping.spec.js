@@ -0,0 +1,40 @@
+import { getRowGroups, NO_VALUE_GROUP_KEY } from './use-row-grouping';
+
+const rows = [
+  { id: '1', status: 'open', total: 10 },
+  { id: '2', status: 'shipped', total: 20 },
+  { id: '3', status: 'open', total: 30 },
+  { id: '4', status: 'cancelled', total: 40 },
+];
+
+describe('getRowGroups', () => {
+  it('should group the rows by the value of the given key, ordered by their first row', () => {
+    expect(getRowGroups(rows, 'status')).toEqual([
+      { key: 'open', rows: [rows[0], rows[2]] },
+      { key: 'shipped', rows: [rows[1]] },
+      { key: 'cancelled', rows: [rows[3]] },
+    ]);
+  });
+  it('should group the rows without a value for the given key together', () => {
+    const rowsWithMissingValues = [
+      { id: '1', status: 'open' },
+      { id: '2' },
+      { id: '3', status: null },
+    ];
+    expect(getRowGroups(rowsWithMissingValues, 'status')).toEqual([
+      { key: 'open', rows: [rowsWithMissingValues[0]] },
+      {
+        key: NO_VALUE_GROUP_KEY,
+        rows: [rowsWithMissingValues[1], rowsWithMissingValues[2]],
+      },
+    ]);
+  });
+  it('should group the rows by the value returned by the given function', () => {
+    expect(
+      getRowGroups(rows, (row) => (row.total > 20 ? 'large' : 'small'))
+    ).toEqual([
+      { key: 'small', rows: [rows[0], rows[1]] },
+      { key: 'large', rows: [rows[2], rows[3]] },
+    ]);
+  });
+});
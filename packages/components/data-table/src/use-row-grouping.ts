@@ -0,0 +1,99 @@
+import { useState, useCallback, useDebugValue } from 'react';
+import type { TRow, TRowGroup } from './data-table';
+import getRowValue from './utils/get-row-value';
+
+export type TRowGroupingOptions<Row extends TRow = TRow> = {
+  rows: Row[];
+  groupBy?: string | ((row: Row) => string);
+  collapsedGroupKeys?: string[];
+  defaultCollapsedGroupKeys?: string[];
+  onCollapsedGroupKeysChange?: (collapsedGroupKeys: string[]) => void;
+};
+
+// the rows without a value for the grouping key are grouped together
+export const NO_VALUE_GROUP_KEY = '';
+
+const getRowGroupKey = <Row extends TRow = TRow>(
+  row: Row,
+  groupBy: string | ((row: Row) => string)
+) => {
+  if (typeof groupBy === 'function') return groupBy(row);
+
+  const value = getRowValue(row, groupBy);
+  return value === undefined || value === null
+    ? NO_VALUE_GROUP_KEY
+    : String(value);
+};
+
+// the groups are ordered by their first row, so that the sorting of the rows is preserved
+export const getRowGroups = <Row extends TRow = TRow>(
+  rows: Row[],
+  groupBy: string | ((row: Row) => string)
+) =>
+  rows.reduce<Pick<TRowGroup<Row>, 'key' | 'rows'>[]>((rowGroups, row) => {
+    const key = getRowGroupKey(row, groupBy);
+    const rowGroup = rowGroups.find((group) => group.key === key);
+    if (rowGroup) {
+      rowGroup.rows.push(row);
+      return rowGroups;
+    }
+    return [...rowGroups, { key, rows: [row] }];
+  }, []);
+
+/**
+ * Groups the rows of the table, and keeps track of the collapsed groups.
+ * The state is controlled when `collapsedGroupKeys` is provided, otherwise it's
+ * initialized with `defaultCollapsedGroupKeys` and kept internally.
+ */
+const useRowGrouping = <Row extends TRow = TRow>({
+  rows,
+  groupBy,
+  collapsedGroupKeys,
+  defaultCollapsedGroupKeys = [],
+  onCollapsedGroupKeysChange,
+}: TRowGroupingOptions<Row>) => {
+  const [uncontrolledCollapsedGroupKeys, setUncontrolledCollapsedGroupKeys] =
+    useState<string[]>(defaultCollapsedGroupKeys);
+  const isControlled = collapsedGroupKeys !== undefined;
+  const currentCollapsedGroupKeys = isControlled
+    ? collapsedGroupKeys
+    : uncontrolledCollapsedGroupKeys;
+
+  useDebugValue(currentCollapsedGroupKeys);
+
+  const toggleGroup = useCallback(
+    (groupKey: string) => {
+      const nextCollapsedGroupKeys = currentCollapsedGroupKeys.includes(
+        groupKey
+      )
+        ? currentCollapsedGroupKeys.filter((key) => key !== groupKey)
+        : [...currentCollapsedGroupKeys, groupKey];
+
+      if (!isControlled) {
+        setUncontrolledCollapsedGroupKeys(nextCollapsedGroupKeys);
+      }
+      onCollapsedGroupKeysChange?.(nextCollapsedGroupKeys);
+    },
+    [currentCollapsedGroupKeys, isControlled, onCollapsedGroupKeysChange]
+  );
+
+  const rowGroups: TRowGroup<Row>[] | undefined = groupBy
+    ? getRowGroups(rows, groupBy).map((rowGroup) => ({
+        ...rowGroup,
+        isCollapsed: currentCollapsedGroupKeys.includes(rowGroup.key),
+      }))
+    : undefined;
+
+  return {
+    rowGroups,
+    // the rows of the collapsed groups are not rendered
+    visibleRows: rowGroups
+      ? rowGroups.flatMap((rowGroup) =>
+          rowGroup.isCollapsed ? [] : rowGroup.rows
+        )
+      : rows,
+    toggleGroup,
+  };
+};
+
+export default useRowGrouping;
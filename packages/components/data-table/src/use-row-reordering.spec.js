@@ -0,0 +1,18 @@
+import { getRowReorderTargetIndex } from './use-row-reordering';
+
+describe('getRowReorderTargetIndex', () => {
+  it('should move a row before or after a following row', () => {
+    expect(getRowReorderTargetIndex(0, 2, 'before')).toBe(1);
+    expect(getRowReorderTargetIndex(0, 2, 'after')).toBe(2);
+  });
+
+  it('should move a row before or after a preceding row', () => {
+    expect(getRowReorderTargetIndex(3, 1, 'before')).toBe(1);
+    expect(getRowReorderTargetIndex(3, 1, 'after')).toBe(2);
+  });
+
+  it('should keep a row in place when dropped next to itself', () => {
+    expect(getRowReorderTargetIndex(1, 2, 'before')).toBe(1);
+    expect(getRowReorderTargetIndex(1, 0, 'after')).toBe(1);
+  });
+});
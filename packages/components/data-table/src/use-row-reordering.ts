@@ -0,0 +1,146 @@
+import { useState, useCallback, useDebugValue, type DragEvent } from 'react';
+import type { TDropPosition } from './use-column-reordering';
+
+export type TRowReorderingProps = {
+  'data-drop-position'?: TDropPosition;
+  'data-is-dragged'?: boolean;
+  onDragOver: (event: DragEvent<HTMLElement>) => void;
+  onDragLeave: () => void;
+  onDrop: (event: DragEvent<HTMLElement>) => void;
+};
+
+export type TRowDragHandleProps = {
+  draggable: boolean;
+  onDragStart: (event: DragEvent<HTMLElement>) => void;
+  onDragEnd: () => void;
+};
+
+type TDropTarget = {
+  rowId: string;
+  position: TDropPosition;
+};
+
+// the index of the moved row after it's removed from its position and inserted next to the target row
+export const getRowReorderTargetIndex = (
+  fromIndex: number,
+  targetIndex: number,
+  position: TDropPosition
+) => {
+  const insertionIndex = position === 'before' ? targetIndex : targetIndex + 1;
+  return fromIndex < insertionIndex ? insertionIndex - 1 : insertionIndex;
+};
+
+// the row is dropped before or after the target, depending on which half of the target is hovered
+const getDropPosition = (event: DragEvent<HTMLElement>): TDropPosition => {
+  // the rows are rendered with `display: contents`, so their first cell is measured instead
+  const { top, height } = (
+    event.currentTarget.firstElementChild ?? event.currentTarget
+  ).getBoundingClientRect();
+  return event.clientY < top + height / 2 ? 'before' : 'after';
+};
+
+/**
+ * Handles the reordering of the rows, by dragging their handle onto another row,
+ * or by moving them one position at a time with the keyboard.
+ * The rows are identified by their ids, and `onRowReorder` is called with their indexes within `rowIds`.
+ */
+const useRowReordering = ({
+  rowIds,
+  onRowReorder,
+}: {
+  rowIds: string[];
+  onRowReorder?: (fromIndex: number, toIndex: number) => void;
+}) => {
+  const [draggedRowId, setDraggedRowId] = useState<string>();
+  const [dropTarget, setDropTarget] = useState<TDropTarget>();
+  // the handle of the row moved with the keyboard keeps the focus, once the row has been moved
+  const [movedRowId, setMovedRowId] = useState<string>();
+  // the new index of the last row moved with the keyboard, to be announced
+  const [movedRowIndex, setMovedRowIndex] = useState<number>();
+
+  useDebugValue({ draggedRowId, dropTarget });
+
+  const resetDragState = () => {
+    setDraggedRowId(undefined);
+    setDropTarget(undefined);
+  };
+
+  const getRowReorderingProps = (
+    rowId: string
+  ): TRowReorderingProps | undefined => {
+    // the rows which are not part of `rowIds`, such as the children of the tree rows, can't be reordered
+    if (!onRowReorder || !rowIds.includes(rowId)) return undefined;
+
+    const canBeDropTarget = Boolean(draggedRowId && draggedRowId !== rowId);
+
+    return {
+      'data-drop-position':
+        dropTarget?.rowId === rowId ? dropTarget.position : undefined,
+      'data-is-dragged': draggedRowId === rowId || undefined,
+      onDragOver: (event) => {
+        if (!canBeDropTarget) return;
+        // allows dropping on this row
+        event.preventDefault();
+        event.dataTransfer.dropEffect = 'move';
+        const position = getDropPosition(event);
+        if (dropTarget?.rowId !== rowId || dropTarget.position !== position) {
+          setDropTarget({ rowId, position });
+        }
+      },
+      onDragLeave: () => {
+        if (dropTarget?.rowId === rowId) setDropTarget(undefined);
+      },
+      onDrop: (event) => {
+        event.preventDefault();
+        const fromIndex = draggedRowId ? rowIds.indexOf(draggedRowId) : -1;
+        const targetIndex = rowIds.indexOf(rowId);
+        if (canBeDropTarget && fromIndex !== -1 && targetIndex !== -1) {
+          const toIndex = getRowReorderTargetIndex(
+            fromIndex,
+            targetIndex,
+            getDropPosition(event)
+          );
+          if (fromIndex !== toIndex) onRowReorder(fromIndex, toIndex);
+        }
+        resetDragState();
+      },
+    };
+  };
+
+  const getDragHandleProps = (rowId: string): TRowDragHandleProps => ({
+    draggable: true,
+    onDragStart: (event) => {
+      event.dataTransfer.effectAllowed = 'move';
+      event.dataTransfer.setData('text/plain', rowId);
+      setDraggedRowId(rowId);
+    },
+    onDragEnd: resetDragState,
+  });
+
+  // moves the row by the given amount of positions, within the boundaries of the rows
+  const moveRow = (rowId: string, offset: number) => {
+    const fromIndex = rowIds.indexOf(rowId);
+    const toIndex = Math.min(
+      Math.max(fromIndex + offset, 0),
+      rowIds.length - 1
+    );
+    if (!onRowReorder || fromIndex === -1 || fromIndex === toIndex) return;
+
+    setMovedRowId(rowId);
+    setMovedRowIndex(toIndex);
+    onRowReorder(fromIndex, toIndex);
+  };
+
+  const clearMovedRow = useCallback(() => setMovedRowId(undefined), []);
+
+  return {
+    getRowReorderingProps,
+    getDragHandleProps,
+    moveRow,
+    movedRowId,
+    movedRowIndex,
+    clearMovedRow,
+  };
+};
+
+export default useRowReordering;
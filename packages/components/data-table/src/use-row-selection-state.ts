@@ -0,0 +1,122 @@
+import { useState, useRef, useMemo, useDebugValue } from 'react';
+import uniq from 'lodash/uniq';
+
+export type TRowSelectionStateOptions = {
+  rowIds: string[];
+  selectedRowIds?: string[];
+  onSelectionChange?: (selectedRowIds: string[]) => void;
+  areAllRowsSelected?: boolean;
+  onAllRowsSelectionChange?: (areAllRowsSelected: boolean) => void;
+};
+
+/**
+ * Keeps track of the selected rows of the table.
+ * The state is controlled when `selectedRowIds` is provided, otherwise it's kept internally.
+ * Selected rows which are not part of the current `rowIds` (e.g. from other pages) are preserved.
+ */
+const useRowSelectionState = ({
+  rowIds,
+  selectedRowIds,
+  onSelectionChange,
+  areAllRowsSelected = false,
+  onAllRowsSelectionChange,
+}: TRowSelectionStateOptions) => {
+  const [uncontrolledSelectedRowIds, setUncontrolledSelectedRowIds] = useState<
+    string[]
+  >([]);
+  const isControlled = selectedRowIds !== undefined;
+  const currentSelectedRowIds = isControlled
+    ? selectedRowIds
+    : uncontrolledSelectedRowIds;
+  // the anchor of the range selection (shift + click)
+  const lastToggledRowIndex = useRef<number | undefined>(undefined);
+
+  useDebugValue(currentSelectedRowIds);
+
+  const rowIndexById = useMemo(
+    () => new Map(rowIds.map((rowId, rowIndex) => [rowId, rowIndex])),
+    [rowIds]
+  );
+
+  const getIsRowSelected = (rowId: string) =>
+    areAllRowsSelected || currentSelectedRowIds.includes(rowId);
+
+  const numberOfSelectedRowsOnPage = rowIds.filter(getIsRowSelected).length;
+  const areAllPageRowsSelected =
+    rowIds.length > 0 && numberOfSelectedRowsOnPage === rowIds.length;
+  const arePageRowsPartiallySelected =
+    numberOfSelectedRowsOnPage > 0 && !areAllPageRowsSelected;
+
+  const updateSelection = (nextSelectedRowIds: string[]) => {
+    if (!isControlled) setUncontrolledSelectedRowIds(nextSelectedRowIds);
+    onSelectionChange?.(nextSelectedRowIds);
+  };
+
+  // when all the rows are selected, the selection of the current page is used as a starting point
+  const getBaseSelection = () =>
+    areAllRowsSelected
+      ? uniq([...currentSelectedRowIds, ...rowIds])
+      : currentSelectedRowIds;
+
+  const deselectAllRowsAcrossPages = () => {
+    if (areAllRowsSelected) onAllRowsSelectionChange?.(false);
+  };
+
+  const toggleRow = (rowId: string, isRangeSelection = false) => {
+    const rowIndex = rowIndexById.get(rowId);
+    if (rowIndex === undefined) return;
+
+    const shouldSelect = !getIsRowSelected(rowId);
+    const anchorIndex = lastToggledRowIndex.current;
+    const affectedRowIds =
+      isRangeSelection && anchorIndex !== undefined
+        ? rowIds.slice(
+            Math.min(anchorIndex, rowIndex),
+            Math.max(anchorIndex, rowIndex) + 1
+          )
+        : [rowId];
+    const baseSelection = getBaseSelection();
+
+    lastToggledRowIndex.current = rowIndex;
+    if (!shouldSelect) deselectAllRowsAcrossPages();
+    updateSelection(
+      shouldSelect
+        ? uniq([...baseSelection, ...affectedRowIds])
+        : baseSelection.filter((id) => !affectedRowIds.includes(id))
+    );
+  };
+
+  const toggleAllPageRows = () => {
+    const baseSelection = getBaseSelection();
+
+    if (areAllPageRowsSelected) {
+      deselectAllRowsAcrossPages();
+      updateSelection(baseSelection.filter((id) => !rowIndexById.has(id)));
+    } else {
+      updateSelection(uniq([...baseSelection, ...rowIds]));
+    }
+  };
+
+  const selectAllRowsAcrossPages = () => {
+    updateSelection(uniq([...currentSelectedRowIds, ...rowIds]));
+    onAllRowsSelectionChange?.(true);
+  };
+
+  const clearSelection = () => {
+    deselectAllRowsAcrossPages();
+    updateSelection([]);
+  };
+
+  return {
+    selectedRowIds: currentSelectedRowIds,
+    getIsRowSelected,
+    areAllPageRowsSelected,
+    arePageRowsPartiallySelected,
+    toggleRow,
+    toggleAllPageRows,
+    selectAllRowsAcrossPages,
+    clearSelection,
+  };
+};
+
+export default useRowSelectionState;
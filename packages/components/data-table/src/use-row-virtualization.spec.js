@@ -0,0 +1,99 @@
+import {
+  getVirtualWindow,
+  getMeasuredRowHeightsByIndex,
+} from './use-row-virtualization';
+
+describe('getVirtualWindow', () => {
+  it('should return the visible rows and the overscan rows', () => {
+    expect(
+      getVirtualWindow({
+        rowCount: 100,
+        viewport: { scrollTop: 400, height: 240 },
+        headerHeight: 40,
+        estimatedRowHeight: 40,
+        overscanRowCount: 2,
+      })
+    ).toEqual({
+      startIndex: 8,
+      endIndex: 16,
+      paddingTop: 320,
+      paddingBottom: 3320,
+    });
+  });
+
+  it('should not exceed the boundaries of the rows', () => {
+    expect(
+      getVirtualWindow({
+        rowCount: 10,
+        viewport: { scrollTop: 0, height: 1000 },
+        headerHeight: 40,
+        estimatedRowHeight: 40,
+        overscanRowCount: 5,
+      })
+    ).toEqual({
+      startIndex: 0,
+      endIndex: 9,
+      paddingTop: 0,
+      paddingBottom: 0,
+    });
+  });
+
+  it('should use the measured row heights when available', () => {
+    const measuredRowHeights = new Map([
+      [0, 100],
+      [1, 100],
+    ]);
+    expect(
+      getVirtualWindow({
+        rowCount: 100,
+        viewport: { scrollTop: 200, height: 80 },
+        headerHeight: 0,
+        estimatedRowHeight: 40,
+        overscanRowCount: 0,
+        measuredRowHeights,
+      })
+    ).toEqual({
+      startIndex: 2,
+      endIndex: 3,
+      paddingTop: 200,
+      paddingBottom: 3840,
+    });
+  });
+
+  it('should render nothing when there are no rows', () => {
+    expect(
+      getVirtualWindow({
+        rowCount: 0,
+        viewport: { scrollTop: 0, height: 400 },
+        headerHeight: 0,
+        estimatedRowHeight: 40,
+        overscanRowCount: 5,
+      })
+    ).toEqual({
+      startIndex: 0,
+      endIndex: -1,
+      paddingTop: 0,
+      paddingBottom: 0,
+    });
+  });
+});
+
+describe('getMeasuredRowHeightsByIndex', () => {
+  it('should keep the measured heights of the rows once reordered', () => {
+    const measuredRowHeights = new Map([
+      ['row-1', 100],
+      ['row-2', 60],
+    ]);
+    expect(
+      getMeasuredRowHeightsByIndex(
+        ['row-3', 'row-2', 'row-1'],
+        measuredRowHeights
+      )
+    ).toEqual(
+      new Map([
+        [1, 60],
+        [2, 100],
+      ])
+    );
+  });
+});
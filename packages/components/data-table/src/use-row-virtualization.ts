@@ -0,0 +1,260 @@
+import {
+  useState,
+  useRef,
+  useEffect,
+  useLayoutEffect,
+  useCallback,
+  useDebugValue,
+  type RefObject,
+} from 'react';
+
+type TScrollElementRef = RefObject<HTMLElement | undefined | null>;
+
+export type TRowVirtualizationOptions = {
+  scrollElementRef: TScrollElementRef;
+  rowIds: string[];
+  isEnabled: boolean;
+  estimatedRowHeight: number;
+  overscanRowCount: number;
+};
+
+export type TVirtualWindow = {
+  startIndex: number;
+  endIndex: number;
+  paddingTop: number;
+  paddingBottom: number;
+};
+
+type TViewport = {
+  scrollTop: number;
+  height: number;
+};
+
+// returns the height of a row, preferring the measured one when available
+const getRowHeight = (
+  measuredRowHeights: Map<number, number>,
+  rowIndex: number,
+  estimatedRowHeight: number
+) => measuredRowHeights.get(rowIndex) || estimatedRowHeight;
+
+// the heights are measured by row id, so that they follow the rows once sorted, filtered or replaced
+export const getMeasuredRowHeightsByIndex = (
+  rowIds: string[],
+  measuredRowHeights: Map<string, number>
+) => {
+  const measuredRowHeightsByIndex = new Map<number, number>();
+  rowIds.forEach((rowId, rowIndex) => {
+    const rowHeight = measuredRowHeights.get(rowId);
+    if (rowHeight) measuredRowHeightsByIndex.set(rowIndex, rowHeight);
+  });
+  return measuredRowHeightsByIndex;
+};
+
+export const getVirtualWindow = ({
+  rowCount,
+  viewport,
+  headerHeight,
+  estimatedRowHeight,
+  overscanRowCount,
+  measuredRowHeights = new Map(),
+}: {
+  rowCount: number;
+  viewport: TViewport;
+  headerHeight: number;
+  estimatedRowHeight: number;
+  overscanRowCount: number;
+  measuredRowHeights?: Map<number, number>;
+}): TVirtualWindow => {
+  // the sticky header covers the top part of the scroll area
+  const visibleTop = Math.max(0, viewport.scrollTop);
+  const visibleBottom =
+    visibleTop + Math.max(0, viewport.height - headerHeight);
+
+  let offset = 0;
+  let firstVisibleIndex = rowCount;
+  let lastVisibleIndex = rowCount - 1;
+  for (let rowIndex = 0; rowIndex < rowCount; rowIndex++) {
+    const rowHeight = getRowHeight(
+      measuredRowHeights,
+      rowIndex,
+      estimatedRowHeight
+    );
+    if (firstVisibleIndex === rowCount && offset + rowHeight > visibleTop) {
+      firstVisibleIndex = rowIndex;
+    }
+    if (offset >= visibleBottom) {
+      lastVisibleIndex = rowIndex - 1;
+      break;
+    }
+    offset += rowHeight;
+  }
+
+  const startIndex = Math.max(
+    0,
+    Math.min(firstVisibleIndex, rowCount - 1) - overscanRowCount
+  );
+  const endIndex = Math.min(
+    rowCount - 1,
+    Math.max(lastVisibleIndex, startIndex) + overscanRowCount
+  );
+
+  let paddingTop = 0;
+  let paddingBottom = 0;
+  for (let rowIndex = 0; rowIndex < rowCount; rowIndex++) {
+    const rowHeight = getRowHeight(
+      measuredRowHeights,
+      rowIndex,
+      estimatedRowHeight
+    );
+    if (rowIndex < startIndex) paddingTop += rowHeight;
+    if (rowIndex > endIndex) paddingBottom += rowHeight;
+  }
+
+  return { startIndex, endIndex, paddingTop, paddingBottom };
+};
+
+const getViewport = (scrollElement?: HTMLElement | null): TViewport => ({
+  scrollTop: scrollElement?.scrollTop ?? 0,
+  height: scrollElement?.clientHeight ?? 0,
+});
+
+const getHeaderHeight = (scrollElement?: HTMLElement | null) =>
+  scrollElement?.querySelector(':scope > thead')?.getBoundingClientRect()
+    .height ?? 0;
+
+/**
+ * Computes the window of rows that should be mounted, based on the scroll position
+ * of the table. Rows outside of this window are replaced by spacers, so that the
+ * total scrollable height stays the same.
+ * The heights of the rendered rows are measured after every render, and the
+ * `estimatedRowHeight` is only used for the rows that have not been rendered yet.
+ */
+const useRowVirtualization = ({
+  scrollElementRef,
+  rowIds,
+  isEnabled,
+  estimatedRowHeight,
+  overscanRowCount,
+}: TRowVirtualizationOptions) => {
+  const [viewport, setViewport] = useState<TViewport>({
+    scrollTop: 0,
+    height: 0,
+  });
+  const measuredRowHeights = useRef<Map<string, number>>(new Map());
+  const headerHeight = useRef(0);
+  const rowIdsRef = useRef(rowIds);
+  rowIdsRef.current = rowIds;
+  const rowCount = rowIds.length;
+
+  useEffect(() => {
+    const scrollElement = scrollElementRef.current;
+    if (!isEnabled || !scrollElement) return;
+
+    let animationFrame: number | undefined;
+    const handleScroll = () => {
+      // throttle and sync the updates with the screen refresh rate
+      if (animationFrame !== undefined) return;
+      animationFrame = requestAnimationFrame(() => {
+        animationFrame = undefined;
+        setViewport(getViewport(scrollElement));
+      });
+    };
+
+    setViewport(getViewport(scrollElement));
+    scrollElement.addEventListener('scroll', handleScroll, { passive: true });
+    window.addEventListener('resize', handleScroll);
+    return () => {
+      scrollElement.removeEventListener('scroll', handleScroll);
+      window.removeEventListener('resize', handleScroll);
+      if (animationFrame !== undefined) cancelAnimationFrame(animationFrame);
+    };
+  }, [isEnabled, scrollElementRef]);
+
+  // measure the rows which are currently rendered
+  useLayoutEffect(() => {
+    const scrollElement = scrollElementRef.current;
+    if (!isEnabled || !scrollElement) return;
+
+    headerHeight.current = getHeaderHeight(scrollElement);
+    let lastRowId: string | undefined;
+    scrollElement
+      .querySelectorAll(':scope > tbody > tr:not([data-virtual-spacer])')
+      .forEach((rowElement) => {
+        // table rows are rendered with `display: contents`, so we measure their first cell instead
+        const height =
+          rowElement.firstElementChild?.getBoundingClientRect().height ?? 0;
+        if (rowElement.hasAttribute('data-row-index')) {
+          lastRowId = rowIds[Number(rowElement.getAttribute('data-row-index'))];
+          if (lastRowId !== undefined && height) {
+            measuredRowHeights.current.set(lastRowId, height);
+          }
+        } else if (lastRowId !== undefined && height) {
+          // additional rows (e.g. the nested rows) belong to the data row rendered before them
+          measuredRowHeights.current.set(
+            lastRowId,
+            (measuredRowHeights.current.get(lastRowId) || estimatedRowHeight) +
+              height
+          );
+        }
+      });
+  });
+
+  const virtualWindow: TVirtualWindow = isEnabled
+    ? getVirtualWindow({
+        rowCount,
+        viewport,
+        headerHeight: headerHeight.current,
+        estimatedRowHeight,
+        overscanRowCount,
+        measuredRowHeights: getMeasuredRowHeightsByIndex(
+          rowIds,
+          measuredRowHeights.current
+        ),
+      })
+    : {
+        startIndex: 0,
+        endIndex: rowCount - 1,
+        paddingTop: 0,
+        paddingBottom: 0,
+      };
+
+  const scrollToIndex = useCallback(
+    (rowIndex: number) => {
+      const scrollElement = scrollElementRef.current;
+      if (!isEnabled || !scrollElement) return;
+
+      const measuredRowHeightsByIndex = getMeasuredRowHeightsByIndex(
+        rowIdsRef.current,
+        measuredRowHeights.current
+      );
+      let rowTop = 0;
+      for (let index = 0; index < rowIndex; index++) {
+        rowTop += getRowHeight(
+          measuredRowHeightsByIndex,
+          index,
+          estimatedRowHeight
+        );
+      }
+      const rowBottom =
+        rowTop +
+        getRowHeight(measuredRowHeightsByIndex, rowIndex, estimatedRowHeight);
+      const { scrollTop, height } = getViewport(scrollElement);
+      const visibleHeight = height - headerHeight.current;
+
+      // only scroll when the row is (partially) outside of the visible area
+      if (rowTop < scrollTop) {
+        scrollElement.scrollTop = rowTop;
+      } else if (rowBottom > scrollTop + visibleHeight) {
+        scrollElement.scrollTop = rowBottom - visibleHeight;
+      }
+      setViewport(getViewport(scrollElement));
+    },
+    [isEnabled, scrollElementRef, estimatedRowHeight]
+  );
+
+  useDebugValue(virtualWindow);
+
+  return { ...virtualWindow, scrollToIndex };
+};
+
+export default useRowVirtualization;
@@ -0,0 +1,100 @@
+import { renderHook } from '@testing-library/react';
+import useTreeRows, {
+  flattenTreeRows,
+  defaultGetRowChildren,
+} from './use-tree-rows';
+
+const treeRows = [
+  {
+    id: 'clothing',
+    children: [
+      { id: 'shirts', children: [{ id: 'polos' }] },
+      { id: 'trousers' },
+    ],
+  },
+  { id: 'shoes' },
+];
+
+const getRowHasChildren = (row) => Boolean(row.children?.length);
+
+describe('flattenTreeRows', () => {
+  it('should insert the children of the expanded rows after them', () => {
+    const flattenedRows = flattenTreeRows(treeRows, {
+      getRowChildren: defaultGetRowChildren,
+      getRowHasChildren,
+      getIsRowExpanded: (rowId) => ['clothing', 'shirts'].includes(rowId),
+    });
+
+    expect(
+      flattenedRows.map(({ row, treeRowInfo }) => [row.id, treeRowInfo.depth])
+    ).toEqual([
+      ['clothing', 0],
+      ['shirts', 1],
+      ['polos', 2],
+      ['trousers', 1],
+      ['shoes', 0],
+    ]);
+  });
+
+  it('should not render the children of the collapsed rows', () => {
+    const flattenedRows = flattenTreeRows(treeRows, {
+      getRowChildren: defaultGetRowChildren,
+      getRowHasChildren,
+      // the children of a collapsed row are hidden, even if they are expanded themselves
+      getIsRowExpanded: (rowId) => rowId === 'shirts',
+    });
+
+    expect(flattenedRows.map(({ row }) => row.id)).toEqual([
+      'clothing',
+      'shoes',
+    ]);
+    expect(flattenedRows[0].treeRowInfo).toEqual({
+      depth: 0,
+      hasChildren: true,
+      isLoadingChildren: false,
+    });
+  });
+});
+
+describe('useTreeRows', () => {
+  const lazyRows = [{ id: 'clothing' }, { id: 'shoes' }];
+
+  it('should load the children of the expanded rows once', () => {
+    const onLoadRowChildren = jest.fn();
+    const { result, rerender } = renderHook((options) =>
+      useTreeRows({
+        rows: lazyRows,
+        isEnabled: true,
+        getRowHasChildren: () => true,
+        getIsRowExpanded: (rowId) => rowId === 'clothing',
+        onLoadRowChildren,
+        ...options,
+      })
+    );
+
+    expect(onLoadRowChildren).toHaveBeenCalledTimes(1);
+    expect(onLoadRowChildren).toHaveBeenCalledWith(lazyRows[0]);
+    expect(result.current.getTreeRowInfo('clothing').isLoadingChildren).toBe(
+      true
+    );
+
+    rerender();
+    expect(onLoadRowChildren).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the rows as they are when disabled', () => {
+    const { result } = renderHook(() =>
+      useTreeRows({
+        rows: treeRows,
+        isEnabled: false,
+        getIsRowExpanded: () => true,
+      })
+    );
+
+    expect(result.current.rows.map((row) => row.id)).toEqual([
+      'clothing',
+      'shoes',
+    ]);
+    expect(result.current.getTreeRowInfo('clothing')).toBeUndefined();
+  });
+});
@@ -0,0 +1,118 @@
+import { useRef, useEffect, useDebugValue } from 'react';
+import type { TRow } from './data-table';
+
+export type TTreeRowInfo = {
+  // the level of the row within the tree, starting from 0 for the top level rows
+  depth: number;
+  hasChildren: boolean;
+  // the row has children which have not been provided yet
+  isLoadingChildren: boolean;
+};
+
+export type TTreeRowsOptions<Row extends TRow = TRow> = {
+  rows: Row[];
+  isEnabled: boolean;
+  getRowChildren?: (row: Row) => Row[] | undefined;
+  getRowHasChildren?: (row: Row) => boolean;
+  getIsRowExpanded: (rowId: string) => boolean;
+  onLoadRowChildren?: (row: Row) => void;
+};
+
+export const defaultGetRowChildren = <Row extends TRow = TRow>(row: Row) =>
+  (row as Row & { children?: Row[] }).children;
+
+// the children of the expanded rows are inserted right after them, so that each row stays above its descendants
+export const flattenTreeRows = <Row extends TRow = TRow>(
+  rows: Row[],
+  {
+    getRowChildren,
+    getRowHasChildren,
+    getIsRowExpanded,
+  }: Pick<
+    Required<TTreeRowsOptions<Row>>,
+    'getRowChildren' | 'getRowHasChildren' | 'getIsRowExpanded'
+  >,
+  depth = 0
+): { row: Row; treeRowInfo: TTreeRowInfo }[] =>
+  rows.flatMap((row) => {
+    const children = getRowChildren(row);
+    const hasChildren = getRowHasChildren(row);
+    const isExpanded = hasChildren && getIsRowExpanded(row.id);
+    const treeRowInfo = {
+      depth,
+      hasChildren,
+      isLoadingChildren: isExpanded && !children,
+    };
+    return [
+      { row, treeRowInfo },
+      ...(isExpanded && children
+        ? flattenTreeRows(
+            children,
+            { getRowChildren, getRowHasChildren, getIsRowExpanded },
+            depth + 1
+          )
+        : []),
+    ];
+  });
+
+/**
+ * Flattens the hierarchy of the rows into the list of rendered rows, including the
+ * children of the expanded rows.
+ * The rows which have children, but whose children have not been provided yet, are
+ * loaded once expanded by calling `onLoadRowChildren`.
+ */
+const useTreeRows = <Row extends TRow = TRow>({
+  rows,
+  isEnabled,
+  getRowChildren = defaultGetRowChildren,
+  // the rows with lazily loaded children need to define whether they have any
+  getRowHasChildren = (row) => Boolean(getRowChildren(row)?.length),
+  getIsRowExpanded,
+  onLoadRowChildren,
+}: TTreeRowsOptions<Row>) => {
+  const treeRows = isEnabled
+    ? flattenTreeRows(rows, {
+        getRowChildren,
+        getRowHasChildren,
+        getIsRowExpanded,
+      })
+    : rows.map((row) => ({ row, treeRowInfo: undefined }));
+  const treeRowInfos = new Map(
+    treeRows.map(({ row, treeRowInfo }) => [row.id, treeRowInfo])
+  );
+
+  // the children of each row are requested only once, until they are provided
+  const requestedRowIds = useRef(new Set<string>());
+  const rowsToLoad = treeRows.filter(
+    ({ treeRowInfo }) => treeRowInfo?.isLoadingChildren
+  );
+  const rowIdsToLoad = rowsToLoad.map(({ row }) => row.id).join();
+  // the effect only depends on the rows to be loaded, and reads the latest callback
+  const onLoadRowChildrenRef = useRef(onLoadRowChildren);
+  onLoadRowChildrenRef.current = onLoadRowChildren;
+  const rowsToLoadRef = useRef(rowsToLoad);
+  rowsToLoadRef.current = rowsToLoad;
+
+  useEffect(() => {
+    const pendingRowIds = new Set(
+      rowsToLoadRef.current.map(({ row }) => row.id)
+    );
+    requestedRowIds.current.forEach((rowId) => {
+      if (!pendingRowIds.has(rowId)) requestedRowIds.current.delete(rowId);
+    });
+    rowsToLoadRef.current.forEach(({ row }) => {
+      if (requestedRowIds.current.has(row.id)) return;
+      requestedRowIds.current.add(row.id);
+      onLoadRowChildrenRef.current?.(row);
+    });
+  }, [rowIdsToLoad]);
+
+  useDebugValue(rowIdsToLoad);
+
+  return {
+    rows: treeRows.map(({ row }) => row),
+    getTreeRowInfo: (rowId: string) => treeRowInfos.get(rowId),
+  };
+};
+
+export default useTreeRows;
@@ -0,0 +1,56 @@
+import getColumnAggregate from './get-column-aggregate';
+
+const rows = [
+  { id: '1', amount: 10 },
+  { id: '2', amount: '30' },
+  { id: '3', amount: null },
+  { id: '4', amount: 5 },
+];
+
+describe('when using a built-in aggregate', () => {
+  it('should compute the aggregate of the numeric values of the column', () => {
+    expect(getColumnAggregate(rows, { key: 'amount', aggregate: 'sum' })).toBe(
+      45
+    );
+    expect(
+      getColumnAggregate(rows, { key: 'amount', aggregate: 'average' })
+    ).toBe(15);
+    expect(
+      getColumnAggregate(rows, { key: 'amount', aggregate: 'count' })
+    ).toBe(3);
+    expect(getColumnAggregate(rows, { key: 'amount', aggregate: 'min' })).toBe(
+      5
+    );
+    expect(getColumnAggregate(rows, { key: 'amount', aggregate: 'max' })).toBe(
+      30
+    );
+  });
+  it('should count the values which are not numeric', () => {
+    expect(
+      getColumnAggregate([...rows, { id: '5', amount: 'n/a' }], {
+        key: 'amount',
+        aggregate: 'count',
+      })
+    ).toBe(4);
+  });
+  it('should not return an average, min or max without values', () => {
+    expect(
+      getColumnAggregate([], { key: 'amount', aggregate: 'average' })
+    ).toBeUndefined();
+    expect(
+      getColumnAggregate([], { key: 'amount', aggregate: 'min' })
+    ).toBeUndefined();
+    expect(getColumnAggregate([], { key: 'amount', aggregate: 'sum' })).toBe(0);
+  });
+});
+
+describe('when using a custom aggregate function', () => {
+  it('should return the value computed from the rows', () => {
+    expect(
+      getColumnAggregate(rows, {
+        key: 'amount',
+        aggregate: (aggregatedRows) => `${aggregatedRows.length} items`,
+      })
+    ).toBe('4 items');
+  });
+});
@@ -0,0 +1,37 @@
+import type { TColumn, TRow } from '../data-table';
+import getRowValue from './get-row-value';
+
+const getValues = <Row extends TRow = TRow>(rows: Row[], columnKey: string) =>
+  rows
+    .map((row) => getRowValue(row, columnKey))
+    .filter((value) => value !== undefined && value !== null && value !== '');
+
+const getColumnAggregate = <Row extends TRow = TRow>(
+  rows: Row[],
+  column: Pick<TColumn<Row>, 'key' | 'aggregate'>
+): unknown => {
+  if (typeof column.aggregate === 'function') return column.aggregate(rows);
+
+  // only the count includes the values which are not numeric
+  if (column.aggregate === 'count') return getValues(rows, column.key).length;
+
+  const values = getValues(rows, column.key)
+    .map(Number)
+    .filter((value) => !Number.isNaN(value));
+  switch (column.aggregate) {
+    case 'sum':
+      return values.reduce((sum, value) => sum + value, 0);
+    case 'average':
+      return values.length > 0
+        ? values.reduce((sum, value) => sum + value, 0) / values.length
+        : undefined;
+    case 'min':
+      return values.length > 0 ? Math.min(...values) : undefined;
+    case 'max':
+      return values.length > 0 ? Math.max(...values) : undefined;
+    default:
+      return undefined;
+  }
+};
+
+export default getColumnAggregate;
@@ -0,0 +1,74 @@
+import getDelimitedText, {
+  getCellText,
+  escapeDelimitedValue,
+} from './get-delimited-text';
+
+const rows = [{ id: '1', title: 'Parasite', year: 2019, isReleased: true }];
+
+describe('getCellText', () => {
+  it('should return the value of the column as text', () => {
+    expect(getCellText(rows[0], { key: 'year' })).toBe('2019');
+    expect(getCellText(rows[0], { key: 'isReleased' })).toBe('true');
+  });
+
+  it('should leave the values which are not plain text empty', () => {
+    expect(getCellText({ id: '1', tags: ['a'] }, { key: 'tags' })).toBe('');
+    expect(getCellText(rows[0], { key: 'missing' })).toBe('');
+  });
+
+  it('should use the text serializer of the column', () => {
+    expect(
+      getCellText(rows[0], {
+        key: 'title',
+        getTextValue: (row) => row.title.toUpperCase(),
+      })
+    ).toBe('PARASITE');
+  });
+});
+
+describe('escapeDelimitedValue', () => {
+  it('should quote the values containing the delimiter of the format', () => {
+    expect(escapeDelimitedValue('Woman, At War', 'csv')).toBe(
+      '"Woman, At War"'
+    );
+    expect(escapeDelimitedValue('Woman, At War', 'tsv')).toBe('Woman, At War');
+    expect(escapeDelimitedValue('Woman\tAt War', 'tsv')).toBe(
+      '"Woman\tAt War"'
+    );
+  });
+
+  it('should quote the values containing line breaks or quotes', () => {
+    expect(escapeDelimitedValue('Woman\nAt War', 'csv')).toBe(
+      '"Woman\nAt War"'
+    );
+    expect(escapeDelimitedValue('Woman At "War"', 'tsv')).toBe(
+      '"Woman At ""War"""'
+    );
+  });
+});
+
+describe('getDelimitedText', () => {
+  it('should separate the cells with tabs and the rows with line breaks', () => {
+    expect(
+      getDelimitedText(
+        [
+          ['Parasite', '2019'],
+          ['Woman At War', '2018'],
+        ],
+        'tsv'
+      )
+    ).toBe('Parasite\t2019\nWoman At War\t2018');
+  });
+
+  it('should separate the cells with commas and the rows with CRLF line breaks', () => {
+    expect(
+      getDelimitedText(
+        [
+          ['Parasite', '2019'],
+          ['Woman, At War', '2018'],
+        ],
+        'csv'
+      )
+    ).toBe('Parasite,2019\r\n"Woman, At War",2018');
+  });
+});
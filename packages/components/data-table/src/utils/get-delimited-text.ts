@@ -0,0 +1,56 @@
+import type { TColumn, TRow } from '../data-table';
+import getRowValue from './get-row-value';
+
+export type TDelimitedTextFormat = 'csv' | 'tsv';
+
+const delimiters: Record<TDelimitedTextFormat, string> = {
+  csv: ',',
+  tsv: '\t',
+};
+
+// the CSV lines are separated following RFC 4180, while spreadsheets expect plain line breaks in pasted TSV
+const lineBreaks: Record<TDelimitedTextFormat, string> = {
+  csv: '\r\n',
+  tsv: '\n',
+};
+
+// the values which can't be represented as plain text (e.g. objects) are left empty
+export const getValueText = (value: unknown): string =>
+  typeof value === 'string' ||
+  typeof value === 'number' ||
+  typeof value === 'boolean'
+    ? String(value)
+    : '';
+
+export const getCellText = <Row extends TRow = TRow>(
+  row: Row,
+  column: Pick<TColumn<Row>, 'key' | 'getTextValue'>
+): string => {
+  if (column.getTextValue) return column.getTextValue(row);
+
+  return getValueText(getRowValue(row, column.key));
+};
+
+// like spreadsheets do, the values containing delimiters, line breaks or quotes are quoted
+export const escapeDelimitedValue = (
+  value: string,
+  format: TDelimitedTextFormat
+) =>
+  value.includes(delimiters[format]) || /[\n\r"]/.test(value)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+
+/**
+ * Returns the given lines of values as comma-separated values (CSV), or as
+ * tab-separated values (TSV) which can be pasted into a spreadsheet.
+ */
+const getDelimitedText = (lines: string[][], format: TDelimitedTextFormat) =>
+  lines
+    .map((values) =>
+      values
+        .map((value) => escapeDelimitedValue(value, format))
+        .join(delimiters[format])
+    )
+    .join(lineBreaks[format]);
+
+export default getDelimitedText;
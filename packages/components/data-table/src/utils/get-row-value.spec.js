@@ -0,0 +1,10 @@
+import getRowValue from './get-row-value';
+
+describe('getRowValue', () => {
+  it('should return the value of the given key', () => {
+    expect(getRowValue({ id: '1', title: 'Title' }, 'title')).toBe('Title');
+  });
+  it('should return undefined when the row has no value for the given key', () => {
+    expect(getRowValue({ id: '1' }, 'title')).toBeUndefined();
+  });
+});
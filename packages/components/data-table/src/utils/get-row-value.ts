@@ -0,0 +1,7 @@
+import type { TRow } from '../data-table';
+
+// the rows can hold any field, which is read by the key of a column or of the grouping
+const getRowValue = <Row extends TRow = TRow>(row: Row, key: string) =>
+  (row as Record<string, unknown>)[key];
+
+export default getRowValue;
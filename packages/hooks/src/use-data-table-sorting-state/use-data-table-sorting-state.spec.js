@@ -16,6 +16,19 @@ const TestComponent = () => {
       >
         Change sorting
       </button>
+      <button
+        type="button"
+        onClick={() => tableSorting.onChange('age', 'desc', true)}
+        aria-label="Add sorting"
+      >
+        Add sorting
+      </button>
+      <div>
+        All sorting:{' '}
+        {tableSorting.values
+          .map((definition) => `${definition.key}:${definition.order}`)
+          .join(',')}
+      </div>
     </>
   );
 };
@@ -28,3 +41,16 @@ describe('sorting', () => {
     expect(screen.getByText(/Sorting: name:asc/)).toBeInTheDocument();
   });
 });
+
+describe('multi sorting', () => {
+  it('should add and replace sort definitions', async () => {
+    render(<TestComponent />);
+    fireEvent.click(screen.getByLabelText(/Add sorting/));
+    expect(
+      screen.getByText(/All sorting: createdAt:desc,age:desc/)
+    ).toBeInTheDocument();
+    expect(screen.getByText(/Sorting: createdAt:desc/)).toBeInTheDocument();
+    fireEvent.click(screen.getByLabelText(/Change sorting/));
+    expect(screen.getByText(/All sorting: name:asc$/)).toBeInTheDocument();
+  });
+});
@@ -7,10 +7,22 @@ export type TSortDefinition = {
 };
 
 export type TDataTableSortingState = {
+  /**
+   * The sort definition with the highest priority.
+   */
   value: TSortDefinition;
+  /**
+   * The ordered list of sort definitions, the first one having the highest priority.
+   */
+  values: TSortDefinition[];
+  /**
+   * Sorts by the given key only, or, when `isMultiSort` is `true`, adds the key to the
+   * existing sort definitions (or updates its order, if it's already part of them).
+   */
   onChange: (
     key: TSortDefinition['key'],
-    order: TSortDefinition['order']
+    order: TSortDefinition['order'],
+    isMultiSort?: boolean
   ) => void;
 };
 
@@ -21,28 +33,53 @@ const applyIf = (
 ): Partial<TDataTableSortingState> =>
   !isNil(values[key]) ? { [key]: values[key] } : {};
 
+const getInitialSortDefinitions = (
+  initialValues: Partial<TSortDefinition> | TSortDefinition[]
+): TSortDefinition[] => {
+  if (Array.isArray(initialValues)) {
+    return initialValues.length > 0 ? initialValues : [defaultValues];
+  }
+  return [
+    {
+      ...defaultValues,
+      ...applyIf(initialValues, 'key'),
+      ...applyIf(initialValues, 'order'),
+    },
+  ];
+};
+
 const useDataTableSortingState = (
-  initialValues: Partial<TSortDefinition> = {}
+  initialValues: Partial<TSortDefinition> | TSortDefinition[] = {}
 ): TDataTableSortingState => {
-  const mergedValues: TSortDefinition = {
-    ...defaultValues,
-    ...applyIf(initialValues, 'key'),
-    ...applyIf(initialValues, 'order'),
-  };
-  const [sortDefinition, setSortDefinition] =
-    useState<TSortDefinition>(mergedValues);
+  const [sortDefinitions, setSortDefinitions] = useState<TSortDefinition[]>(
+    () => getInitialSortDefinitions(initialValues)
+  );
   const onTableSortingChange = useCallback<TDataTableSortingState['onChange']>(
-    (key: TSortDefinition['key'], order: TSortDefinition['order']): void => {
-      setSortDefinition({
-        key,
-        order,
+    (
+      key: TSortDefinition['key'],
+      order: TSortDefinition['order'],
+      isMultiSort = false
+    ): void => {
+      setSortDefinitions((currentSortDefinitions) => {
+        if (!isMultiSort) {
+          return [{ key, order }];
+        }
+        if (
+          currentSortDefinitions.some((definition) => definition.key === key)
+        ) {
+          return currentSortDefinitions.map((definition) =>
+            definition.key === key ? { key, order } : definition
+          );
+        }
+        return [...currentSortDefinitions, { key, order }];
       });
     },
     []
   );
 
   return {
-    value: sortDefinition,
+    value: sortDefinitions[0],
+    values: sortDefinitions,
     onChange: onTableSortingChange,
   };
 };
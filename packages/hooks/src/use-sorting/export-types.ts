@@ -1 +1,8 @@
-export type { TItem, TSortDirection, TSortingState } from './use-sorting';
+export type {
+  TItem,
+  TSortDirection,
+  TSortDescriptor,
+  TSortComparator,
+  TSortComparators,
+  TSortingState,
+} from './use-sorting';
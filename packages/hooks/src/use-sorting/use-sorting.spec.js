@@ -90,3 +90,112 @@ describe('when using with a custom sorting method', () => {
     // todo
   });
 });
+
+describe('when sorting by multiple keys', () => {
+  const itemsWithStatus = [
+    { id: '1', status: 'draft', year: 2018 },
+    { id: '2', status: 'published', year: 2019 },
+    { id: '3', status: 'draft', year: 2020 },
+    { id: '4', status: 'published', year: 2017 },
+  ];
+
+  it('should use the following sort descriptors to break the ties', () => {
+    const { result } = renderHook(() =>
+      useSorting(itemsWithStatus, [
+        { key: 'status', order: 'asc' },
+        { key: 'year', order: 'desc' },
+      ])
+    );
+
+    expect(result.current.items.map((item) => item.id)).toEqual([
+      '3',
+      '1',
+      '2',
+      '4',
+    ]);
+    expect(result.current.sortedBy).toEqual('status');
+    expect(result.current.sortDirection).toEqual('asc');
+  });
+  it('should add a secondary sort descriptor when multi sorting', () => {
+    const { result } = renderHook(() =>
+      useSorting(itemsWithStatus, 'status', 'desc')
+    );
+
+    act(() => {
+      result.current.onSortChange('year', undefined, true);
+    });
+
+    expect(result.current.sortDescriptors).toEqual([
+      { key: 'status', order: 'desc' },
+      { key: 'year', order: 'asc' },
+    ]);
+    expect(result.current.items.map((item) => item.id)).toEqual([
+      '4',
+      '2',
+      '1',
+      '3',
+    ]);
+
+    act(() => {
+      result.current.onSortChange('year', undefined, true);
+    });
+
+    expect(result.current.sortDescriptors).toEqual([
+      { key: 'status', order: 'desc' },
+      { key: 'year', order: 'desc' },
+    ]);
+    expect(result.current.items.map((item) => item.id)).toEqual([
+      '2',
+      '4',
+      '3',
+      '1',
+    ]);
+  });
+  it('should replace the sort descriptors when not multi sorting', () => {
+    const { result } = renderHook(() =>
+      useSorting(itemsWithStatus, [
+        { key: 'status', order: 'asc' },
+        { key: 'year', order: 'desc' },
+      ])
+    );
+
+    act(() => {
+      result.current.onSortChange('year');
+    });
+
+    expect(result.current.sortDescriptors).toEqual([
+      { key: 'year', order: 'asc' },
+    ]);
+    expect(result.current.items.map((item) => item.id)).toEqual([
+      '4',
+      '1',
+      '2',
+      '3',
+    ]);
+  });
+  it('should use the comparator of a key when provided', () => {
+    const statusOrder = ['published', 'draft'];
+    const { result } = renderHook(() =>
+      useSorting(
+        itemsWithStatus,
+        [
+          { key: 'status', order: 'asc' },
+          { key: 'year', order: 'asc' },
+        ],
+        undefined,
+        undefined,
+        {
+          status: (a, b) =>
+            statusOrder.indexOf(a.status) - statusOrder.indexOf(b.status),
+        }
+      )
+    );
+
+    expect(result.current.items.map((item) => item.id)).toEqual([
+      '4',
+      '2',
+      '1',
+      '3',
+    ]);
+  });
+});
@@ -1,17 +1,46 @@
 import { useState, useDebugValue } from 'react';
 import sortBy from 'lodash/sortBy';
+import get from 'lodash/get';
 
 export interface TItem {
   id: string;
 }
 export type TSortDirection = 'asc' | 'desc';
+export type TSortDescriptor = {
+  key: string;
+  order: TSortDirection;
+};
+export type TSortComparator<Item extends TItem = TItem> = (
+  a: Item,
+  b: Item
+) => number;
+export type TSortComparators<Item extends TItem = TItem> = Record<
+  string,
+  TSortComparator<Item>
+>;
 export type TSortingState<Item extends TItem = TItem> = {
   items: Item[];
   sortedBy?: string;
   sortDirection?: TSortDirection;
+  sortDescriptors: TSortDescriptor[];
 };
 export type TSortingFn = typeof sortBy;
 
+// compares the values of the field, keeping the empty values at the end
+const compareFieldValues = <Item extends TItem = TItem>(
+  a: Item,
+  b: Item,
+  field: string
+) => {
+  const valueA = get(a, field);
+  const valueB = get(b, field);
+
+  if (valueA === valueB) return 0;
+  if (valueA === undefined || valueA === null) return 1;
+  if (valueB === undefined || valueB === null) return -1;
+  return valueA < valueB ? -1 : 1;
+};
+
 // we're using lodash sortBy as our default sorting fn
 const sortItems = <Item extends TItem = TItem>(
   items: Item[],
@@ -31,46 +60,139 @@ const sortItems = <Item extends TItem = TItem>(
   return sortedItems;
 };
 
+// sorts the items by each descriptor in order, the following descriptors being used to break the ties
+const sortItemsByDescriptors = <Item extends TItem = TItem>(
+  items: Item[],
+  sortDescriptors: TSortDescriptor[],
+  sortingFunction?: TSortingFn,
+  comparators: TSortComparators<Item> = {}
+) => {
+  if (
+    sortDescriptors.length <= 1 &&
+    !sortDescriptors.some((descriptor) => comparators[descriptor.key])
+  ) {
+    return sortItems(
+      items,
+      sortDescriptors[0]?.key,
+      sortDescriptors[0]?.order,
+      sortingFunction
+    );
+  }
+
+  return [...items].sort((a, b) => {
+    for (const { key, order } of sortDescriptors) {
+      const comparator = comparators[key];
+      const result = comparator
+        ? comparator(a, b)
+        : compareFieldValues(a, b, key);
+      if (result !== 0) {
+        return order === 'desc' ? -result : result;
+      }
+    }
+    return 0;
+  });
+};
+
+const getSortDescriptors = (
+  field?: string | TSortDescriptor[],
+  sortDirection?: TSortDirection
+): TSortDescriptor[] => {
+  if (Array.isArray(field)) return field;
+  return field ? [{ key: field, order: sortDirection || 'asc' }] : [];
+};
+
 const getInitialState = <Item extends TItem = TItem>(
   items: Item[],
-  field?: string,
+  field?: string | TSortDescriptor[],
   sortDirection?: TSortDirection,
-  sortingFunction?: TSortingFn
-): TSortingState<Item> => ({
-  items: sortItems(items, field, sortDirection, sortingFunction),
-  sortedBy: field,
-  sortDirection,
-});
+  sortingFunction?: TSortingFn,
+  comparators?: TSortComparators<Item>
+): TSortingState<Item> => {
+  const sortDescriptors = getSortDescriptors(field, sortDirection);
+
+  return {
+    items: sortItemsByDescriptors(
+      items,
+      sortDescriptors,
+      sortingFunction,
+      comparators
+    ),
+    sortedBy: sortDescriptors[0]?.key,
+    sortDirection: Array.isArray(field)
+      ? sortDescriptors[0]?.order
+      : sortDirection,
+    sortDescriptors,
+  };
+};
 
+/**
+ * Sorts the items by a field, or by an ordered list of sort descriptors.
+ * A custom comparator can be provided for each field through `comparators`.
+ */
 const useSorting = <Item extends TItem = TItem>(
   items: Item[],
-  field?: string,
+  field?: string | TSortDescriptor[],
   sortDirection?: TSortDirection,
-  sortingFunction?: TSortingFn
+  sortingFunction?: TSortingFn,
+  comparators?: TSortComparators<Item>
 ) => {
   const [sortState, setSorting] = useState(() =>
-    getInitialState(items, field, sortDirection, sortingFunction)
+    getInitialState(items, field, sortDirection, sortingFunction, comparators)
   );
 
   useDebugValue(sortState);
 
-  function onSortChange(fieldKey: string) {
-    let nextSortDirection: TSortDirection;
-    let sortedItems: Item[];
+  function onSortChange(
+    fieldKey: string,
+    sortDirection?: TSortDirection,
+    isMultiSort = false
+  ) {
+    const currentDescriptor = sortState.sortDescriptors.find(
+      (descriptor) => descriptor.key === fieldKey
+    );
+    // if the intented field is not already sorted, the initial direction is 'asc'
+    const nextSortDirection: TSortDirection =
+      sortDirection || (currentDescriptor?.order === 'asc' ? 'desc' : 'asc');
+    let nextSortDescriptors: TSortDescriptor[];
 
-    if (sortState.sortedBy !== fieldKey) {
-      // if the intented field is not already sorted, the initial direction is 'asc'
-      nextSortDirection = 'asc';
-      sortedItems = sortItems(sortState.items, fieldKey, nextSortDirection);
+    if (!isMultiSort) {
+      nextSortDescriptors = [{ key: fieldKey, order: nextSortDirection }];
+    } else if (currentDescriptor) {
+      nextSortDescriptors = sortState.sortDescriptors.map((descriptor) =>
+        descriptor.key === fieldKey
+          ? { key: fieldKey, order: nextSortDirection }
+          : descriptor
+      );
     } else {
-      nextSortDirection = sortState.sortDirection === 'asc' ? 'desc' : 'asc';
+      nextSortDescriptors = [
+        ...sortState.sortDescriptors,
+        { key: fieldKey, order: nextSortDirection },
+      ];
+    }
+
+    let sortedItems: Item[];
+    if (
+      !isMultiSort &&
+      sortState.sortDescriptors.length === 1 &&
+      currentDescriptor &&
+      currentDescriptor.order !== nextSortDirection &&
+      !comparators?.[fieldKey]
+    ) {
       sortedItems = sortState.items.reverse();
+    } else {
+      sortedItems = sortItemsByDescriptors(
+        sortState.items,
+        nextSortDescriptors,
+        sortingFunction,
+        comparators
+      );
     }
 
     setSorting({
       items: sortedItems,
-      sortedBy: fieldKey,
-      sortDirection: nextSortDirection,
+      sortedBy: nextSortDescriptors[0].key,
+      sortDirection: nextSortDescriptors[0].order,
+      sortDescriptors: nextSortDescriptors,
     });
   }
 
@@ -78,6 +200,7 @@ const useSorting = <Item extends TItem = TItem>(
     items: sortState.items,
     sortedBy: sortState.sortedBy,
     sortDirection: sortState.sortDirection,
+    sortDescriptors: sortState.sortDescriptors,
     onSortChange,
   };
 };